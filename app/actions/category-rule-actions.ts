@@ -0,0 +1,205 @@
+"use server";
+
+import { db } from "@/lib/db";
+import { categoryRuleTable } from "@/lib/schema";
+import { and, asc, desc, eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { resolveRequestScope } from "@/lib/analytics-scope";
+import { ensureScopeHydrated } from "@/lib/rehydrate";
+import { recategorizeScope } from "@/lib/category-rules";
+import { compileRulePattern } from "@/lib/categorize";
+import { saveSnapshot } from "@/lib/snapshot";
+import { KNOWN_BANKS } from "@/lib/categories";
+
+const MAX_PATTERN_LENGTH = 200;
+
+export type CategoryRuleInput = {
+  matchType: string;
+  pattern: string;
+  direction?: string | null;
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  bank?: string | null;
+  category: string;
+  merchant?: string | null;
+  priority?: number;
+};
+
+async function requireUserId() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+  const userId = session?.user.id;
+  if (!userId) {
+    throw new Error("Unauthorized");
+  }
+  return userId;
+}
+
+function toRuleId(ruleId: number | string): bigint {
+  const normalized = String(ruleId).trim();
+  if (!/^\d+$/.test(normalized)) {
+    throw new Error("Invalid rule id.");
+  }
+  return BigInt(normalized);
+}
+
+function optionalAmount(value: number | null | undefined, label: string) {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${label} must be a non-negative number.`);
+  }
+  return value;
+}
+
+function validateRule(input: CategoryRuleInput) {
+  const pattern = input.pattern.trim();
+  const category = input.category.trim();
+  const merchant = input.merchant?.trim() || null;
+  const bank = input.bank?.trim().toLowerCase() || null;
+
+  if (!pattern || !category) {
+    throw new Error("Pattern and category are required.");
+  }
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(
+      `Pattern must be at most ${MAX_PATTERN_LENGTH} characters.`,
+    );
+  }
+  if (input.matchType !== "contains" && input.matchType !== "regex") {
+    throw new Error("Match type must be contains or regex.");
+  }
+  if (input.matchType === "regex") {
+    try {
+      compileRulePattern(pattern);
+    } catch {
+      throw new Error(
+        "Pattern is not a valid regular expression (lookarounds and backreferences are not supported).",
+      );
+    }
+  }
+
+  const direction = input.direction || null;
+  if (direction !== null && direction !== "debit" && direction !== "credit") {
+    throw new Error("Direction must be debit, credit or empty.");
+  }
+  if (bank !== null && !KNOWN_BANKS.includes(bank)) {
+    throw new Error("Unknown bank.");
+  }
+
+  const minAmount = optionalAmount(input.minAmount, "Minimum amount");
+  const maxAmount = optionalAmount(input.maxAmount, "Maximum amount");
+  if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+    throw new Error("Minimum amount cannot exceed maximum amount.");
+  }
+
+  return {
+    matchType: input.matchType,
+    pattern,
+    direction,
+    minAmount,
+    maxAmount,
+    bank,
+    category,
+    merchant,
+    priority: Math.trunc(input.priority ?? 0),
+  };
+}
+
+function serializeRule(rule: typeof categoryRuleTable.$inferSelect) {
+  return {
+    ...rule,
+    id: rule.id.toString(),
+  };
+}
+
+export async function listCategoryRules() {
+  const userId = await requireUserId();
+
+  const rules = await db
+    .select()
+    .from(categoryRuleTable)
+    .where(eq(categoryRuleTable.userId, userId))
+    .orderBy(desc(categoryRuleTable.priority), asc(categoryRuleTable.id));
+
+  return rules.map(serializeRule);
+}
+
+/**
+ * Create a rule, or update it when a rule id is given. Rules take effect on
+ * the next CSV load; call applyCategoryRules to relabel loaded tables.
+ */
+export async function saveCategoryRule(
+  input: CategoryRuleInput,
+  ruleId: number | string | null = null,
+) {
+  const userId = await requireUserId();
+  const values = validateRule(input);
+
+  if (ruleId === null) {
+    const [created] = await db
+      .insert(categoryRuleTable)
+      .values({ ...values, userId })
+      .returning();
+    return serializeRule(created);
+  }
+
+  const [updated] = await db
+    .update(categoryRuleTable)
+    .set(values)
+    .where(
+      and(
+        eq(categoryRuleTable.id, toRuleId(ruleId)),
+        eq(categoryRuleTable.userId, userId),
+      ),
+    )
+    .returning();
+
+  if (!updated) {
+    throw new Error("Rule not found.");
+  }
+  return serializeRule(updated);
+}
+
+export async function deleteCategoryRule(ruleId: number | string) {
+  const userId = await requireUserId();
+
+  const [deleted] = await db
+    .delete(categoryRuleTable)
+    .where(
+      and(
+        eq(categoryRuleTable.id, toRuleId(ruleId)),
+        eq(categoryRuleTable.userId, userId),
+      ),
+    )
+    .returning({ id: categoryRuleTable.id });
+
+  if (!deleted) {
+    throw new Error("Rule not found.");
+  }
+  return { id: deleted.id.toString() };
+}
+
+/**
+ * Relabel every loaded table of a customer with the current rules and
+ * refresh the customer's snapshot.
+ */
+export async function applyCategoryRules(customerId: number | string) {
+  const { scope, error } = await resolveRequestScope(
+    await headers(),
+    customerId,
+  );
+  if (!scope) {
+    throw new Error(error);
+  }
+
+  await ensureScopeHydrated(scope);
+  const tables = await recategorizeScope(scope);
+  if (tables.length > 0) {
+    await saveSnapshot(scope);
+  }
+  return { tables };
+}
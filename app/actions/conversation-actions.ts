@@ -0,0 +1,207 @@
+"use server";
+
+import { db } from "@/lib/db";
+import {
+  conversationMessageTable,
+  conversationTable,
+  customerTable,
+} from "@/lib/schema";
+import { and, asc, desc, eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { resolveRequestScope } from "@/lib/analytics-scope";
+
+const MAX_TITLE_LENGTH = 80;
+// Caps on a saved turn. The question is the user's and is refused when too
+// long; the rest is generated and clipped, so a long answer is still saved
+const MAX_QUESTION_LENGTH = 2000;
+const MAX_SQL_LENGTH = 20_000;
+const MAX_TEXT_LENGTH = 20_000;
+const MAX_COLUMNS = 200;
+const MAX_CHART_CONFIG_LENGTH = 20_000;
+
+export type ConversationTurnInput = {
+  question: string;
+  sql?: string;
+  explanation?: string;
+  answer?: string;
+  columns?: string[];
+  chartConfig?: unknown;
+  rowCount?: number;
+  error?: string;
+};
+
+function clip(value: string | undefined, max: number): string | null {
+  if (!value) return null;
+  return value.length > max ? `${value.slice(0, max - 1)}…` : value;
+}
+
+function toConversationId(conversationId: number | string): bigint {
+  const normalized = String(conversationId).trim();
+  if (!/^\d+$/.test(normalized)) {
+    throw new Error("Invalid conversation id.");
+  }
+  return BigInt(normalized);
+}
+
+/**
+ * Look up a conversation, making sure it belongs to one of the signed-in
+ * user's customers.
+ */
+async function getOwnedConversation(conversationId: number | string) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+  const userId = session?.user.id;
+  if (!userId) {
+    return null;
+  }
+
+  const [row] = await db
+    .select({ conversation: conversationTable })
+    .from(conversationTable)
+    .innerJoin(
+      customerTable,
+      eq(conversationTable.customerId, customerTable.id),
+    )
+    .where(
+      and(
+        eq(conversationTable.id, toConversationId(conversationId)),
+        eq(customerTable.userId, userId),
+      ),
+    );
+
+  return row?.conversation ?? null;
+}
+
+export async function listConversations(customerId: number | string) {
+  const { scope } = await resolveRequestScope(await headers(), customerId);
+  if (!scope?.customerId) {
+    return [];
+  }
+
+  const conversations = await db
+    .select()
+    .from(conversationTable)
+    .where(eq(conversationTable.customerId, BigInt(scope.customerId)))
+    .orderBy(desc(conversationTable.updatedAt));
+
+  return conversations.map((c) => ({
+    id: c.id.toString(),
+    title: c.title,
+    createdAt: c.createdAt,
+    updatedAt: c.updatedAt,
+  }));
+}
+
+export async function loadConversation(conversationId: number | string) {
+  const conversation = await getOwnedConversation(conversationId);
+  if (!conversation) {
+    return null;
+  }
+
+  const messages = await db
+    .select()
+    .from(conversationMessageTable)
+    .where(eq(conversationMessageTable.conversationId, conversation.id))
+    .orderBy(asc(conversationMessageTable.id));
+
+  return {
+    id: conversation.id.toString(),
+    title: conversation.title,
+    messages: messages.map((m) => ({
+      ...m,
+      id: m.id.toString(),
+      conversationId: m.conversationId.toString(),
+    })),
+  };
+}
+
+export async function deleteConversation(conversationId: number | string) {
+  const conversation = await getOwnedConversation(conversationId);
+  if (!conversation) {
+    throw new Error("Conversation not found.");
+  }
+
+  // Messages go with it (ON DELETE CASCADE)
+  await db
+    .delete(conversationTable)
+    .where(eq(conversationTable.id, conversation.id));
+
+  return { id: conversation.id.toString() };
+}
+
+/**
+ * Append a finished question/answer turn. Without a conversation id a new
+ * conversation is started, titled after its first question; with one, the
+ * conversation must belong to the given customer.
+ */
+export async function saveConversationTurn(
+  customerId: number | string,
+  conversationId: number | string | null,
+  turn: ConversationTurnInput,
+) {
+  const question = turn.question.trim();
+  if (!question) {
+    throw new Error("Question is required.");
+  }
+  if (question.length > MAX_QUESTION_LENGTH) {
+    throw new Error(
+      `Question must be at most ${MAX_QUESTION_LENGTH} characters.`,
+    );
+  }
+
+  const { scope, error } = await resolveRequestScope(
+    await headers(),
+    customerId,
+  );
+  if (!scope?.customerId) {
+    throw new Error(error ?? "A customer is required to save a chat.");
+  }
+
+  let conversation;
+  if (conversationId !== null) {
+    conversation = await getOwnedConversation(conversationId);
+    if (!conversation || conversation.customerId !== BigInt(scope.customerId)) {
+      throw new Error("Conversation not found.");
+    }
+  } else {
+    [conversation] = await db
+      .insert(conversationTable)
+      .values({
+        customerId: BigInt(scope.customerId),
+        title:
+          question.length > MAX_TITLE_LENGTH
+            ? `${question.slice(0, MAX_TITLE_LENGTH - 1)}…`
+            : question,
+      })
+      .returning();
+  }
+
+  // A chart config too big to be one the app drew is dropped
+  const chartConfig =
+    turn.chartConfig !== undefined &&
+    (JSON.stringify(turn.chartConfig)?.length ?? 0) <= MAX_CHART_CONFIG_LENGTH
+      ? turn.chartConfig
+      : null;
+
+  await db.insert(conversationMessageTable).values({
+    conversationId: conversation.id,
+    question,
+    sql: clip(turn.sql, MAX_SQL_LENGTH),
+    explanation: clip(turn.explanation, MAX_TEXT_LENGTH),
+    answer: clip(turn.answer, MAX_TEXT_LENGTH),
+    columns: turn.columns?.slice(0, MAX_COLUMNS) ?? null,
+    chartConfig,
+    rowCount: turn.rowCount ?? null,
+    error: clip(turn.error, MAX_TEXT_LENGTH),
+  });
+
+  // Bump the conversation to the top of the sidebar
+  await db
+    .update(conversationTable)
+    .set({ updatedAt: new Date() })
+    .where(eq(conversationTable.id, conversation.id));
+
+  return { conversationId: conversation.id.toString() };
+}
@@ -0,0 +1,173 @@
+"use server";
+
+import { db } from "@/lib/db";
+import { customerTable, uploadedFileTable } from "@/lib/schema";
+import { and, eq } from "drizzle-orm";
+import Papa from "papaparse";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { downloadFromR2 } from "@/lib/r2";
+import { loadPdfResult } from "@/lib/pdf-result";
+import { saveSnapshot } from "@/lib/snapshot";
+
+// Converted PDFs with a low confidence score wait in `needs_review` until a
+// user compares the parsed rows with the PDF's pages and approves or
+// rejects them. Only approval loads the rows into the analytics DB.
+
+/** Parsed rows sent to the review screen; enough for any monthly statement. */
+const MAX_REVIEW_ROWS = 2000;
+
+async function requireUserId() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+  const userId = session?.user.id;
+  if (!userId) {
+    throw new Error("Unauthorized");
+  }
+  return userId;
+}
+
+function toFileId(fileId: number | string): number {
+  const normalized = String(fileId).trim();
+  if (!/^\d+$/.test(normalized)) {
+    throw new Error("Invalid file id.");
+  }
+  return Number(normalized);
+}
+
+/** The file, if it belongs to one of the user's customers. */
+async function findOwnedFile(userId: string, fileId: number | string) {
+  const [row] = await db
+    .select({ file: uploadedFileTable })
+    .from(uploadedFileTable)
+    .innerJoin(
+      customerTable,
+      eq(uploadedFileTable.customerId, customerTable.id),
+    )
+    .where(
+      and(
+        eq(uploadedFileTable.id, toFileId(fileId)),
+        eq(customerTable.userId, userId),
+      ),
+    );
+
+  if (!row) {
+    throw new Error("File not found.");
+  }
+  return row.file;
+}
+
+async function findFileInReview(userId: string, fileId: number | string) {
+  const file = await findOwnedFile(userId, fileId);
+  if (file.status !== "needs_review") {
+    throw new Error("This file is not waiting for review.");
+  }
+  return file;
+}
+
+/**
+ * Everything the review screen shows for one file: the PDF's page text and
+ * the rows parsed from it.
+ */
+export async function getReviewItem(fileId: number | string) {
+  const userId = await requireUserId();
+  const file = await findFileInReview(userId, fileId);
+  if (!file.resultCsvKey) {
+    throw new Error("This file has no converted CSV.");
+  }
+
+  const parsed = Papa.parse<string[]>(await downloadFromR2(file.resultCsvKey), {
+    skipEmptyLines: true,
+  });
+  const [csvHeaders = [], ...rows] = parsed.data;
+
+  let pages: { page: number; text: string }[] = [];
+  if (file.pageTextKey) {
+    try {
+      pages = JSON.parse(await downloadFromR2(file.pageTextKey));
+    } catch (error) {
+      console.error(`Failed to load page text for file ${file.id}:`, error);
+    }
+  }
+
+  return {
+    fileId: file.id,
+    fileName: file.fileName,
+    confidence: file.confidence,
+    reconciliation: file.reconciliation,
+    pages,
+    headers: csvHeaders,
+    rows: rows.slice(0, MAX_REVIEW_ROWS),
+    totalRows: rows.length,
+  };
+}
+
+/**
+ * Accept a conversion: mark it reviewed and load its rows into the
+ * customer's analytics DB. On failure it goes back to the review queue.
+ */
+export async function approveConversion(fileId: number | string) {
+  const userId = await requireUserId();
+  const file = await findFileInReview(userId, fileId);
+
+  // Completed first, so the snapshot saved by the load includes the file
+  const [approved] = await db
+    .update(uploadedFileTable)
+    .set({
+      status: "completed",
+      reviewedBy: userId,
+      reviewedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(uploadedFileTable.id, file.id),
+        eq(uploadedFileTable.status, "needs_review"),
+      ),
+    )
+    .returning();
+  if (!approved) {
+    throw new Error("This file is not waiting for review.");
+  }
+
+  try {
+    const scope = await loadPdfResult(approved);
+    if (!scope) {
+      throw new Error("The file has no CSV or customer to load into.");
+    }
+    await saveSnapshot(scope);
+  } catch (error) {
+    console.error(`Failed to load approved file ${file.id}:`, error);
+    await db
+      .update(uploadedFileTable)
+      .set({
+        status: "needs_review",
+        reviewedBy: null,
+        reviewedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(uploadedFileTable.id, file.id));
+    throw new Error("Failed to load the approved CSV. Please try again.");
+  }
+
+  return { id: file.id, status: "completed" };
+}
+
+/** Reject a conversion; its rows never reach the analytics DB. */
+export async function rejectConversion(fileId: number | string) {
+  const userId = await requireUserId();
+  const file = await findFileInReview(userId, fileId);
+
+  await db
+    .update(uploadedFileTable)
+    .set({
+      status: "rejected",
+      reviewedBy: userId,
+      reviewedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(uploadedFileTable.id, file.id));
+
+  return { id: file.id, status: "rejected" };
+}
@@ -2,10 +2,19 @@
 
 import { db } from "@/lib/db";
 import { customerTable, uploadedFileTable } from "@/lib/schema";
-import { desc, sql, eq } from "drizzle-orm";
+import { and, desc, sql, eq, isNotNull } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
-import { getTableSchemas, sanitizeTableName } from "@/lib/csv-db";
+import { getTableSchemas, resetDb, sanitizeTableName } from "@/lib/csv-db";
+import { resolveRequestScope } from "@/lib/analytics-scope";
+import { ensureScopeHydrated, findMissingTables } from "@/lib/rehydrate";
+import { rawTableNameFor } from "@/lib/statement-schema";
+import { TRANSACTIONS_VIEW } from "@/lib/transactions";
+import {
+  getPdfJob,
+  queuePdfProcessing,
+  type PdfJob,
+} from "@/lib/pdf-processor";
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
 const PHONE_REGEX = /^\+?[0-9][0-9\s\-()]{7,19}$/;
@@ -92,6 +101,12 @@ export async function deleteCustomerFromCustomerTable(
     throw new Error("Customer not found.");
   }
 
+  // Drop the customer's in-memory analytics tables along with the record
+  resetDb({
+    userId: deletedCustomer.userId,
+    customerId: deletedCustomer.id.toString(),
+  });
+
   return {
     ...deletedCustomer,
     id: deletedCustomer.id.toString(),
@@ -111,9 +126,153 @@ export async function getUploadedFilesForCustomer(customerId: number | string) {
   }));
 }
 
+export type ProcessingProgress = Pick<
+  PdfJob,
+  "status" | "attempts" | "maxAttempts" | "lastError" | "progress"
+>;
+
+/**
+ * Live progress of the customer's PDFs still being processed, by file id,
+ * from the pdf-processor's job API. Files whose job cannot be looked up are
+ * left out.
+ */
+export async function getProcessingProgress(
+  customerId: number | string,
+): Promise<Record<number, ProcessingProgress>> {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+  const userId = session?.user.id;
+  if (!userId) {
+    throw new Error("Unauthorized");
+  }
+
+  const files = await db
+    .select({
+      id: uploadedFileTable.id,
+      processorJobId: uploadedFileTable.processorJobId,
+    })
+    .from(uploadedFileTable)
+    .innerJoin(
+      customerTable,
+      eq(uploadedFileTable.customerId, customerTable.id),
+    )
+    .where(
+      and(
+        eq(uploadedFileTable.customerId, BigInt(customerId)),
+        eq(customerTable.userId, userId),
+        eq(uploadedFileTable.status, "processing"),
+        isNotNull(uploadedFileTable.processorJobId),
+      ),
+    );
+
+  const entries = await Promise.all(
+    files.map(async (file) => {
+      try {
+        const job = await getPdfJob(file.processorJobId!);
+        if (!job) return null;
+        const { status, attempts, maxAttempts, lastError, progress } = job;
+        return [
+          file.id,
+          { status, attempts, maxAttempts, lastError, progress },
+        ] as const;
+      } catch (err) {
+        console.error("Failed to fetch PDF job progress:", err);
+        return null;
+      }
+    }),
+  );
+
+  return Object.fromEntries(entries.filter((entry) => entry !== null));
+}
+
+/** Statuses a PDF can be reprocessed from. */
+const REPROCESSABLE_STATUSES = ["failed", "rejected"];
+
+/**
+ * Queue a failed or rejected PDF in the pdf-processor again. With
+ * `freshScript`, the processor generates a new parser script instead of
+ * reusing the one registered for the PDF's layout — for conversions the
+ * registered script got wrong.
+ */
+export async function reprocessUploadedFile(
+  fileId: number | string,
+  options: { freshScript?: boolean } = {},
+) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+  const userId = session?.user.id;
+  if (!userId) {
+    throw new Error("Unauthorized");
+  }
+  if (!/^\d+$/.test(String(fileId).trim())) {
+    throw new Error("Invalid file id.");
+  }
+
+  const [row] = await db
+    .select({ file: uploadedFileTable })
+    .from(uploadedFileTable)
+    .innerJoin(
+      customerTable,
+      eq(uploadedFileTable.customerId, customerTable.id),
+    )
+    .where(
+      and(
+        eq(uploadedFileTable.id, Number(fileId)),
+        eq(customerTable.userId, userId),
+      ),
+    );
+  const file = row?.file;
+  if (!file) {
+    throw new Error("File not found.");
+  }
+  if (file.fileType !== "pdf") {
+    throw new Error("Only PDFs can be reprocessed.");
+  }
+  if (!REPROCESSABLE_STATUSES.includes(file.status)) {
+    throw new Error(
+      `A ${file.status.replace("_", " ")} file cannot be retried.`,
+    );
+  }
+
+  let jobId: string | null;
+  try {
+    jobId = await queuePdfProcessing({
+      key: file.r2Key,
+      size: 0, // Not recorded; the processor does not use it
+      fileId: file.id,
+      freshScript: options.freshScript ?? false,
+    });
+  } catch (err) {
+    console.error(`Failed to queue ${file.fileName} for reprocessing:`, err);
+    throw new Error("The PDF processor could not be reached. Try again later.");
+  }
+  if (!jobId) {
+    throw new Error("PDF processing is not configured.");
+  }
+
+  await db
+    .update(uploadedFileTable)
+    .set({
+      status: "processing",
+      processorJobId: jobId,
+      failureReason: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(uploadedFileTable.id, file.id));
+
+  return { id: file.id, status: "processing", processorJobId: jobId };
+}
+
 export async function getAvailableTables(customerId: number | string) {
+  const { scope } = await resolveRequestScope(await headers(), customerId);
+  if (!scope) {
+    return [];
+  }
+
   const files = await getUploadedFilesForCustomer(customerId);
-  const schemas = getTableSchemas();
+  const schemas = getTableSchemas(scope);
   const tables = [];
   const processedTableNames = new Set<string>();
 
@@ -132,7 +291,50 @@ export async function getAvailableTables(customerId: number | string) {
         columns: schema.columns,
         rowCount: schema.rowCount,
       });
+
+      // Statements are normalized; the file as uploaded sits next to it
+      const rawSchema = schemas.get(rawTableNameFor(tableName));
+      if (rawSchema) {
+        tables.push({
+          fileName: `${file.fileName} (raw)`,
+          tableName: rawTableNameFor(tableName),
+          columns: rawSchema.columns,
+          rowCount: rawSchema.rowCount,
+        });
+      }
     }
   }
+
+  // All statements in one place, ahead of the per-file tables
+  const transactions = schemas.get(TRANSACTIONS_VIEW);
+  if (transactions?.view) {
+    tables.unshift({
+      fileName: "All transactions",
+      tableName: TRANSACTIONS_VIEW,
+      columns: transactions.columns,
+      rowCount: transactions.rowCount,
+    });
+  }
   return tables;
 }
+
+export async function countTablesToRestore(customerId: number | string) {
+  const { scope } = await resolveRequestScope(await headers(), customerId);
+  if (!scope) {
+    return 0;
+  }
+
+  const missing = await findMissingTables(scope);
+  return missing.length;
+}
+
+export async function restoreCustomerTables(customerId: number | string) {
+  const { scope } = await resolveRequestScope(await headers(), customerId);
+  if (!scope) {
+    return { tables: [], failed: [] };
+  }
+
+  const { failed } = await ensureScopeHydrated(scope);
+  const tables = await getAvailableTables(customerId);
+  return { tables, failed };
+}
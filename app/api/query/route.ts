@@ -1,18 +1,56 @@
 import { NextRequest, NextResponse } from "next/server";
-import { executeQuery, getTableSchemas } from "@/lib/csv-db";
-import {
-  generateSqlQuery,
-  generateSqlQueryRetry,
-  generateChartConfig,
-  generateAnswer,
-} from "@/lib/llm";
+import { getTableSchemas } from "@/lib/csv-db";
+import { resolveRequestScope } from "@/lib/analytics-scope";
+import { ensureScopeHydrated } from "@/lib/rehydrate";
+import { runQueryPipeline } from "@/lib/query-pipeline";
+import { parseConversationHistory } from "@/lib/conversation";
+import type { QueryStreamEvent } from "@/lib/query-events";
 
-const MAX_RETRIES = 2;
+/**
+ * Serialize pipeline events as NDJSON. Errors thrown mid-stream become a
+ * final `error` event since the status code has already been sent.
+ */
+function toNdjsonStream(
+  events: AsyncGenerator<QueryStreamEvent>,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const encode = (event: QueryStreamEvent) =>
+    encoder.encode(`${JSON.stringify(event)}\n`);
+
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { value, done } = await events.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encode(value));
+      } catch (error) {
+        console.error("Query stream error:", error);
+        controller.enqueue(
+          encode({
+            type: "error",
+            error: `Query processing failed: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`,
+          }),
+        );
+        controller.close();
+      }
+    },
+    async cancel() {
+      await events.return(undefined);
+    },
+  });
+}
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { question } = body;
+    const { question, customerId, stream } = body;
+    // Earlier turns of the chat, so follow-up questions can build on them
+    const history = parseConversationHistory(body.history);
 
     if (!question || typeof question !== "string" || question.trim() === "") {
       return NextResponse.json(
@@ -21,8 +59,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Resolve which customer's analytics database this question targets
+    const {
+      scope,
+      error: scopeError,
+      status,
+    } = await resolveRequestScope(request.headers, customerId);
+    if (!scope) {
+      return NextResponse.json({ error: scopeError }, { status });
+    }
+
+    // Reload the customer's tables from R2 if the server restarted
+    await ensureScopeHydrated(scope);
+
     // Check that we have tables loaded
-    const schemas = getTableSchemas();
+    const schemas = getTableSchemas(scope);
     if (schemas.size === 0) {
       return NextResponse.json(
         {
@@ -33,126 +84,54 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Step 1: Generate SQL query from the user's question via LLM
-    let generatedQuery;
-    try {
-      generatedQuery = await generateSqlQuery(question.trim());
-    } catch (error) {
-      return NextResponse.json(
-        {
-          error: `Failed to generate SQL query: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
+    const events = runQueryPipeline(scope, question.trim(), history);
+
+    // Streaming clients get every stage as it completes
+    if (stream === true) {
+      return new Response(toNdjsonStream(events), {
+        headers: {
+          "Content-Type": "application/x-ndjson; charset=utf-8",
+          "Cache-Control": "no-cache, no-transform",
         },
-        { status: 422 },
-      );
+      });
     }
 
-    // Step 2: Execute the generated SQL query against the in-memory database
-    // If it fails, retry up to MAX_RETRIES times using the dedicated retry
-    // function which gives the LLM the failed SQL + error message for
-    // much better self-correction.
-    let queryResult;
-    let lastError: string | null = null;
-
-    try {
-      queryResult = await executeQuery(generatedQuery.sql);
-    } catch (error) {
-      lastError = error instanceof Error ? error.message : String(error);
-
-      // Retry loop with progressively richer context
-      for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-        try {
-          const retryQuery = await generateSqlQueryRetry(
-            question.trim(),
-            generatedQuery.sql,
-            lastError,
-            attempt,
-          );
-          generatedQuery = retryQuery;
-          queryResult = await executeQuery(retryQuery.sql);
-          lastError = null; // Clear error on success
+    // Everyone else gets the collected result in one response
+    const result: Record<string, unknown> = {
+      success: true,
+      question: question.trim(),
+    };
+    for await (const event of events) {
+      switch (event.type) {
+        case "sql":
+          result.sql = event.sql;
+          result.explanation = event.explanation;
           break;
-        } catch (retryError) {
-          lastError =
-            retryError instanceof Error
-              ? retryError.message
-              : String(retryError);
-
-          // If this was the last retry, we'll fall through to the error response below
-          if (attempt === MAX_RETRIES) {
-            return NextResponse.json(
-              {
-                error: `SQL execution failed after ${MAX_RETRIES + 1} attempts. Last error: ${lastError}`,
-                sql: generatedQuery.sql,
-                explanation: generatedQuery.explanation,
-              },
-              { status: 422 },
-            );
-          }
-        }
+        case "rows":
+          result.columns = event.columns;
+          result.data = event.data;
+          result.rowCount = event.rowCount;
+          break;
+        case "answer":
+          result.answer = event.answer;
+          break;
+        case "chart":
+          result.chartConfig = event.chartConfig;
+          break;
+        case "error":
+          return NextResponse.json(
+            {
+              error: event.error,
+              rejected: event.rejected,
+              sql: event.sql,
+              explanation: event.explanation,
+            },
+            { status: 422 },
+          );
       }
     }
 
-    // Safety check — shouldn't happen but guards against unexpected flow
-    if (!queryResult) {
-      return NextResponse.json(
-        {
-          error: "Query execution produced no result.",
-          sql: generatedQuery.sql,
-          explanation: generatedQuery.explanation,
-        },
-        { status: 422 },
-      );
-    }
-
-    // Step 3: Generate a natural language answer from the results
-    let answer;
-    try {
-      answer = await generateAnswer(
-        question.trim(),
-        queryResult.columns,
-        queryResult.rows,
-        generatedQuery.explanation,
-      );
-    } catch {
-      answer = "Query executed successfully. See the results below.";
-    }
-
-    // Step 4: Generate chart configuration if the data is visualizable
-    let chartConfig = null;
-    try {
-      chartConfig = await generateChartConfig(
-        question.trim(),
-        queryResult.columns,
-        queryResult.rows,
-        generatedQuery.explanation,
-      );
-    } catch {
-      // Chart generation is non-critical; if it fails we just skip it
-      chartConfig = null;
-    }
-
-    // Convert rows to array-of-objects for easier frontend consumption
-    const data = queryResult.rows.map((row) => {
-      const obj: Record<string, string | number | null> = {};
-      queryResult.columns.forEach((col: string, i: number) => {
-        obj[col] = row[i];
-      });
-      return obj;
-    });
-
-    return NextResponse.json({
-      success: true,
-      question: question.trim(),
-      sql: generatedQuery.sql,
-      explanation: generatedQuery.explanation,
-      answer,
-      columns: queryResult.columns,
-      data,
-      rowCount: queryResult.rows.length,
-      chartConfig,
-    });
+    return NextResponse.json(result);
   } catch (error) {
     console.error("Query error:", error);
     return NextResponse.json(
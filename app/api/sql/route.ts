@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { executeQuery, getTableSchemas } from "@/lib/csv-db";
+import { executeReadOnlyQuery } from "@/lib/csv-db";
+import { resolveRequestScope } from "@/lib/analytics-scope";
+import { ensureScopeHydrated } from "@/lib/rehydrate";
+import { validateReadOnlySql } from "@/lib/sql-guard";
 
-const SAFE_SELECT_ALL_REGEX =
-  /^SELECT\s+\*\s+FROM\s+"?([A-Za-z_][A-Za-z0-9_]*)"?\s*;?\s*$/i;
+// Limits for hand-written queries from the SQL workbench
+const MAX_ROWS = 1000;
+const TIMEOUT_MS = 5000;
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,25 +20,36 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const trimmedSql = sql.trim();
-    const match = trimmedSql.match(SAFE_SELECT_ALL_REGEX);
-    if (!match) {
-      return NextResponse.json(
-        { error: "Only SELECT * FROM <table> queries are allowed." },
-        { status: 400 },
-      );
+    const validation = validateReadOnlySql(sql);
+    if (!validation.ok) {
+      return NextResponse.json({ error: validation.reason }, { status: 400 });
     }
 
-    const tableName = match[1].toLowerCase();
-    const schemas = getTableSchemas();
-    if (!schemas.has(tableName)) {
+    const { scope, error, status } = await resolveRequestScope(
+      request.headers,
+      body?.customerId,
+    );
+    if (!scope) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    // Reload the customer's tables from R2 if the server restarted
+    await ensureScopeHydrated(scope);
+
+    let queryResult;
+    try {
+      queryResult = await executeReadOnlyQuery(scope, validation.sql, {
+        maxRows: MAX_ROWS,
+        timeoutMs: TIMEOUT_MS,
+      });
+    } catch (err) {
+      // Bad column names, syntax errors and timeouts are the caller's to fix
       return NextResponse.json(
-        { error: `Table "${tableName}" is not loaded.` },
-        { status: 404 },
+        { error: err instanceof Error ? err.message : String(err) },
+        { status: 400 },
       );
     }
 
-    const queryResult = await executeQuery(`SELECT * FROM "${tableName}";`);
     const data = queryResult.rows.map((row) => {
       const obj: Record<string, string | number | null> = {};
       queryResult.columns.forEach((col, i) => {
@@ -45,10 +60,11 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      sql: `SELECT * FROM "${tableName}";`,
+      sql: validation.sql,
       columns: queryResult.columns,
       data,
       rowCount: queryResult.rows.length,
+      truncated: queryResult.truncated,
     });
   } catch (error) {
     return NextResponse.json(
@@ -1,12 +1,56 @@
 // uploading to r2
 import { NextRequest, NextResponse } from "next/server";
 import { uploadToR2, UploadResult } from "@/lib/r2";
-import { loadCsvIntoDb, sanitizeTableName, resetDb } from "@/lib/csv-db";
+import { sanitizeTableName, resetDb } from "@/lib/csv-db";
+import { ingestCsv } from "@/lib/ingest";
+import { saveSnapshot } from "@/lib/snapshot";
 import { db } from "@/lib/db";
 import { uploadedFileTable } from "@/lib/schema";
+import { and, eq, ne } from "drizzle-orm";
+import { resolveRequestScope } from "@/lib/analytics-scope";
+import { queuePdfProcessing } from "@/lib/pdf-processor";
 
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB per file
 
+// Table a file loads into; a PDF's generated CSV is named after the PDF
+// (see lib/rehydrate.ts)
+function tableNameFor(fileName: string): string {
+  return sanitizeTableName(fileName.replace(/\.pdf$/i, ".csv"));
+}
+
+// The first file in the batch whose table already belongs to one of the
+// customer's earlier uploads or to a file before it in the batch
+async function findTableCollision(
+  files: File[],
+  customerId: string | null,
+): Promise<{ fileName: string; tableName: string; other: string } | null> {
+  const claimed = new Map<string, string>();
+  if (customerId) {
+    const existing = await db
+      .select({ fileName: uploadedFileTable.fileName })
+      .from(uploadedFileTable)
+      .where(
+        and(
+          eq(uploadedFileTable.customerId, BigInt(customerId)),
+          ne(uploadedFileTable.status, "rejected"),
+        ),
+      );
+    for (const file of existing) {
+      claimed.set(tableNameFor(file.fileName), file.fileName);
+    }
+  }
+
+  for (const file of files) {
+    const tableName = tableNameFor(file.name);
+    const other = claimed.get(tableName);
+    if (other !== undefined) {
+      return { fileName: file.name, tableName, other };
+    }
+    claimed.set(tableName, file.name);
+  }
+  return null;
+}
+
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
@@ -54,9 +98,31 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // CSVs are loaded into the analytics database of the selected customer
+    const { scope, error, status } = await resolveRequestScope(
+      request.headers,
+      customerId,
+    );
+    if (!scope) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    // Tables are named after their files, so a file whose name maps to a
+    // table another file already loads into would replace that file's rows.
+    // Refuse it rather than guess which one the user meant to keep
+    const collision = await findTableCollision(files, scope.customerId);
+    if (collision) {
+      return NextResponse.json(
+        {
+          error: `File "${collision.fileName}" would load into the same table ("${collision.tableName}") as "${collision.other}". Rename the file and upload it again.`,
+        },
+        { status: 409 },
+      );
+    }
+
     // Reset the database if requested
     if (shouldReset) {
-      resetDb();
+      resetDb(scope);
     }
 
     const uploadResults: UploadResult[] = [];
@@ -79,11 +145,11 @@ export async function POST(request: NextRequest) {
 
         // 2. Save file record to database (if customerId provided)
         let fileId: number | null = null;
-        if (customerId) {
+        if (scope.customerId) {
           const [insertedFile] = await db
             .insert(uploadedFileTable)
             .values({
-              customerId: BigInt(customerId),
+              customerId: BigInt(scope.customerId),
               fileName: file.name,
               r2Key: uploadResult.key,
               fileType,
@@ -96,8 +162,20 @@ export async function POST(request: NextRequest) {
         // 3. Process CSVs into Local DB or Trigger Pipeline for PDFs
         if (isCsv) {
           const csvContent = await file.text();
-          const tableName = sanitizeTableName(file.name);
-          const dbResult = await loadCsvIntoDb(csvContent, tableName);
+          const tableName = tableNameFor(file.name);
+          const dbResult = await ingestCsv(
+            scope,
+            csvContent,
+            tableName,
+            file.name,
+          );
+
+          if (fileId !== null) {
+            await db
+              .update(uploadedFileTable)
+              .set({ columnMapping: dbResult.report })
+              .where(eq(uploadedFileTable.id, fileId));
+          }
 
           dbResults.push({
             fileName: file.name,
@@ -106,52 +184,36 @@ export async function POST(request: NextRequest) {
             rowCount: dbResult.rowCount,
           });
         } else if (isPdf) {
-          // Trigger PDF Processor (Fire-and-forget)
-          const pdfProcessorUrl = process.env.PDF_PROCESSOR_URL;
-          if (pdfProcessorUrl) {
-            // Determine callback URL
-            let appUrl = process.env.APP_URL;
-            if (!appUrl) {
-              // Try to infer or use a sensible default for local dev
-              appUrl = "http://host.docker.internal:3000";
-              console.warn(
-                `APP_URL not set, defaulting to ${appUrl} for PDF processor callback. Ensure you run docker with --add-host=host.docker.internal:host-gateway on Linux.`,
-              );
-            }
-
-            const callbackUrl = `${appUrl}/api/webhook/pdf-complete`;
-
-            fetch(pdfProcessorUrl, {
-              method: "POST",
-              headers: {
-                "Content-Type": "application/json",
-                Authorization: `Bearer ${process.env.R2_WEBHOOK_SECRET}`,
-              },
-              body: JSON.stringify({
-                object: {
-                  key: uploadResult.key,
-                  size: uploadResult.size,
-                  eTag: "triggered-from-dashboard",
-                },
-                bucket: process.env.R2_BUCKET_NAME || "devsoc",
-                action: "PutObject",
-                eventTime: new Date().toISOString(),
-                // Pass fileId and callback URL for status updates
-                metadata: {
-                  fileId,
-                  callbackUrl,
-                },
-              }),
-            }).catch((err) => {
-              console.error(
-                `Failed to trigger PDF processor for ${file.name}:`,
-                err,
-              );
+          // Queue the PDF in the pdf-processor. A PDF that cannot be queued
+          // is marked failed rather than left processing forever
+          try {
+            const jobId = await queuePdfProcessing({
+              key: uploadResult.key,
+              size: uploadResult.size,
+              fileId,
             });
-          } else {
-            console.warn(
-              "PDF_PROCESSOR_URL not set, skipping pipeline trigger.",
+            if (fileId !== null && jobId) {
+              await db
+                .update(uploadedFileTable)
+                .set({ processorJobId: jobId })
+                .where(eq(uploadedFileTable.id, fileId));
+            }
+          } catch (err) {
+            console.error(
+              `Failed to queue ${file.name} for PDF processing:`,
+              err,
             );
+            if (fileId !== null) {
+              await db
+                .update(uploadedFileTable)
+                .set({
+                  status: "failed",
+                  failureReason: `Could not queue the PDF for processing: ${
+                    err instanceof Error ? err.message : String(err)
+                  }`,
+                })
+                .where(eq(uploadedFileTable.id, fileId));
+            }
           }
         }
       } catch (error) {
@@ -168,6 +230,11 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Persist the updated database so a restart doesn't need a full replay
+    if (dbResults.length > 0) {
+      await saveSnapshot(scope);
+    }
+
     return NextResponse.json({
       success: true,
       message: `Successfully uploaded ${uploadResults.length} file(s). CSV data loaded; PDFs queued for processing.`,
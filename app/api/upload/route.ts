@@ -1,6 +1,8 @@
 // ABHI ka shit
 import { NextRequest, NextResponse } from "next/server";
-import { loadCsvIntoDb, sanitizeTableName, resetDb } from "@/lib/csv-db";
+import { sanitizeTableName, resetDb } from "@/lib/csv-db";
+import { ingestCsv } from "@/lib/ingest";
+import { resolveRequestScope } from "@/lib/analytics-scope";
 
 export async function POST(request: NextRequest) {
   try {
@@ -45,9 +47,17 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const { scope, error, status } = await resolveRequestScope(
+      request.headers,
+      formData.get("customerId") as string | null,
+    );
+    if (!scope) {
+      return NextResponse.json({ error }, { status });
+    }
+
     // Reset the database if requested (e.g., fresh upload session)
     if (shouldReset) {
-      resetDb();
+      resetDb(scope);
     }
 
     const results: {
@@ -63,7 +73,7 @@ export async function POST(request: NextRequest) {
       const tableName = sanitizeTableName(file.name);
 
       try {
-        const result = await loadCsvIntoDb(csvContent, tableName);
+        const result = await ingestCsv(scope, csvContent, tableName, file.name);
         results.push({
           fileName: file.name,
           tableName: result.tableName,
@@ -2,13 +2,46 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { uploadedFileTable } from "@/lib/schema";
 import { eq } from "drizzle-orm";
-import { downloadFromR2 } from "@/lib/r2";
-import { loadCsvIntoDb, sanitizeTableName } from "@/lib/csv-db";
+import { loadPdfResult } from "@/lib/pdf-result";
+import { saveSnapshot } from "@/lib/snapshot";
+import { parseReconciliationReport } from "@/lib/reconciliation";
+import { needsReview, parseConversionConfidence } from "@/lib/confidence";
+import { verifyCallbackSignature } from "@/lib/callback-signature";
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { fileId, status, resultCsvKey, error } = body;
+    // Only the pdf-processor's signed callbacks may update files and load
+    // rows into the analytics DB
+    const rawBody = await request.text();
+    const check = verifyCallbackSignature(rawBody, request.headers);
+    if (!check.ok) {
+      console.warn("Rejected PDF completion webhook:", {
+        reason: check.reason,
+        ip: request.headers.get("x-forwarded-for") ?? null,
+        userAgent: request.headers.get("user-agent") ?? null,
+      });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    let body;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const {
+      jobId,
+      fileId,
+      status,
+      resultCsvKey,
+      normalizedCsvKey,
+      mappingReportKey,
+      reconciliationKey,
+      pageTextKey,
+      error,
+    } = body;
+    const reconciliation = parseReconciliationReport(body.reconciliation);
+    const confidence = parseConversionConfidence(body.confidence);
 
     if (!fileId || !status) {
       return NextResponse.json(
@@ -19,81 +52,127 @@ export async function POST(request: NextRequest) {
 
     console.log(
       `Received PDF completion webhook for fileId ${fileId}: ${status}`,
-      { resultCsvKey, error },
+      {
+        resultCsvKey,
+        mappingReportKey,
+        reconciliationStatus: reconciliation?.status ?? null,
+        confidenceScore: confidence?.score ?? null,
+        error,
+      },
     );
 
-    // Update the file record in the database
-    await db
-      .update(uploadedFileTable)
-      .set({
-        status: status,
-        resultCsvKey: resultCsvKey || null,
-        updatedAt: new Date(),
-      })
-      .where(eq(uploadedFileTable.id, fileId));
+    // Confident conversions are loaded straight away; the rest wait in the
+    // review queue, out of the analytics DB, until a user approves them
+    const held = status === "completed" && needsReview(confidence);
+    const loadsCsv = status === "completed" && !!resultCsvKey && !held;
 
-    // If successful, download the CSV and load it into the analytics DB
-    if (status === "completed" && resultCsvKey) {
-      try {
-        console.log(`Downloading CSV result from ${resultCsvKey}...`);
-        const csvContent = await downloadFromR2(resultCsvKey);
-
-        // We need the original filename to sanitize the table name.
-        // Fetch the record to get the file name.
-        const [fileRecord] = await db
+    // The processor delivers a callback until it gets a 2xx, so the same
+    // job's callback can arrive again, and a retried file's earlier job can
+    // still report in. Only the first delivery from the file's current job
+    // is applied. The file is locked while it is, so a concurrent delivery
+    // waits and then sees it applied; callbackJobId is saved with the CSV
+    // load and rolled back with it, so a failed load is applied again on
+    // the next delivery.
+    let loadError: unknown = null;
+    let outcome;
+    try {
+      outcome = await db.transaction(async (tx) => {
+        const [file] = await tx
           .select()
           .from(uploadedFileTable)
-          .where(eq(uploadedFileTable.id, fileId));
-
-        if (fileRecord) {
-          // Create a new file record for the generated CSV so it appears in the dashboard
-          const csvFileName = fileRecord.fileName.replace(/\.pdf$/i, ".csv");
-
-          const tableName = sanitizeTableName(csvFileName);
-          console.log(`Loading CSV into analytics DB table: ${tableName}`);
-          await loadCsvIntoDb(csvContent, tableName);
-          console.log("CSV loaded successfully.");
+          .where(eq(uploadedFileTable.id, fileId))
+          .for("update");
 
-          // Check for duplicates
-          const [existingCsv] = await db
-            .select()
-            .from(uploadedFileTable)
-            .where(eq(uploadedFileTable.r2Key, resultCsvKey));
-
-          if (!existingCsv) {
-            await db.insert(uploadedFileTable).values({
-              customerId: fileRecord.customerId,
-              fileName: csvFileName,
-              r2Key: resultCsvKey,
-              fileType: "csv",
-              status: "completed",
-            });
-            console.log(`Created new CSV file record: ${csvFileName}`);
-          }
-        } else {
-          console.warn(
-            `File record ${fileId} not found, using generic table name.`,
-          );
-          // Fallback if record not found (shouldn't happen)
-          await loadCsvIntoDb(csvContent, `processed_pdf_${fileId}`);
+        if (!file) {
+          return { applied: false as const, reason: "not_found" as const };
+        }
+        if (jobId && file.processorJobId && file.processorJobId !== jobId) {
+          return { applied: false as const, reason: "stale" as const };
         }
-      } catch (err) {
-        console.error("Failed to load generated CSV into DB:", err);
-        // We might want to mark the status as 'failed' if this part fails,
-        // even if the PDF processing itself succeeded.
-        await db
+        if (jobId && file.callbackJobId === jobId) {
+          return { applied: false as const, reason: "duplicate" as const };
+        }
+
+        const [updated] = await tx
           .update(uploadedFileTable)
           .set({
-            status: "failed", // or 'loading_failed'
+            callbackJobId: jobId || null,
+            status: held ? "needs_review" : status,
+            failureReason:
+              status === "failed" ? error || "PDF processing failed" : null,
+            resultCsvKey: resultCsvKey || null,
+            normalizedCsvKey: normalizedCsvKey || null,
+            mappingReportKey: mappingReportKey || null,
+            reconciliation,
+            reconciliationKey: reconciliationKey || null,
+            pageTextKey: pageTextKey || null,
+            confidence,
+            confidenceScore: confidence?.score ?? null,
             updatedAt: new Date(),
           })
-          .where(eq(uploadedFileTable.id, fileId));
+          .where(eq(uploadedFileTable.id, fileId))
+          .returning();
+
+        if (!loadsCsv) {
+          return { applied: true as const, scope: null };
+        }
+
+        // If successful, download the CSV and load it into the analytics DB
+        try {
+          const scope = await loadPdfResult(updated!, tx);
+          if (!scope) {
+            // Without an owning customer there is no analytics DB to load into
+            console.warn(
+              `Customer of file ${fileId} not found, skipping CSV load.`,
+            );
+          }
+          return { applied: true as const, scope };
+        } catch (err) {
+          loadError = err;
+          throw err;
+        }
+      });
+    } catch (err) {
+      if (loadError === null) throw err;
+
+      console.error("Failed to load generated CSV into DB:", loadError);
+      await db
+        .update(uploadedFileTable)
+        .set({
+          status: "failed",
+          failureReason: `Converted, but the CSV could not be loaded: ${
+            loadError instanceof Error ? loadError.message : String(loadError)
+          }`,
+          updatedAt: new Date(),
+        })
+        .where(eq(uploadedFileTable.id, fileId));
+
+      return NextResponse.json(
+        { error: "Failed to load CSV into database" },
+        { status: 500 },
+      );
+    }
 
-        return NextResponse.json(
-          { error: "Failed to load CSV into database" },
-          { status: 500 },
-        );
+    if (!outcome.applied) {
+      if (outcome.reason === "not_found") {
+        console.warn(`PDF completion webhook for unknown fileId ${fileId}`);
+        return NextResponse.json({ error: "File not found" }, { status: 404 });
       }
+      console.log(
+        outcome.reason === "stale"
+          ? `Ignoring PDF completion webhook for fileId ${fileId} from superseded job ${jobId}`
+          : `Ignoring repeated PDF completion webhook for fileId ${fileId}, job ${jobId}`,
+      );
+      return NextResponse.json({
+        success: true,
+        [outcome.reason]: true,
+      });
+    }
+
+    // Saved once the file's status is committed, so the snapshot's file set
+    // includes it
+    if (outcome.scope) {
+      await saveSnapshot(outcome.scope);
     }
 
     return NextResponse.json({ success: true });
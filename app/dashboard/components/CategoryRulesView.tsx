@@ -0,0 +1,410 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { Loader2, Pencil, Trash2 } from "lucide-react";
+import { CategoryRule, Customer } from "../types";
+import { CATEGORIES, KNOWN_BANKS } from "@/lib/categories";
+import {
+  applyCategoryRules,
+  deleteCategoryRule,
+  listCategoryRules,
+  saveCategoryRule,
+} from "@/app/actions/category-rule-actions";
+
+type CategoryRulesViewProps = {
+  customerId: Customer["id"] | null;
+  onRulesApplied: () => void;
+};
+
+type RuleForm = {
+  matchType: string;
+  pattern: string;
+  direction: string;
+  minAmount: string;
+  maxAmount: string;
+  bank: string;
+  category: string;
+  merchant: string;
+  priority: string;
+};
+
+const EMPTY_FORM: RuleForm = {
+  matchType: "contains",
+  pattern: "",
+  direction: "",
+  minAmount: "",
+  maxAmount: "",
+  bank: "",
+  category: "",
+  merchant: "",
+  priority: "0",
+};
+
+const inputClass =
+  "w-full border-2 border-[#933333] bg-transparent px-3 py-2 text-sm outline-none focus:bg-[#933333]/5";
+const labelClass = "text-xs font-bold uppercase";
+
+function toForm(rule: CategoryRule): RuleForm {
+  return {
+    matchType: rule.matchType,
+    pattern: rule.pattern,
+    direction: rule.direction ?? "",
+    minAmount: rule.minAmount?.toString() ?? "",
+    maxAmount: rule.maxAmount?.toString() ?? "",
+    bank: rule.bank ?? "",
+    category: rule.category,
+    merchant: rule.merchant ?? "",
+    priority: rule.priority.toString(),
+  };
+}
+
+function describeConditions(rule: CategoryRule): string {
+  const parts = [
+    rule.matchType === "regex"
+      ? `matches /${rule.pattern}/`
+      : `contains "${rule.pattern}"`,
+  ];
+  if (rule.direction) parts.push(`${rule.direction}s only`);
+  if (rule.minAmount !== null && rule.maxAmount !== null) {
+    parts.push(`amount ${rule.minAmount}–${rule.maxAmount}`);
+  } else if (rule.minAmount !== null) {
+    parts.push(`amount ≥ ${rule.minAmount}`);
+  } else if (rule.maxAmount !== null) {
+    parts.push(`amount ≤ ${rule.maxAmount}`);
+  }
+  if (rule.bank) parts.push(`${rule.bank.toUpperCase()} statements`);
+  return parts.join(", ");
+}
+
+export default function CategoryRulesView({
+  customerId,
+  onRulesApplied,
+}: CategoryRulesViewProps) {
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setRules((await listCategoryRules()) as CategoryRule[]);
+    } catch (err) {
+      console.error("Failed to load category rules:", err);
+      setError("Could not load rules.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadRules();
+  }, [loadRules]);
+
+  const updateField = (field: keyof RuleForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setMessage(null);
+    setIsSaving(true);
+    try {
+      await saveCategoryRule(
+        {
+          matchType: form.matchType,
+          pattern: form.pattern,
+          direction: form.direction || null,
+          minAmount: form.minAmount ? Number(form.minAmount) : null,
+          maxAmount: form.maxAmount ? Number(form.maxAmount) : null,
+          bank: form.bank || null,
+          category: form.category,
+          merchant: form.merchant || null,
+          priority: Number(form.priority) || 0,
+        },
+        editingId,
+      );
+      resetForm();
+      setMessage(
+        "Rule saved. It applies to new uploads; use Apply to relabel loaded tables.",
+      );
+      await loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save rule.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (ruleId: string) => {
+    setError(null);
+    setMessage(null);
+    try {
+      await deleteCategoryRule(ruleId);
+      if (editingId === ruleId) resetForm();
+      setRules((prev) => prev.filter((r) => r.id !== ruleId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete rule.");
+    }
+  };
+
+  const handleApply = async () => {
+    if (!customerId) return;
+    setError(null);
+    setMessage(null);
+    setIsApplying(true);
+    try {
+      const { tables } = await applyCategoryRules(String(customerId));
+      setMessage(
+        tables.length > 0
+          ? `Relabelled ${tables.length} table${tables.length === 1 ? "" : "s"}: ${tables.join(", ")}`
+          : "No statement tables to relabel for this customer.",
+      );
+      onRulesApplied();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to apply rules.");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Category Rules</h2>
+          <p className="mt-1 text-sm text-[#933333]/80">
+            Label statement rows yourself. Rules run before the built-in
+            categories, on every customer&apos;s statements.
+          </p>
+        </div>
+        <button
+          onClick={handleApply}
+          disabled={!customerId || isApplying || rules.length === 0}
+          className="border-2 border-[#933333] bg-[#933333] text-[#FFE2C7] px-4 h-10 font-bold transition hover:bg-[#7b2b2b] disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-2"
+        >
+          {isApplying && <Loader2 className="w-4 h-4 animate-spin" />}
+          Apply to Loaded Tables
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-4 border-2 border-red-700 bg-red-100/60 p-3 text-sm text-red-800">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="mt-4 border-2 border-[#933333] bg-[#933333]/5 p-3 text-sm">
+          {message}
+        </div>
+      )}
+
+      <form
+        onSubmit={handleSubmit}
+        className="mt-6 border-2 border-[#933333] bg-[#933333]/5 p-4 grid grid-cols-1 md:grid-cols-4 gap-4"
+      >
+        <label className="md:col-span-1">
+          <span className={labelClass}>Match</span>
+          <select
+            value={form.matchType}
+            onChange={(e) => updateField("matchType", e.target.value)}
+            className={inputClass}
+          >
+            <option value="contains">Description contains</option>
+            <option value="regex">Description matches regex</option>
+          </select>
+        </label>
+        <label className="md:col-span-3">
+          <span className={labelClass}>Pattern</span>
+          <input
+            value={form.pattern}
+            onChange={(e) => updateField("pattern", e.target.value)}
+            placeholder={
+              form.matchType === "regex" ? "NEFT.*ACME" : "NEFT-ACME"
+            }
+            className={inputClass}
+            required
+          />
+        </label>
+
+        <label>
+          <span className={labelClass}>Direction</span>
+          <select
+            value={form.direction}
+            onChange={(e) => updateField("direction", e.target.value)}
+            className={inputClass}
+          >
+            <option value="">Debit or credit</option>
+            <option value="debit">Debits only</option>
+            <option value="credit">Credits only</option>
+          </select>
+        </label>
+        <label>
+          <span className={labelClass}>Min amount</span>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={form.minAmount}
+            onChange={(e) => updateField("minAmount", e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label>
+          <span className={labelClass}>Max amount</span>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={form.maxAmount}
+            onChange={(e) => updateField("maxAmount", e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label>
+          <span className={labelClass}>Bank</span>
+          <select
+            value={form.bank}
+            onChange={(e) => updateField("bank", e.target.value)}
+            className={inputClass}
+          >
+            <option value="">Any bank</option>
+            {KNOWN_BANKS.map((bank) => (
+              <option key={bank} value={bank}>
+                {bank.toUpperCase()}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="md:col-span-2">
+          <span className={labelClass}>Category</span>
+          <input
+            value={form.category}
+            onChange={(e) => updateField("category", e.target.value)}
+            list="category-rule-categories"
+            placeholder="Salary"
+            className={inputClass}
+            required
+          />
+          <datalist id="category-rule-categories">
+            {CATEGORIES.map((category) => (
+              <option key={category} value={category} />
+            ))}
+          </datalist>
+        </label>
+        <label>
+          <span className={labelClass}>Merchant (optional)</span>
+          <input
+            value={form.merchant}
+            onChange={(e) => updateField("merchant", e.target.value)}
+            placeholder="Acme Corp"
+            className={inputClass}
+          />
+        </label>
+        <label>
+          <span className={labelClass}>Priority</span>
+          <input
+            type="number"
+            step="1"
+            value={form.priority}
+            onChange={(e) => updateField("priority", e.target.value)}
+            className={inputClass}
+          />
+        </label>
+
+        <div className="md:col-span-4 flex justify-end gap-2">
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="border-2 border-[#933333] px-4 h-10 font-bold transition hover:bg-[#933333]/10"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="border-2 border-[#933333] bg-[#933333] text-[#FFE2C7] px-4 h-10 font-bold transition hover:bg-[#7b2b2b] disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            {editingId ? "Update Rule" : "Add Rule"}
+          </button>
+        </div>
+      </form>
+
+      <div className="mt-6">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading rules...
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-[#933333]/70">
+            No rules yet. Built-in categories are used for every row.
+          </p>
+        ) : (
+          <table className="w-full border-2 border-[#933333] text-sm">
+            <thead className="bg-[#933333] text-[#FFE2C7]">
+              <tr>
+                <th className="px-3 py-2 text-left">When</th>
+                <th className="px-3 py-2 text-left">Category</th>
+                <th className="px-3 py-2 text-left">Merchant</th>
+                <th className="px-3 py-2 text-left">Priority</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => (
+                <tr
+                  key={rule.id}
+                  className={`border-t border-[#933333]/30 ${
+                    editingId === rule.id ? "bg-[#933333]/10" : ""
+                  }`}
+                >
+                  <td className="px-3 py-2 font-mono text-xs">
+                    {describeConditions(rule)}
+                  </td>
+                  <td className="px-3 py-2 font-bold">{rule.category}</td>
+                  <td className="px-3 py-2">{rule.merchant ?? "—"}</td>
+                  <td className="px-3 py-2">{rule.priority}</td>
+                  <td className="px-3 py-2">
+                    <div className="flex justify-end gap-3">
+                      <button
+                        onClick={() => {
+                          setEditingId(rule.id);
+                          setForm(toForm(rule));
+                        }}
+                        title="Edit rule"
+                        className="opacity-70 hover:opacity-100"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rule.id)}
+                        title="Delete rule"
+                        className="opacity-70 hover:opacity-100"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
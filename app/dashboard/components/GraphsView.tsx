@@ -149,7 +149,10 @@ export default function GraphsView({
       const response = await fetch("/api/query", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ question: q }),
+        body: JSON.stringify({
+          question: q,
+          customerId: customerId?.toString(),
+        }),
       });
 
       const data = await response.json();
@@ -3,10 +3,38 @@
 import { useState, useRef, useEffect, useCallback } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { QueryMessage, TableInfo, ChartConfig } from "../types";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  QueryMessage,
+  TableInfo,
+  Customer,
+  ChartConfig,
+  ConversationSummary,
+} from "../types";
+import {
+  deleteConversation,
+  listConversations,
+  loadConversation,
+  saveConversationTurn,
+} from "@/app/actions/conversation-actions";
+import {
+  applyQueryEvent,
+  readQueryStream,
+  type QueryStage,
+} from "@/lib/query-events";
 
 type InsightsViewProps = {
   uploadedTables: TableInfo[];
+  customerId: Customer["id"] | null;
+};
+
+const STAGE_LABELS: Record<QueryStage, string> = {
+  generating: "Writing SQL...",
+  executing: "Running query...",
+  retrying: "Fixing the query...",
+  answering: "Writing the answer...",
+  charting: "Building a chart...",
+  done: "Done",
 };
 
 const SUGGESTED_QUESTIONS = [
@@ -18,8 +46,16 @@ const SUGGESTED_QUESTIONS = [
   "Are there any null or missing values?",
 ];
 
-export default function InsightsView({ uploadedTables }: InsightsViewProps) {
+export default function InsightsView({
+  uploadedTables,
+  customerId,
+}: InsightsViewProps) {
   const [messages, setMessages] = useState<QueryMessage[]>([]);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [openingConversationId, setOpeningConversationId] = useState<
+    string | null
+  >(null);
   const [input, setInput] = useState("");
   const [isQuerying, setIsQuerying] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -43,6 +79,21 @@ export default function InsightsView({ uploadedTables }: InsightsViewProps) {
     }
   }, [input]);
 
+  // Saved chats for this customer. The dashboard remounts this view when
+  // the customer changes, so loading once is enough.
+  const refreshConversations = useCallback(async () => {
+    if (customerId === null) return;
+    try {
+      setConversations(await listConversations(customerId.toString()));
+    } catch (err) {
+      console.error("Failed to load conversations:", err);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    void refreshConversations();
+  }, [refreshConversations]);
+
   const generateId = () =>
     `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 
@@ -65,8 +116,19 @@ export default function InsightsView({ uploadedTables }: InsightsViewProps) {
       question: q,
       timestamp: new Date(),
       loading: true,
+      stage: "generating",
     };
 
+    // Completed answers become the history for follow-up questions
+    const history = messages
+      .filter((msg) => msg.type === "assistant" && !msg.loading && msg.sql)
+      .map((msg) => ({
+        question: msg.question,
+        sql: msg.sql,
+        explanation: msg.explanation,
+        columns: msg.columns,
+      }));
+
     setMessages((prev) => [...prev, userMsg, loadingMsg]);
     setIsQuerying(true);
 
@@ -74,12 +136,17 @@ export default function InsightsView({ uploadedTables }: InsightsViewProps) {
       const response = await fetch("/api/query", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ question: q }),
+        body: JSON.stringify({
+          question: q,
+          customerId: customerId?.toString(),
+          history,
+          stream: true,
+        }),
       });
 
-      const result = await response.json();
-
+      // Errors before the pipeline starts (auth, no data) come back as JSON
       if (!response.ok) {
+        const result = await response.json();
         setMessages((prev) =>
           prev.map((msg) =>
             msg.id === loadingMsg.id
@@ -97,24 +164,29 @@ export default function InsightsView({ uploadedTables }: InsightsViewProps) {
         return;
       }
 
-      setMessages((prev) =>
-        prev.map((msg) =>
-          msg.id === loadingMsg.id
-            ? {
-                ...msg,
-                type: "assistant" as const,
-                answer: result.answer,
-                sql: result.sql,
-                explanation: result.explanation,
-                columns: result.columns,
-                data: result.data,
-                rowCount: result.rowCount,
-                chartConfig: result.chartConfig as ChartConfig | null,
-                loading: false,
-              }
-            : msg,
-        ),
-      );
+      let reply = loadingMsg;
+      const showReply = (next: QueryMessage) => {
+        reply = next;
+        setMessages((prev) =>
+          prev.map((msg) => (msg.id === loadingMsg.id ? next : msg)),
+        );
+      };
+
+      await readQueryStream(response, (event) => {
+        showReply(applyQueryEvent(reply, event));
+      });
+
+      // A stream that stops without `done` or `error` was cut off
+      if (reply.loading) {
+        showReply({
+          ...reply,
+          type: "error",
+          error: "The response ended unexpectedly. Please try again.",
+          loading: false,
+        });
+      }
+
+      await saveTurn(reply);
     } catch (err) {
       setMessages((prev) =>
         prev.map((msg) =>
@@ -133,6 +205,83 @@ export default function InsightsView({ uploadedTables }: InsightsViewProps) {
     }
   };
 
+  // Persist a finished turn; saving is best-effort and never blocks the chat
+  const saveTurn = async (reply: QueryMessage) => {
+    if (customerId === null || !reply.question) return;
+    try {
+      const saved = await saveConversationTurn(
+        customerId.toString(),
+        conversationId,
+        {
+          question: reply.question,
+          sql: reply.sql,
+          explanation: reply.explanation,
+          answer: reply.answer,
+          columns: reply.columns,
+          chartConfig: reply.chartConfig,
+          rowCount: reply.rowCount,
+          error: reply.error,
+        },
+      );
+      setConversationId(saved.conversationId);
+      await refreshConversations();
+    } catch (err) {
+      console.error("Failed to save conversation:", err);
+    }
+  };
+
+  const openConversation = async (id: string) => {
+    if (isQuerying || id === conversationId) return;
+    setOpeningConversationId(id);
+    try {
+      const conversation = await loadConversation(id);
+      if (!conversation) return;
+
+      // Result rows are not stored, so reopened turns show the answer only
+      const restored: QueryMessage[] = conversation.messages.flatMap((m) => [
+        {
+          id: `user_${m.id}`,
+          type: "user" as const,
+          question: m.question,
+          timestamp: m.createdAt,
+        },
+        {
+          id: `reply_${m.id}`,
+          type: m.error ? ("error" as const) : ("assistant" as const),
+          question: m.question,
+          answer: m.answer ?? undefined,
+          sql: m.sql ?? undefined,
+          explanation: m.explanation ?? undefined,
+          columns: m.columns ?? undefined,
+          rowCount: m.rowCount ?? undefined,
+          chartConfig: m.chartConfig as ChartConfig | null,
+          error: m.error ?? undefined,
+          timestamp: m.createdAt,
+        },
+      ]);
+
+      setMessages(restored);
+      setConversationId(conversation.id);
+    } catch (err) {
+      console.error("Failed to open conversation:", err);
+    } finally {
+      setOpeningConversationId(null);
+    }
+  };
+
+  const removeConversation = async (id: string) => {
+    try {
+      await deleteConversation(id);
+      setConversations((prev) => prev.filter((c) => c.id !== id));
+      if (id === conversationId) {
+        setMessages([]);
+        setConversationId(null);
+      }
+    } catch (err) {
+      console.error("Failed to delete conversation:", err);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -142,6 +291,7 @@ export default function InsightsView({ uploadedTables }: InsightsViewProps) {
 
   const clearChat = () => {
     setMessages([]);
+    setConversationId(null);
   };
 
   // No data uploaded state
@@ -176,40 +326,72 @@ export default function InsightsView({ uploadedTables }: InsightsViewProps) {
   }
 
   return (
-    <div className="flex flex-col w-full h-full min-h-0">
-      {/* Header bar */}
-      <div className="flex items-center justify-between px-4 py-2 border-b-2 border-[#933333]/20 bg-[#933333]/5 flex-shrink-0">
-        <div className="flex items-center gap-2">
-          <svg
-            xmlns="http://www.w3.org/2000/svg"
-            className="h-4 w-4 text-[#933333]"
-            fill="none"
-            viewBox="0 0 24 24"
-            stroke="currentColor"
-            strokeWidth={2}
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              d="M13 10V3L4 14h7v7l9-11h-7z"
-            />
-          </svg>
-          <h2 className="text-sm font-bold text-[#933333]">
-            AI Data Assistant
-          </h2>
-          <span className="text-xs text-[#933333]/50 border border-[#933333]/20 px-2 py-0.5">
-            {uploadedTables.length} table
-            {uploadedTables.length !== 1 ? "s" : ""} loaded
-          </span>
-        </div>
-        {messages.length > 0 && (
-          <button
-            onClick={clearChat}
-            className="flex items-center gap-1 text-xs text-[#933333]/60 hover:text-[#933333] transition font-bold px-2 py-1 border border-[#933333]/20 hover:bg-[#933333]/5"
-          >
+    <div className="flex w-full h-full min-h-0">
+      {/* Saved conversations */}
+      {customerId !== null && (
+        <aside className="hidden md:flex w-56 shrink-0 flex-col min-h-0 border-r-2 border-[#933333]/20 bg-[#933333]/5">
+          <div className="flex items-center justify-between px-3 py-2 border-b-2 border-[#933333]/20">
+            <span className="text-xs font-bold uppercase tracking-wider text-[#933333]/60">
+              Conversations
+            </span>
+            <button
+              onClick={clearChat}
+              disabled={isQuerying}
+              title="New conversation"
+              className="text-[#933333]/60 hover:text-[#933333] transition disabled:opacity-40"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex-1 min-h-0 overflow-y-auto">
+            {conversations.length === 0 ? (
+              <p className="px-3 py-4 text-xs text-[#933333]/40">
+                Your questions are saved here.
+              </p>
+            ) : (
+              conversations.map((c) => (
+                <div
+                  key={c.id}
+                  className={`group flex items-center gap-1 border-b border-[#933333]/10 ${
+                    c.id === conversationId
+                      ? "bg-[#933333] text-[#FFE2C7]"
+                      : "text-[#933333] hover:bg-[#933333]/10"
+                  }`}
+                >
+                  <button
+                    onClick={() => openConversation(c.id)}
+                    disabled={isQuerying}
+                    className="flex-1 min-w-0 px-3 py-2 text-left disabled:cursor-not-allowed"
+                  >
+                    <p className="truncate text-xs font-bold">
+                      {openingConversationId === c.id ? "Opening..." : c.title}
+                    </p>
+                    <p className="text-[10px] opacity-60">
+                      {new Date(c.updatedAt).toLocaleString()}
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => removeConversation(c.id)}
+                    disabled={isQuerying}
+                    title="Delete conversation"
+                    className="mr-2 opacity-0 group-hover:opacity-70 hover:!opacity-100 transition disabled:hidden"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </aside>
+      )}
+
+      <div className="flex flex-col flex-1 min-w-0 h-full min-h-0">
+        {/* Header bar */}
+        <div className="flex items-center justify-between px-4 py-2 border-b-2 border-[#933333]/20 bg-[#933333]/5 flex-shrink-0">
+          <div className="flex items-center gap-2">
             <svg
               xmlns="http://www.w3.org/2000/svg"
-              className="h-3 w-3"
+              className="h-4 w-4 text-[#933333]"
               fill="none"
               viewBox="0 0 24 24"
               stroke="currentColor"
@@ -218,119 +400,147 @@ export default function InsightsView({ uploadedTables }: InsightsViewProps) {
               <path
                 strokeLinecap="round"
                 strokeLinejoin="round"
-                d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                d="M13 10V3L4 14h7v7l9-11h-7z"
               />
             </svg>
-            Clear
-          </button>
-        )}
-      </div>
-
-      {/* Messages area */}
-      <div className="flex-1 min-h-0 overflow-y-auto px-4 py-4">
-        {messages.length === 0 ? (
-          <div className="flex flex-col items-center justify-center h-full gap-6">
-            <div className="text-center">
+            <h2 className="text-sm font-bold text-[#933333]">
+              AI Data Assistant
+            </h2>
+            <span className="text-xs text-[#933333]/50 border border-[#933333]/20 px-2 py-0.5">
+              {uploadedTables.length} table
+              {uploadedTables.length !== 1 ? "s" : ""} loaded
+            </span>
+          </div>
+          {messages.length > 0 && (
+            <button
+              onClick={clearChat}
+              className="flex items-center gap-1 text-xs text-[#933333]/60 hover:text-[#933333] transition font-bold px-2 py-1 border border-[#933333]/20 hover:bg-[#933333]/5"
+            >
               <svg
                 xmlns="http://www.w3.org/2000/svg"
-                className="h-10 w-10 text-[#933333]/30 mx-auto mb-3"
+                className="h-3 w-3"
                 fill="none"
                 viewBox="0 0 24 24"
                 stroke="currentColor"
-                strokeWidth={1.5}
+                strokeWidth={2}
               >
                 <path
                   strokeLinecap="round"
                   strokeLinejoin="round"
-                  d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"
+                  d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
                 />
               </svg>
-              <p className="text-sm text-[#933333]/70 font-medium">
-                Ask anything about your data — I&apos;ll write SQL, run it, and
-                answer in plain language.
-              </p>
-            </div>
+              New Chat
+            </button>
+          )}
+        </div>
 
-            {/* Suggested questions */}
-            <div className="space-y-2 w-full max-w-lg">
-              <p className="text-center text-xs font-bold uppercase tracking-wider text-[#933333]/40">
-                Try asking
-              </p>
-              <div className="flex flex-wrap justify-center gap-2">
-                {SUGGESTED_QUESTIONS.map((q, i) => (
-                  <button
-                    key={i}
-                    onClick={() => handleSubmit(q)}
-                    className="border border-[#933333]/30 px-3 py-1.5 text-xs text-[#933333]/70 transition-all hover:border-[#933333] hover:bg-[#933333]/10 hover:text-[#933333]"
-                  >
-                    {q}
-                  </button>
-                ))}
+        {/* Messages area */}
+        <div className="flex-1 min-h-0 overflow-y-auto px-4 py-4">
+          {messages.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-full gap-6">
+              <div className="text-center">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-10 w-10 text-[#933333]/30 mx-auto mb-3"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                  strokeWidth={1.5}
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"
+                  />
+                </svg>
+                <p className="text-sm text-[#933333]/70 font-medium">
+                  Ask anything about your data — I&apos;ll write SQL, run it,
+                  and answer in plain language.
+                </p>
               </div>
-            </div>
-          </div>
-        ) : (
-          <div className="space-y-5">
-            {messages.map((msg) => (
-              <MessageBubble
-                key={msg.id}
-                message={msg}
-                onRetry={handleSubmit}
-              />
-            ))}
-          </div>
-        )}
-        <div ref={messagesEndRef} />
-      </div>
 
-      {/* Input area */}
-      <div className="flex-shrink-0 border-t-2 border-[#933333]/20 px-4 py-3">
-        <div className="flex items-end gap-2">
-          <textarea
-            ref={inputRef}
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder="Ask a question about your data..."
-            rows={1}
-            disabled={isQuerying}
-            className="flex-1 border-2 border-[#933333] bg-transparent text-[#933333] placeholder-[#933333]/40 px-3 py-2 text-sm outline-none resize-none focus:bg-[#933333]/5 transition disabled:opacity-50 disabled:cursor-not-allowed"
-          />
-          <button
-            onClick={() => handleSubmit()}
-            disabled={!input.trim() || isQuerying}
-            className="border-2 border-[#933333] bg-[#933333] text-[#FFE2C7] px-5 h-10 font-bold transition hover:bg-[#7b2b2b] disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center gap-2 flex-shrink-0"
-          >
-            {isQuerying ? (
-              <svg
-                className="animate-spin h-4 w-4"
-                xmlns="http://www.w3.org/2000/svg"
-                fill="none"
-                viewBox="0 0 24 24"
-              >
-                <circle
-                  className="opacity-25"
-                  cx="12"
-                  cy="12"
-                  r="10"
-                  stroke="currentColor"
-                  strokeWidth="4"
-                />
-                <path
-                  className="opacity-75"
-                  fill="currentColor"
-                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+              {/* Suggested questions */}
+              <div className="space-y-2 w-full max-w-lg">
+                <p className="text-center text-xs font-bold uppercase tracking-wider text-[#933333]/40">
+                  Try asking
+                </p>
+                <div className="flex flex-wrap justify-center gap-2">
+                  {SUGGESTED_QUESTIONS.map((q, i) => (
+                    <button
+                      key={i}
+                      onClick={() => handleSubmit(q)}
+                      className="border border-[#933333]/30 px-3 py-1.5 text-xs text-[#933333]/70 transition-all hover:border-[#933333] hover:bg-[#933333]/10 hover:text-[#933333]"
+                    >
+                      {q}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-5">
+              {messages.map((msg) => (
+                <MessageBubble
+                  key={msg.id}
+                  message={msg}
+                  onRetry={handleSubmit}
                 />
-              </svg>
-            ) : (
-              "Send"
-            )}
-          </button>
+              ))}
+            </div>
+          )}
+          <div ref={messagesEndRef} />
+        </div>
+
+        {/* Input area */}
+        <div className="flex-shrink-0 border-t-2 border-[#933333]/20 px-4 py-3">
+          <div className="flex items-end gap-2">
+            <textarea
+              ref={inputRef}
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Ask a question about your data..."
+              rows={1}
+              disabled={isQuerying}
+              className="flex-1 border-2 border-[#933333] bg-transparent text-[#933333] placeholder-[#933333]/40 px-3 py-2 text-sm outline-none resize-none focus:bg-[#933333]/5 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            />
+            <button
+              onClick={() => handleSubmit()}
+              disabled={!input.trim() || isQuerying}
+              className="border-2 border-[#933333] bg-[#933333] text-[#FFE2C7] px-5 h-10 font-bold transition hover:bg-[#7b2b2b] disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center gap-2 flex-shrink-0"
+            >
+              {isQuerying ? (
+                <svg
+                  className="animate-spin h-4 w-4"
+                  xmlns="http://www.w3.org/2000/svg"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                >
+                  <circle
+                    className="opacity-25"
+                    cx="12"
+                    cy="12"
+                    r="10"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                  />
+                  <path
+                    className="opacity-75"
+                    fill="currentColor"
+                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                  />
+                </svg>
+              ) : (
+                "Send"
+              )}
+            </button>
+          </div>
+          <p className="mt-1 text-center text-[10px] text-[#933333]/40">
+            AI analyzes your data and responds in plain language. Always verify
+            results for accuracy.
+          </p>
         </div>
-        <p className="mt-1 text-center text-[10px] text-[#933333]/40">
-          AI analyzes your data and responds in plain language. Always verify
-          results for accuracy.
-        </p>
       </div>
     </div>
   );
@@ -356,8 +566,8 @@ function MessageBubble({
     );
   }
 
-  // Loading state
-  if (message.loading) {
+  // Loading state (until the answer starts streaming in)
+  if (message.loading && !message.answer) {
     return (
       <div className="flex justify-start">
         <div className="max-w-[85%] border-2 border-[#933333]/30 bg-[#933333]/5 px-4 py-3">
@@ -383,9 +593,21 @@ function MessageBubble({
               />
             </svg>
             <span className="text-sm text-[#933333]/70 font-medium">
-              Analyzing your data...
+              {message.stage
+                ? STAGE_LABELS[message.stage]
+                : "Analyzing your data..."}
             </span>
           </div>
+          {message.sql && (
+            <pre className="mb-2 overflow-x-auto bg-[#3a1111] p-2 text-xs text-[#FFE2C7] whitespace-pre-wrap">
+              {message.sql}
+            </pre>
+          )}
+          {message.retries?.map((retry) => (
+            <p key={retry.attempt} className="mb-2 text-xs text-[#933333]/60">
+              Attempt {retry.attempt} failed: {retry.error}
+            </p>
+          ))}
           <div className="space-y-2">
             <div className="h-2 w-3/4 animate-pulse bg-[#933333]/10" />
             <div className="h-2 w-1/2 animate-pulse bg-[#933333]/10" />
@@ -510,6 +732,11 @@ function MessageBubble({
             {message.answer}
           </ReactMarkdown>
         )}
+        {message.loading && message.stage && (
+          <p className="text-xs text-[#933333]/50 animate-pulse">
+            {STAGE_LABELS[message.stage]}
+          </p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,96 @@
+"use client";
+
+import type { MappingReport } from "@/lib/statement-schema";
+
+type MappingReportPanelProps = {
+  report: MappingReport;
+};
+
+const METHOD_STYLES: Record<string, string> = {
+  mapped: "bg-green-200 text-green-800",
+  derived: "bg-blue-200 text-blue-800",
+  constant: "bg-gray-200 text-gray-800",
+  missing: "bg-red-200 text-red-800",
+};
+
+/**
+ * How an uploaded statement's columns were mapped onto the canonical
+ * schema, so the user can check the mapping before querying the table.
+ */
+export default function MappingReportPanel({
+  report,
+}: MappingReportPanelProps) {
+  if (!report.recognized) {
+    return (
+      <div className="text-xs space-y-1">
+        <p className="font-bold">
+          Not recognised as a bank statement — loaded as uploaded.
+        </p>
+        {report.warnings.map((warning) => (
+          <p key={warning} className="text-[#933333]/70">
+            {warning}
+          </p>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-xs space-y-2">
+      <p className="text-[#933333]/70">
+        {report.rowCount.toLocaleString()} rows normalized
+        {report.dateFormat ? `, dates read as ${report.dateFormat}` : ""}. The
+        file as uploaded is kept as a separate &quot;(raw)&quot; table.
+      </p>
+      <table className="w-full border border-[#933333]/30">
+        <thead className="bg-[#933333]/10">
+          <tr>
+            <th className="px-2 py-1 text-left">Column</th>
+            <th className="px-2 py-1 text-left">From</th>
+            <th className="px-2 py-1 text-left">How</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.mappings.map((mapping) => (
+            <tr
+              key={mapping.canonical}
+              className="border-t border-[#933333]/20"
+            >
+              <td className="px-2 py-1 font-mono font-bold">
+                {mapping.canonical}
+              </td>
+              <td className="px-2 py-1 font-mono">
+                {mapping.sources.length > 0 ? mapping.sources.join(", ") : "—"}
+              </td>
+              <td className="px-2 py-1">
+                <span
+                  className={`px-1.5 py-0.5 font-bold uppercase ${
+                    METHOD_STYLES[mapping.method] ?? ""
+                  }`}
+                >
+                  {mapping.method}
+                </span>
+                {mapping.note && (
+                  <span className="ml-2 text-[#933333]/70">{mapping.note}</span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {report.unmapped.length > 0 && (
+        <p>
+          <span className="font-bold">Not used: </span>
+          <span className="font-mono">{report.unmapped.join(", ")}</span>
+        </p>
+      )}
+      {report.warnings.length > 0 && (
+        <ul className="list-disc pl-4 text-[#933333]/80">
+          {report.warnings.map((warning) => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
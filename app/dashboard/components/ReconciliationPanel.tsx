@@ -0,0 +1,88 @@
+"use client";
+
+import type {
+  ReconciliationReport,
+  ReconciliationStatus,
+} from "@/lib/reconciliation";
+
+type ReconciliationPanelProps = {
+  report: ReconciliationReport;
+};
+
+export const RECONCILIATION_STYLES: Record<ReconciliationStatus, string> = {
+  green: "bg-green-200 text-green-800",
+  amber: "bg-amber-200 text-amber-800",
+  red: "bg-red-200 text-red-800",
+};
+
+const CHECK_STYLES: Record<string, string> = {
+  pass: "bg-green-200 text-green-800",
+  warn: "bg-amber-200 text-amber-800",
+  fail: "bg-red-200 text-red-800",
+  skipped: "bg-gray-200 text-gray-800",
+};
+
+const formatAmount = (value: number | null) =>
+  value === null
+    ? "—"
+    : value.toLocaleString(undefined, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      });
+
+/**
+ * Evidence that a converted PDF's CSV is complete: rows against the PDF's
+ * pages, and totals and balances against the figures printed on it.
+ */
+export default function ReconciliationPanel({
+  report,
+}: ReconciliationPanelProps) {
+  return (
+    <div className="text-xs space-y-2">
+      <p className="text-[#933333]/70">
+        {report.csvRowCount.toLocaleString()} CSV rows,{" "}
+        {report.pdfTransactionLines.toLocaleString()} transaction lines across{" "}
+        {report.pageCount} page(s). Debits{" "}
+        {formatAmount(report.totals.csvDebits)} (statement{" "}
+        {formatAmount(report.totals.statementDebits)}), credits{" "}
+        {formatAmount(report.totals.csvCredits)} (statement{" "}
+        {formatAmount(report.totals.statementCredits)}).
+      </p>
+      <table className="w-full border border-[#933333]/30">
+        <thead className="bg-[#933333]/10">
+          <tr>
+            <th className="px-2 py-1 text-left">Check</th>
+            <th className="px-2 py-1 text-left">Result</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.checks.map((check) => (
+            <tr key={check.name} className="border-t border-[#933333]/20">
+              <td className="px-2 py-1 font-bold whitespace-nowrap">
+                {check.name}
+              </td>
+              <td className="px-2 py-1">
+                <span
+                  className={`px-1.5 py-0.5 font-bold uppercase ${
+                    CHECK_STYLES[check.status] ?? ""
+                  }`}
+                >
+                  {check.status}
+                </span>
+                <span className="ml-2 text-[#933333]/70">{check.detail}</span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {report.pagesWithoutRows.length > 0 && (
+        <p>
+          <span className="font-bold">Pages without rows: </span>
+          <span className="font-mono">
+            {report.pagesWithoutRows.join(", ")}
+          </span>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { ReviewItem, UploadedFile } from "../types";
+import {
+  approveConversion,
+  getReviewItem,
+  rejectConversion,
+} from "@/app/actions/review-actions";
+import ReconciliationPanel from "./ReconciliationPanel";
+
+type ReviewViewProps = {
+  uploadedFiles: UploadedFile[];
+  onReviewed: () => void;
+};
+
+const LEVEL_STYLES: Record<string, string> = {
+  high: "bg-green-200 text-green-800",
+  medium: "bg-amber-200 text-amber-800",
+  low: "bg-red-200 text-red-800",
+};
+
+/**
+ * The review queue: converted PDFs whose confidence score was too low to
+ * load automatically. The PDF's page text sits next to the parsed rows so
+ * the user can check the numbers before approving them into the analytics
+ * DB.
+ */
+export default function ReviewView({
+  uploadedFiles,
+  onReviewed,
+}: ReviewViewProps) {
+  const queue = uploadedFiles.filter((f) => f.status === "needs_review");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [item, setItem] = useState<ReviewItem | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [decision, setDecision] = useState<"approve" | "reject" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const activeId =
+    selectedId !== null && queue.some((f) => f.id === selectedId)
+      ? selectedId
+      : (queue[0]?.id ?? null);
+
+  useEffect(() => {
+    if (activeId === null) {
+      setItem(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    getReviewItem(activeId)
+      .then((loaded) => {
+        if (!cancelled) setItem(loaded as ReviewItem);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setItem(null);
+        setError(
+          err instanceof Error ? err.message : "Failed to load the file.",
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeId]);
+
+  const handleDecision = async (kind: "approve" | "reject") => {
+    if (activeId === null) return;
+    setError(null);
+    setMessage(null);
+    setDecision(kind);
+    try {
+      if (kind === "approve") {
+        await approveConversion(activeId);
+        setMessage(`${item?.fileName ?? "File"} approved and loaded.`);
+      } else {
+        await rejectConversion(activeId);
+        setMessage(
+          `${item?.fileName ?? "File"} rejected; its rows were not loaded.`,
+        );
+      }
+      setSelectedId(null);
+      onReviewed();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save review.");
+    } finally {
+      setDecision(null);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-hidden p-6 flex flex-col gap-4">
+      <div>
+        <h2 className="text-2xl font-bold">Review Conversions</h2>
+        <p className="mt-1 text-sm text-[#933333]/80">
+          These statements were converted with low confidence and are not in the
+          analytics data yet. Check the rows against the PDF, then approve or
+          reject.
+        </p>
+      </div>
+
+      {error && (
+        <div className="border-2 border-red-700 bg-red-100/60 p-3 text-sm text-red-800">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="border-2 border-[#933333] bg-[#933333]/5 p-3 text-sm">
+          {message}
+        </div>
+      )}
+
+      {queue.length === 0 ? (
+        <p className="text-sm text-[#933333]/70">
+          Nothing to review for this customer.
+        </p>
+      ) : (
+        <div className="flex-1 min-h-0 flex flex-col gap-4 md:flex-row">
+          {/* Queue */}
+          <div className="md:w-56 shrink-0 overflow-y-auto space-y-2">
+            {queue.map((file) => (
+              <button
+                key={file.id}
+                onClick={() => setSelectedId(file.id)}
+                className={`w-full text-left border-2 border-[#933333] p-2 text-sm transition ${
+                  file.id === activeId
+                    ? "bg-[#933333] text-[#FFE2C7]"
+                    : "hover:bg-[#933333]/10"
+                }`}
+              >
+                <div className="font-bold break-all">{file.fileName}</div>
+                <div className="text-xs opacity-80">
+                  Confidence {file.confidenceScore ?? "—"}/100
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {/* Selected file */}
+          <div className="flex-1 min-h-0 flex flex-col gap-3">
+            {isLoading || !item ? (
+              <div className="flex items-center gap-2 text-sm">
+                {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+                {isLoading ? "Loading file..." : "Select a file to review."}
+              </div>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="text-sm space-y-1">
+                    <div className="font-bold">{item.fileName}</div>
+                    {item.confidence ? (
+                      <>
+                        <span
+                          className={`text-xs px-2 py-0.5 font-bold uppercase ${
+                            LEVEL_STYLES[item.confidence.level] ?? ""
+                          }`}
+                        >
+                          {item.confidence.score}/100 {item.confidence.level}
+                        </span>
+                        <ul className="text-xs text-[#933333]/80">
+                          {item.confidence.factors.map((factor) => (
+                            <li key={factor.name}>
+                              <span className="font-bold">
+                                {`${factor.name} ${factor.points}/${factor.maxPoints}:`}
+                              </span>{" "}
+                              {factor.detail}
+                            </li>
+                          ))}
+                        </ul>
+                      </>
+                    ) : (
+                      <p className="text-xs text-[#933333]/80">
+                        No confidence score was reported for this file.
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleDecision("reject")}
+                      disabled={decision !== null}
+                      className="border-2 border-[#933333] px-4 h-10 font-bold transition hover:bg-[#933333]/10 disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-2"
+                    >
+                      {decision === "reject" && (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      )}
+                      Reject
+                    </button>
+                    <button
+                      onClick={() => handleDecision("approve")}
+                      disabled={decision !== null}
+                      className="border-2 border-[#933333] bg-[#933333] text-[#FFE2C7] px-4 h-10 font-bold transition hover:bg-[#7b2b2b] disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-2"
+                    >
+                      {decision === "approve" && (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      )}
+                      Approve &amp; Load
+                    </button>
+                  </div>
+                </div>
+
+                {item.reconciliation && (
+                  <ReconciliationPanel report={item.reconciliation} />
+                )}
+
+                <div className="flex-1 min-h-0 grid grid-cols-1 gap-3 md:grid-cols-2">
+                  <div className="min-h-0 overflow-y-auto border-2 border-[#933333]">
+                    <div className="sticky top-0 bg-[#933333] text-[#FFE2C7] px-3 py-1 text-xs font-bold">
+                      PDF pages
+                    </div>
+                    {item.pages.length === 0 ? (
+                      <p className="p-3 text-xs text-[#933333]/70">
+                        Page text is not available for this file.
+                      </p>
+                    ) : (
+                      item.pages.map((page) => (
+                        <div
+                          key={page.page}
+                          className="border-t border-[#933333]/30 p-3"
+                        >
+                          <div className="text-xs font-bold mb-1">
+                            Page {page.page}
+                          </div>
+                          <pre className="text-xs whitespace-pre-wrap font-mono">
+                            {page.text}
+                          </pre>
+                        </div>
+                      ))
+                    )}
+                  </div>
+
+                  <div className="min-h-0 overflow-auto border-2 border-[#933333]">
+                    <table className="w-full text-xs">
+                      <thead className="sticky top-0 bg-[#933333] text-[#FFE2C7]">
+                        <tr>
+                          {item.headers.map((header) => (
+                            <th
+                              key={header}
+                              className="px-2 py-1 text-left whitespace-nowrap"
+                            >
+                              {header}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {item.rows.map((row, i) => (
+                          <tr key={i} className="border-t border-[#933333]/20">
+                            {row.map((cell, j) => (
+                              <td key={j} className="px-2 py-1 font-mono">
+                                {cell}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {item.totalRows > item.rows.length && (
+                      <p className="p-2 text-xs text-[#933333]/70">
+                        Showing {item.rows.length.toLocaleString()} of{" "}
+                        {item.totalRows.toLocaleString()} rows.
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
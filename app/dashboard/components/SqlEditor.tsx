@@ -0,0 +1,196 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { TableInfo } from "../types";
+
+type SqlEditorProps = {
+  value: string;
+  onChange: (value: string) => void;
+  onRun: () => void;
+  tables: TableInfo[];
+  disabled?: boolean;
+};
+
+type Suggestion = {
+  label: string;
+  detail: string;
+};
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Work out what to complete at the caret: a `table.` prefix narrows the
+ * suggestions to that table's columns, otherwise tables and all columns.
+ */
+function getCompletions(
+  text: string,
+  caret: number,
+  tables: TableInfo[],
+): { prefix: string; suggestions: Suggestion[] } {
+  const before = text.slice(0, caret);
+  const match =
+    /(?:([A-Za-z_][A-Za-z0-9_]*)\.)?([A-Za-z_][A-Za-z0-9_]*)?$/.exec(before);
+  const qualifier = match?.[1];
+  const prefix = match?.[2] ?? "";
+
+  // Only complete after the user started typing a name or a `table.`
+  if (!prefix && !qualifier) {
+    return { prefix, suggestions: [] };
+  }
+
+  const candidates: Suggestion[] = [];
+  if (qualifier) {
+    const table = tables.find(
+      (t) => t.tableName.toLowerCase() === qualifier.toLowerCase(),
+    );
+    table?.columns.forEach((col) =>
+      candidates.push({ label: col.name, detail: col.type }),
+    );
+  } else {
+    const seen = new Set<string>();
+    tables.forEach((t) => {
+      candidates.push({ label: t.tableName, detail: "table" });
+    });
+    tables.forEach((t) =>
+      t.columns.forEach((col) => {
+        if (!seen.has(col.name)) {
+          seen.add(col.name);
+          candidates.push({ label: col.name, detail: t.tableName });
+        }
+      }),
+    );
+  }
+
+  const lower = prefix.toLowerCase();
+  const suggestions = candidates
+    .filter(
+      (c) =>
+        c.label.toLowerCase().startsWith(lower) &&
+        c.label.toLowerCase() !== lower,
+    )
+    .slice(0, MAX_SUGGESTIONS);
+
+  return { prefix, suggestions };
+}
+
+export default function SqlEditor({
+  value,
+  onChange,
+  onRun,
+  tables,
+  disabled = false,
+}: SqlEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const { prefix, suggestions } = useMemo(
+    () => getCompletions(value, caret, tables),
+    [value, caret, tables],
+  );
+  const open = !dismissed && suggestions.length > 0;
+
+  const syncCaret = () => {
+    const el = textareaRef.current;
+    if (el) setCaret(el.selectionStart);
+  };
+
+  const accept = (suggestion: Suggestion) => {
+    const start = caret - prefix.length;
+    const next = value.slice(0, start) + suggestion.label + value.slice(caret);
+    const nextCaret = start + suggestion.label.length;
+    onChange(next);
+    setCaret(nextCaret);
+    setActiveIndex(0);
+
+    // Restore the caret after React re-renders the new value
+    requestAnimationFrame(() => {
+      const el = textareaRef.current;
+      if (el) {
+        el.focus();
+        el.setSelectionRange(nextCaret, nextCaret);
+      }
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      onRun();
+      return;
+    }
+
+    if (!open) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((i) => (i + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((i) => (i - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === "Tab" || e.key === "Enter") {
+      e.preventDefault();
+      accept(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      e.stopPropagation();
+      setDismissed(true);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart);
+          setActiveIndex(0);
+          setDismissed(false);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={(e) => {
+          if (e.key === "ArrowLeft" || e.key === "ArrowRight") syncCaret();
+        }}
+        onClick={syncCaret}
+        onBlur={() => setDismissed(true)}
+        spellCheck={false}
+        rows={5}
+        placeholder={
+          tables[0]
+            ? `SELECT * FROM ${tables[0].tableName} LIMIT 10`
+            : "SELECT ..."
+        }
+        className="w-full resize-y border-2 border-[#933333] bg-[#3a1111] text-[#FFE2C7] placeholder-[#FFE2C7]/30 px-3 py-2 font-mono text-xs outline-none disabled:opacity-60"
+      />
+
+      {open && (
+        <ul className="absolute left-0 right-0 top-full z-10 mt-1 max-h-56 overflow-y-auto border-2 border-[#933333] bg-[#FFE2C7] shadow-lg">
+          {suggestions.map((s, i) => (
+            <li key={`${s.label}-${s.detail}`}>
+              <button
+                type="button"
+                // Keep focus in the textarea so the caret is not lost
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  accept(s);
+                }}
+                className={`flex w-full items-center justify-between px-3 py-1 text-left font-mono text-xs ${
+                  i === activeIndex
+                    ? "bg-[#933333] text-[#FFE2C7]"
+                    : "text-[#933333] hover:bg-[#933333]/10"
+                }`}
+              >
+                <span>{s.label}</span>
+                <span className="opacity-60">{s.detail}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,15 @@
 import { DragEvent, useRef, useState, useEffect } from "react";
 import { UploadedFile, TableInfo, Customer } from "../types";
 import { Loader2 } from "lucide-react";
+import {
+  getProcessingProgress,
+  reprocessUploadedFile,
+  type ProcessingProgress,
+} from "@/app/actions/user-actions";
+import MappingReportPanel from "./MappingReportPanel";
+import ReconciliationPanel, {
+  RECONCILIATION_STYLES,
+} from "./ReconciliationPanel";
 
 type UploadViewProps = {
   uploadedTables: TableInfo[];
@@ -13,6 +22,35 @@ type UploadViewProps = {
   isLoading?: boolean;
 };
 
+function formatElapsed(since: string): string {
+  const seconds = Math.max(
+    0,
+    Math.round((Date.now() - new Date(since).getTime()) / 1000),
+  );
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/** One line on where a processing PDF is, e.g. "Verifying · 6 steps · 1m 4s". */
+function describeProgress(job: ProcessingProgress): string {
+  const progress = job.progress;
+  if (job.status === "queued") {
+    return job.attempts > 0
+      ? `Retrying (attempt ${job.attempts + 1} of ${job.maxAttempts})`
+      : "Queued";
+  }
+  if (!progress) return "Starting";
+
+  const parts = [progress.label];
+  if (progress.fastPath) parts.push("known layout");
+  if (progress.steps > 0) {
+    parts.push(`${progress.steps} step${progress.steps === 1 ? "" : "s"}`);
+  }
+  if (job.attempts > 1) parts.push(`attempt ${job.attempts}`);
+  parts.push(formatElapsed(progress.startedAt));
+  return parts.join(" · ");
+}
+
 export default function UploadView({
   uploadedTables,
   onUploadSuccess,
@@ -31,13 +69,71 @@ export default function UploadView({
       return () => clearInterval(interval);
     }
   }, [uploadedFiles, onRefreshFiles]);
+
+  // Live progress of the processing PDFs, polled from the processor's jobs
+  const [progressByFile, setProgressByFile] = useState<
+    Record<number, ProcessingProgress>
+  >({});
+  useEffect(() => {
+    const hasProcessing = uploadedFiles.some(
+      (f) => f.status === "processing" && f.processorJobId,
+    );
+    if (!hasProcessing || customerId == null) return;
+
+    let cancelled = false;
+    const poll = () => {
+      getProcessingProgress(String(customerId))
+        .then((progress) => {
+          if (!cancelled) setProgressByFile(progress);
+        })
+        .catch((err) => console.error("Failed to poll PDF progress:", err));
+    };
+    poll();
+    const interval = setInterval(poll, 3000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [uploadedFiles, customerId]);
   const [isDragging, setIsDragging] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [openPanel, setOpenPanel] = useState<{
+    id: number;
+    kind: "mapping" | "reconciliation";
+  } | null>(null);
+  const [retryingId, setRetryingId] = useState<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const isPanelOpen = (id: number, kind: "mapping" | "reconciliation") =>
+    openPanel?.id === id && openPanel.kind === kind;
+
+  const togglePanel = (id: number, kind: "mapping" | "reconciliation") =>
+    setOpenPanel(isPanelOpen(id, kind) ? null : { id, kind });
+
+  const canRetry = (file: UploadedFile) =>
+    file.fileType === "pdf" &&
+    (file.status === "failed" || file.status === "rejected");
+
+  // Queue a failed or rejected PDF again; `freshScript` has the processor
+  // write a new parser script instead of reusing the registered one
+  const handleRetry = async (file: UploadedFile, freshScript: boolean) => {
+    setRetryingId(file.id);
+    setError(null);
+    setSuccessMessage(null);
+    try {
+      await reprocessUploadedFile(file.id, { freshScript });
+      setSuccessMessage(`Reprocessing ${file.fileName}...`);
+      onRefreshFiles(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to retry file.");
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
   const handleDrop = (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(false);
@@ -399,32 +495,111 @@ export default function UploadView({
               {uploadedFiles.map((file) => (
                 <div
                   key={file.id}
-                  className="border border-[#933333]/40 bg-[#933333]/5 p-3 flex justify-between items-center"
+                  className="border border-[#933333]/40 bg-[#933333]/5"
                 >
-                  <div>
-                    <div className="font-bold text-sm">{file.fileName}</div>
-                    <div className="text-xs text-[#933333]/60">
-                      {new Date(file.createdAt).toLocaleString()}
+                  <div className="p-3 flex justify-between items-center">
+                    <div>
+                      <div className="font-bold text-sm">{file.fileName}</div>
+                      <div className="text-xs text-[#933333]/60">
+                        {new Date(file.createdAt).toLocaleString()}
+                      </div>
+                      {file.status === "processing" &&
+                        progressByFile[file.id] && (
+                          <div
+                            title={
+                              progressByFile[file.id].lastError ?? undefined
+                            }
+                            className="text-xs text-blue-800 mt-0.5 flex items-center gap-1"
+                          >
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                            {describeProgress(progressByFile[file.id])}
+                          </div>
+                        )}
+                      {file.status === "failed" && file.failureReason && (
+                        <div className="text-xs text-red-800 mt-0.5">
+                          {file.failureReason}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span
+                        className={`text-xs px-2 py-0.5 font-bold uppercase ${
+                          file.status === "completed"
+                            ? "bg-green-200 text-green-800"
+                            : file.status === "processing"
+                              ? "bg-blue-200 text-blue-800"
+                              : file.status === "needs_review"
+                                ? "bg-amber-200 text-amber-800"
+                                : file.status === "failed" ||
+                                    file.status === "rejected"
+                                  ? "bg-red-200 text-red-800"
+                                  : "bg-gray-200 text-gray-800"
+                        }`}
+                      >
+                        {file.status.replace("_", " ")}
+                      </span>
+                      {file.confidenceScore != null && (
+                        <span
+                          title="Conversion confidence"
+                          className="text-xs font-mono"
+                        >
+                          {file.confidenceScore}/100
+                        </span>
+                      )}
+                      <span className="text-xs font-mono uppercase bg-[#FFE2C7] px-1.5 py-0.5 border border-[#933333]/20">
+                        {file.fileType}
+                      </span>
+                      {file.reconciliation && (
+                        <button
+                          onClick={() => togglePanel(file.id, "reconciliation")}
+                          title="Reconciliation report"
+                          className={`text-xs px-2 py-0.5 font-bold uppercase ${
+                            RECONCILIATION_STYLES[file.reconciliation.status]
+                          }`}
+                        >
+                          {file.reconciliation.status}
+                        </button>
+                      )}
+                      {file.columnMapping && (
+                        <button
+                          onClick={() => togglePanel(file.id, "mapping")}
+                          className="text-xs border border-[#933333]/50 px-2 py-0.5 text-[#933333] hover:bg-[#933333]/10 transition font-bold"
+                        >
+                          {isPanelOpen(file.id, "mapping") ? "Hide" : "Mapping"}
+                        </button>
+                      )}
+                      {canRetry(file) && (
+                        <>
+                          <button
+                            onClick={() => handleRetry(file, false)}
+                            disabled={retryingId === file.id}
+                            className="text-xs border border-[#933333]/50 px-2 py-0.5 text-[#933333] hover:bg-[#933333]/10 transition font-bold disabled:opacity-50"
+                          >
+                            {retryingId === file.id ? "Retrying..." : "Retry"}
+                          </button>
+                          <button
+                            onClick={() => handleRetry(file, true)}
+                            disabled={retryingId === file.id}
+                            title="Retry with a newly generated parser script"
+                            className="text-xs border border-[#933333]/50 px-2 py-0.5 text-[#933333] hover:bg-[#933333]/10 transition font-bold disabled:opacity-50"
+                          >
+                            New script
+                          </button>
+                        </>
+                      )}
                     </div>
                   </div>
-                  <div className="flex items-center gap-3">
-                    <span
-                      className={`text-xs px-2 py-0.5 font-bold uppercase ${
-                        file.status === "completed"
-                          ? "bg-green-200 text-green-800"
-                          : file.status === "processing"
-                            ? "bg-blue-200 text-blue-800"
-                            : file.status === "failed"
-                              ? "bg-red-200 text-red-800"
-                              : "bg-gray-200 text-gray-800"
-                      }`}
-                    >
-                      {file.status}
-                    </span>
-                    <span className="text-xs font-mono uppercase bg-[#FFE2C7] px-1.5 py-0.5 border border-[#933333]/20">
-                      {file.fileType}
-                    </span>
-                  </div>
+                  {file.reconciliation &&
+                    isPanelOpen(file.id, "reconciliation") && (
+                      <div className="px-3 pb-3">
+                        <ReconciliationPanel report={file.reconciliation} />
+                      </div>
+                    )}
+                  {file.columnMapping && isPanelOpen(file.id, "mapping") && (
+                    <div className="px-3 pb-3">
+                      <MappingReportPanel report={file.columnMapping} />
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
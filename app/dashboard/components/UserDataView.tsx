@@ -1,11 +1,14 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { TableInfo } from "../types";
+import { TableInfo, Customer } from "../types";
 import DataTable from "@/components/DataTable";
+import SqlEditor from "./SqlEditor";
 
 type UserDataViewProps = {
   uploadedTables: TableInfo[];
+  customerId: Customer["id"] | null;
+  restoringTableCount?: number;
 };
 
 type ModalData = {
@@ -17,7 +20,11 @@ type ModalData = {
   totalRows: number;
 } | null;
 
-export default function UserDataView({ uploadedTables }: UserDataViewProps) {
+export default function UserDataView({
+  uploadedTables,
+  customerId,
+  restoringTableCount = 0,
+}: UserDataViewProps) {
   const [selectedTable, setSelectedTable] = useState<string | null>(null);
   const [tableData, setTableData] = useState<{
     columns: string[];
@@ -27,11 +34,14 @@ export default function UserDataView({ uploadedTables }: UserDataViewProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [customQuery, setCustomQuery] = useState("");
+  const [queryMode, setQueryMode] = useState<"ask" | "sql">("ask");
+  const [sqlText, setSqlText] = useState("");
   const [queryResult, setQueryResult] = useState<{
     columns: string[];
     data: Record<string, string | number | null>[];
     totalRows: number;
     sql: string;
+    truncated?: boolean;
   } | null>(null);
   const [queryLoading, setQueryLoading] = useState(false);
   const [queryError, setQueryError] = useState<string | null>(null);
@@ -78,6 +88,7 @@ export default function UserDataView({ uploadedTables }: UserDataViewProps) {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           sql: `SELECT * FROM "${tableName}";`,
+          customerId: customerId?.toString(),
         }),
       });
 
@@ -88,10 +99,12 @@ export default function UserDataView({ uploadedTables }: UserDataViewProps) {
         return;
       }
 
+      // Previews are capped server-side, so take the total from the schema
+      const table = uploadedTables.find((t) => t.tableName === tableName);
       setTableData({
         columns: result.columns || [],
         data: result.data || [],
-        totalRows: result.rowCount || 0,
+        totalRows: table?.rowCount ?? result.rowCount ?? 0,
       });
     } catch (err) {
       setError(
@@ -114,7 +127,10 @@ export default function UserDataView({ uploadedTables }: UserDataViewProps) {
       const response = await fetch("/api/query", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ question: q }),
+        body: JSON.stringify({
+          question: q,
+          customerId: customerId?.toString(),
+        }),
       });
 
       const result = await response.json();
@@ -139,6 +155,47 @@ export default function UserDataView({ uploadedTables }: UserDataViewProps) {
     }
   };
 
+  const runSqlQuery = async () => {
+    const sql = sqlText.trim();
+    if (!sql) return;
+
+    setQueryLoading(true);
+    setQueryError(null);
+    setQueryResult(null);
+
+    try {
+      const response = await fetch("/api/sql", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sql,
+          customerId: customerId?.toString(),
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        setQueryError(result.error || "Query failed.");
+        return;
+      }
+
+      setQueryResult({
+        columns: result.columns || [],
+        data: result.data || [],
+        totalRows: result.rowCount || 0,
+        sql: result.sql || sql,
+        truncated: result.truncated,
+      });
+    } catch (err) {
+      setQueryError(
+        `Query failed: ${err instanceof Error ? err.message : "Network error."}`,
+      );
+    } finally {
+      setQueryLoading(false);
+    }
+  };
+
   const openTablePreviewModal = () => {
     if (!tableData || !selectedTable) return;
     setModalData({
@@ -154,7 +211,7 @@ export default function UserDataView({ uploadedTables }: UserDataViewProps) {
     if (!queryResult) return;
     setModalData({
       title: "Query Result",
-      subtitle: `${queryResult.totalRows} row${queryResult.totalRows !== 1 ? "s" : ""}`,
+      subtitle: `${queryResult.totalRows} row${queryResult.totalRows !== 1 ? "s" : ""}${queryResult.truncated ? " (limit reached)" : ""}`,
       sql: queryResult.sql,
       columns: queryResult.columns,
       data: queryResult.data,
@@ -162,8 +219,35 @@ export default function UserDataView({ uploadedTables }: UserDataViewProps) {
     });
   };
 
+  const restoringBanner = restoringTableCount > 0 && (
+    <div className="shrink-0 flex items-center gap-2 border-b-2 border-[#933333]/20 bg-[#933333]/10 px-4 py-2 text-sm font-bold text-[#933333]">
+      <svg
+        className="animate-spin h-4 w-4"
+        xmlns="http://www.w3.org/2000/svg"
+        fill="none"
+        viewBox="0 0 24 24"
+      >
+        <circle
+          className="opacity-25"
+          cx="12"
+          cy="12"
+          r="10"
+          stroke="currentColor"
+          strokeWidth="4"
+        />
+        <path
+          className="opacity-75"
+          fill="currentColor"
+          d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+        />
+      </svg>
+      Restoring {restoringTableCount} table
+      {restoringTableCount !== 1 ? "s" : ""} from storage...
+    </div>
+  );
+
   // No data state
-  if (uploadedTables.length === 0) {
+  if (uploadedTables.length === 0 && restoringTableCount === 0) {
     return (
       <div className="flex flex-col items-center justify-center h-full text-center px-6 py-16">
         <svg
@@ -195,6 +279,8 @@ export default function UserDataView({ uploadedTables }: UserDataViewProps) {
 
   return (
     <div className="h-full flex flex-col min-h-0 ">
+      {restoringBanner}
+
       {/* Fullscreen Modal */}
       {modalData && (
         <div
@@ -314,52 +400,122 @@ export default function UserDataView({ uploadedTables }: UserDataViewProps) {
 
         {/* Custom query input */}
         <div className="mt-3">
-          <label className="block text-xs font-bold uppercase tracking-wider text-[#933333]/60 mb-1">
-            Ask a Question About Your Data
-          </label>
-          <div className="flex gap-2">
-            <input
-              type="text"
-              value={customQuery}
-              onChange={(e) => setCustomQuery(e.target.value)}
-              onKeyDown={(e) => e.key === "Enter" && runCustomQuery()}
-              placeholder="e.g., Show me top 10 customers by revenue"
-              className="flex-1 border-2 border-[#933333] bg-transparent text-[#933333] placeholder-[#933333]/40 px-3 py-2 text-sm outline-none focus:bg-[#933333]/5 transition"
-            />
-            <button
-              onClick={runCustomQuery}
-              disabled={queryLoading || !customQuery.trim()}
-              className="border-2 border-[#933333] bg-[#933333] text-[#FFE2C7] px-5 py-2 font-bold text-sm transition hover:bg-[#7b2b2b] disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-2"
-            >
-              {queryLoading ? (
-                <>
-                  <svg
-                    className="animate-spin h-4 w-4"
-                    xmlns="http://www.w3.org/2000/svg"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                  >
-                    <circle
-                      className="opacity-25"
-                      cx="12"
-                      cy="12"
-                      r="10"
-                      stroke="currentColor"
-                      strokeWidth="4"
-                    />
-                    <path
-                      className="opacity-75"
-                      fill="currentColor"
-                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                    />
-                  </svg>
-                  Querying...
-                </>
-              ) : (
-                "Run Query"
-              )}
-            </button>
+          <div className="flex items-center justify-between mb-1">
+            <label className="block text-xs font-bold uppercase tracking-wider text-[#933333]/60">
+              {queryMode === "ask"
+                ? "Ask a Question About Your Data"
+                : "Write SQL (read-only)"}
+            </label>
+            <div className="flex border-2 border-[#933333] text-xs font-bold">
+              {(["ask", "sql"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setQueryMode(mode)}
+                  className={`px-3 py-0.5 transition ${
+                    queryMode === mode
+                      ? "bg-[#933333] text-[#FFE2C7]"
+                      : "text-[#933333] hover:bg-[#933333]/10"
+                  }`}
+                >
+                  {mode === "ask" ? "Ask" : "SQL"}
+                </button>
+              ))}
+            </div>
           </div>
+          {queryMode === "ask" ? (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={customQuery}
+                onChange={(e) => setCustomQuery(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && runCustomQuery()}
+                placeholder="e.g., Show me top 10 customers by revenue"
+                className="flex-1 border-2 border-[#933333] bg-transparent text-[#933333] placeholder-[#933333]/40 px-3 py-2 text-sm outline-none focus:bg-[#933333]/5 transition"
+              />
+              <button
+                onClick={runCustomQuery}
+                disabled={queryLoading || !customQuery.trim()}
+                className="border-2 border-[#933333] bg-[#933333] text-[#FFE2C7] px-5 py-2 font-bold text-sm transition hover:bg-[#7b2b2b] disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                {queryLoading ? (
+                  <>
+                    <svg
+                      className="animate-spin h-4 w-4"
+                      xmlns="http://www.w3.org/2000/svg"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                    >
+                      <circle
+                        className="opacity-25"
+                        cx="12"
+                        cy="12"
+                        r="10"
+                        stroke="currentColor"
+                        strokeWidth="4"
+                      />
+                      <path
+                        className="opacity-75"
+                        fill="currentColor"
+                        d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                      />
+                    </svg>
+                    Querying...
+                  </>
+                ) : (
+                  "Run Query"
+                )}
+              </button>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-2">
+              <SqlEditor
+                value={sqlText}
+                onChange={setSqlText}
+                onRun={runSqlQuery}
+                tables={uploadedTables}
+                disabled={queryLoading}
+              />
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-[#933333]/50">
+                  Single SELECT / WITH only. Tab to autocomplete, Ctrl+Enter to
+                  run.
+                </p>
+                <button
+                  onClick={runSqlQuery}
+                  disabled={queryLoading || !sqlText.trim()}
+                  className="border-2 border-[#933333] bg-[#933333] text-[#FFE2C7] px-5 py-2 font-bold text-sm transition hover:bg-[#7b2b2b] disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-2"
+                >
+                  {queryLoading ? (
+                    <>
+                      <svg
+                        className="animate-spin h-4 w-4"
+                        xmlns="http://www.w3.org/2000/svg"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                      >
+                        <circle
+                          className="opacity-25"
+                          cx="12"
+                          cy="12"
+                          r="10"
+                          stroke="currentColor"
+                          strokeWidth="4"
+                        />
+                        <path
+                          className="opacity-75"
+                          fill="currentColor"
+                          d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                        />
+                      </svg>
+                      Querying...
+                    </>
+                  ) : (
+                    "Run SQL"
+                  )}
+                </button>
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
@@ -420,6 +576,7 @@ export default function UserDataView({ uploadedTables }: UserDataViewProps) {
                 <span className="text-xs text-[#933333]/50">
                   {queryResult.totalRows} row
                   {queryResult.totalRows !== 1 ? "s" : ""}
+                  {queryResult.truncated && " (limit reached)"}
                 </span>
               </div>
               <div className="flex items-center gap-2">
@@ -10,6 +10,8 @@ import UserDataView from "./components/UserDataView";
 import ProfileView from "./components/ProfileView";
 import InsightsView from "./components/InsightsView";
 import GraphsView from "./components/GraphsView";
+import CategoryRulesView from "./components/CategoryRulesView";
+import ReviewView from "./components/ReviewView";
 import { Trash2, Loader2 } from "lucide-react";
 
 import {
@@ -18,6 +20,8 @@ import {
   viewCustomersFromCustomerTable,
   getUploadedFilesForCustomer,
   getAvailableTables,
+  countTablesToRestore,
+  restoreCustomerTables,
 } from "@/app/actions/user-actions";
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
@@ -67,8 +71,34 @@ const Page = () => {
   };
 
   const [areFilesLoading, setAreFilesLoading] = useState(false);
+  const [restoringTableCount, setRestoringTableCount] = useState(0);
   const lastFetchedCustomerId = useRef<Customer["id"] | null>(null);
 
+  // After a server restart the in-memory analytics DB is empty while the
+  // files are still listed as completed, so rebuild the tables from R2.
+  const restoreTables = React.useCallback(
+    async (customerId: Customer["id"]) => {
+      try {
+        const pending = await countTablesToRestore(String(customerId));
+        if (pending === 0) return;
+
+        setRestoringTableCount(pending);
+        const restored = await restoreCustomerTables(String(customerId));
+        if (restored.failed.length > 0) {
+          console.error("Some tables could not be restored:", restored.failed);
+        }
+        if (lastFetchedCustomerId.current === customerId) {
+          setUploadedTables(restored.tables);
+        }
+      } catch (err) {
+        console.error("Failed to restore tables:", err);
+      } finally {
+        setRestoringTableCount(0);
+      }
+    },
+    [],
+  );
+
   const loadUploadedFiles = React.useCallback(
     async (force = false) => {
       if (!selectedCustomerId) {
@@ -97,13 +127,15 @@ const Page = () => {
 
         // Update cache tracker
         lastFetchedCustomerId.current = selectedCustomerId;
+
+        void restoreTables(selectedCustomerId);
       } catch (err) {
         console.error("Failed to load uploaded files:", err);
       } finally {
         setAreFilesLoading(false);
       }
     },
-    [selectedCustomerId],
+    [selectedCustomerId, restoreTables],
   );
 
   useEffect(() => {
@@ -203,13 +235,37 @@ const Page = () => {
     }
 
     if (activeView === "data") {
-      return <UserDataView uploadedTables={uploadedTables} />;
+      return (
+        <UserDataView
+          uploadedTables={uploadedTables}
+          customerId={selectedCustomerId}
+          restoringTableCount={restoringTableCount}
+        />
+      );
     }
 
     if (activeView === "profile") {
       return <ProfileView customer={selectedCustomer} />;
     }
 
+    if (activeView === "rules") {
+      return (
+        <CategoryRulesView
+          customerId={selectedCustomerId}
+          onRulesApplied={() => loadUploadedFiles(true)}
+        />
+      );
+    }
+
+    if (activeView === "review") {
+      return (
+        <ReviewView
+          uploadedFiles={uploadedFiles}
+          onReviewed={() => loadUploadedFiles(true)}
+        />
+      );
+    }
+
     if (activeView === "graphs") {
       return (
         <GraphsView
@@ -219,9 +275,20 @@ const Page = () => {
       );
     }
 
-    return <InsightsView uploadedTables={uploadedTables} />;
+    return (
+      <InsightsView
+        // Remount per customer so chat state and saved conversations reset
+        key={selectedCustomerId?.toString() ?? "none"}
+        uploadedTables={uploadedTables}
+        customerId={selectedCustomerId}
+      />
+    );
   };
 
+  const reviewCount = uploadedFiles.filter(
+    (file) => file.status === "needs_review",
+  ).length;
+
   const viewButtonClass = (view: View) =>
     `border-2 border-[#933333] hover:cursor-pointer w-full max-w-[220px] h-11 font-bold transition md:w-40 md:h-12 md:max-w-none ${
       activeView === view
@@ -403,6 +470,18 @@ const Page = () => {
               >
                 Visualise Graphs
               </button>
+              <button
+                onClick={() => setActiveView("rules")}
+                className={viewButtonClass("rules")}
+              >
+                Category Rules
+              </button>
+              <button
+                onClick={() => setActiveView("review")}
+                className={viewButtonClass("review")}
+              >
+                Review{reviewCount > 0 ? ` (${reviewCount})` : ""}
+              </button>
             </div>
 
             {/* Content */}
@@ -1,4 +1,10 @@
-export type View = "upload" | "data" | "insights" | "profile" | "graphs";
+import type { QueryRetry, QueryStage } from "@/lib/query-events";
+import type { MappingReport } from "@/lib/statement-schema";
+import type { ReconciliationReport } from "@/lib/reconciliation";
+import type { ConversionConfidence } from "@/lib/confidence";
+
+export type View =
+  "upload" | "data" | "insights" | "profile" | "graphs" | "rules" | "review";
 
 export type Customer = {
   id: string | number | bigint;
@@ -20,14 +26,51 @@ export type TableInfo = {
   rowCount: number;
 };
 
+export type ConversationSummary = {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type CategoryRule = {
+  id: string;
+  matchType: string; // 'contains' | 'regex'
+  pattern: string;
+  direction: string | null; // 'debit' | 'credit' | null for either
+  minAmount: number | null;
+  maxAmount: number | null;
+  bank: string | null;
+  category: string;
+  merchant: string | null;
+  priority: number;
+};
+
 export type UploadedFile = {
   id: number;
   fileName: string;
   fileType: "csv" | "pdf";
   status: string;
+  failureReason?: string | null;
   r2Key: string;
   createdAt: Date;
   resultCsvKey?: string | null;
+  columnMapping?: MappingReport | null;
+  reconciliation?: ReconciliationReport | null;
+  confidence?: ConversionConfidence | null;
+  confidenceScore?: number | null;
+  processorJobId?: string | null;
+};
+
+export type ReviewItem = {
+  fileId: number;
+  fileName: string;
+  confidence: ConversionConfidence | null;
+  reconciliation: ReconciliationReport | null;
+  pages: { page: number; text: string }[];
+  headers: string[];
+  rows: string[][];
+  totalRows: number;
 };
 
 export type QueryMessage = {
@@ -44,6 +87,8 @@ export type QueryMessage = {
   error?: string;
   timestamp: Date;
   loading?: boolean;
+  stage?: QueryStage;
+  retries?: QueryRetry[];
 };
 
 export type ChartConfig = {
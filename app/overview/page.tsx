@@ -50,14 +50,14 @@ export default function OverviewPage() {
     }
 
     if (activeView === "data") {
-      return <UserDataView uploadedTables={uploadedTables} />;
+      return <UserDataView uploadedTables={uploadedTables} customerId={null} />;
     }
 
     if (activeView === "graphs") {
       return <GraphsView uploadedTables={uploadedTables} customerId={null} />;
     }
 
-    return <InsightsView uploadedTables={uploadedTables} />;
+    return <InsightsView uploadedTables={uploadedTables} customerId={null} />;
   };
 
   return (
@@ -18,6 +18,12 @@ import {
 } from "lucide-react";
 import DynamicChart, { ChartConfig } from "./DynamicChart";
 import DataTable from "./DataTable";
+import {
+  applyQueryEvent,
+  readQueryStream,
+  type QueryRetry,
+  type QueryStage,
+} from "@/lib/query-events";
 
 interface QueryMessage {
   id: string;
@@ -33,12 +39,23 @@ interface QueryMessage {
   error?: string;
   timestamp: Date;
   loading?: boolean;
+  stage?: QueryStage;
+  retries?: QueryRetry[];
 }
 
 interface QueryChatProps {
   hasData: boolean;
 }
 
+const STAGE_LABELS: Record<QueryStage, string> = {
+  generating: "Writing SQL...",
+  executing: "Running query...",
+  retrying: "Fixing the query...",
+  answering: "Writing the answer...",
+  charting: "Building a chart...",
+  done: "Done",
+};
+
 const SUGGESTED_QUESTIONS = [
   "Show me a summary of all columns",
   "What are the top 10 rows by the first numeric column?",
@@ -93,6 +110,7 @@ export default function QueryChat({ hasData }: QueryChatProps) {
       question: q,
       timestamp: new Date(),
       loading: true,
+      stage: "generating",
     };
 
     setMessages((prev) => [...prev, userMsg, loadingMsg]);
@@ -102,12 +120,12 @@ export default function QueryChat({ hasData }: QueryChatProps) {
       const response = await fetch("/api/query", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ question: q }),
+        body: JSON.stringify({ question: q, stream: true }),
       });
 
-      const result = await response.json();
-
+      // Errors before the pipeline starts come back as plain JSON
       if (!response.ok) {
+        const result = await response.json();
         setMessages((prev) =>
           prev.map((msg) =>
             msg.id === loadingMsg.id
@@ -125,19 +143,20 @@ export default function QueryChat({ hasData }: QueryChatProps) {
         return;
       }
 
+      await readQueryStream(response, (event) => {
+        setMessages((prev) =>
+          prev.map((msg) => (msg.id === loadingMsg.id ? applyQueryEvent(msg, event) : msg))
+        );
+      });
+
+      // A stream that stops without `done` or `error` was cut off
       setMessages((prev) =>
         prev.map((msg) =>
-          msg.id === loadingMsg.id
+          msg.id === loadingMsg.id && msg.loading
             ? {
                 ...msg,
-                type: "assistant" as const,
-                answer: result.answer,
-                sql: result.sql,
-                explanation: result.explanation,
-                columns: result.columns,
-                data: result.data,
-                rowCount: result.rowCount,
-                chartConfig: result.chartConfig,
+                type: "error" as const,
+                error: "The response ended unexpectedly",
                 loading: false,
               }
             : msg
@@ -322,17 +341,27 @@ function MessageBubble({
     );
   }
 
-  // Loading state
-  if (message.loading) {
+  // Loading state (until the answer starts streaming in)
+  if (message.loading && !message.answer) {
     return (
       <div className="flex justify-start">
         <div className="max-w-[85%] space-y-3 rounded-2xl rounded-bl-sm border border-zinc-200 bg-white px-4 py-3 dark:border-zinc-700 dark:bg-zinc-900">
           <div className="flex items-center gap-2">
             <Loader2 className="h-4 w-4 animate-spin text-indigo-500" />
             <span className="text-sm text-zinc-600 dark:text-zinc-400">
-              Analyzing your data...
+              {message.stage ? STAGE_LABELS[message.stage] : "Analyzing your data..."}
             </span>
           </div>
+          {message.sql && (
+            <pre className="overflow-x-auto rounded-lg bg-zinc-950 p-3 text-xs leading-relaxed text-emerald-400">
+              <code>{message.sql}</code>
+            </pre>
+          )}
+          {message.retries?.map((retry) => (
+            <p key={retry.attempt} className="text-xs text-amber-600 dark:text-amber-400">
+              Attempt {retry.attempt} failed: {retry.error}
+            </p>
+          ))}
           <div className="space-y-2">
             <div className="h-2 w-3/4 animate-pulse rounded bg-zinc-100 dark:bg-zinc-800" />
             <div className="h-2 w-1/2 animate-pulse rounded bg-zinc-100 dark:bg-zinc-800" />
@@ -394,6 +423,13 @@ function MessageBubble({
           </div>
         )}
 
+        {message.loading && message.stage && (
+          <div className="flex items-center gap-2 text-xs text-zinc-400 dark:text-zinc-500">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            {STAGE_LABELS[message.stage]}
+          </div>
+        )}
+
         {/* SQL toggle */}
         {message.sql && (
           <div className="space-y-2">
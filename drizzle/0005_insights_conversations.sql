@@ -0,0 +1,25 @@
+CREATE TABLE "conversation_message" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"conversation_id" bigint NOT NULL,
+	"question" text NOT NULL,
+	"sql" text,
+	"explanation" text,
+	"answer" text,
+	"columns" jsonb,
+	"chart_config" jsonb,
+	"row_count" integer,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "conversation" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"customer_id" bigint NOT NULL,
+	"title" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "conversation_message" ADD CONSTRAINT "conversation_message_conversation_id_conversation_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversation"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "conversation" ADD CONSTRAINT "conversation_customer_id_customer_table_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customer_table"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "category_rule" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"match_type" text DEFAULT 'contains' NOT NULL,
+	"pattern" text NOT NULL,
+	"direction" text,
+	"min_amount" double precision,
+	"max_amount" double precision,
+	"bank" text,
+	"category" text NOT NULL,
+	"merchant" text,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "category_rule" ADD CONSTRAINT "category_rule_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "uploaded_file" ADD COLUMN "column_mapping" jsonb;
\ No newline at end of file
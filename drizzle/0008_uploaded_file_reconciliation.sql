@@ -0,0 +1,2 @@
+ALTER TABLE "uploaded_file" ADD COLUMN "reconciliation" jsonb;--> statement-breakpoint
+ALTER TABLE "uploaded_file" ADD COLUMN "reconciliation_key" text;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "uploaded_file" ADD COLUMN "page_text_key" text;--> statement-breakpoint
+ALTER TABLE "uploaded_file" ADD COLUMN "confidence" jsonb;--> statement-breakpoint
+ALTER TABLE "uploaded_file" ADD COLUMN "confidence_score" integer;--> statement-breakpoint
+ALTER TABLE "uploaded_file" ADD COLUMN "reviewed_by" text;--> statement-breakpoint
+ALTER TABLE "uploaded_file" ADD COLUMN "reviewed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "uploaded_file" ADD CONSTRAINT "uploaded_file_reviewed_by_user_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "uploaded_file" ADD COLUMN "processor_job_id" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "uploaded_file" ADD COLUMN "failure_reason" text;
\ No newline at end of file
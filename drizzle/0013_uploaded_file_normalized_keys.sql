@@ -0,0 +1,2 @@
+ALTER TABLE "uploaded_file" ADD COLUMN "normalized_csv_key" text;--> statement-breakpoint
+ALTER TABLE "uploaded_file" ADD COLUMN "mapping_report_key" text;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "llm_category" (
+	"user_id" text NOT NULL,
+	"narration_key" text NOT NULL,
+	"category" text NOT NULL,
+	"merchant" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "llm_category_user_id_narration_key_pk" PRIMARY KEY("user_id","narration_key")
+);
+--> statement-breakpoint
+ALTER TABLE "llm_category" ADD CONSTRAINT "llm_category_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
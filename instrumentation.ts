@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts.
+export async function register() {
+  // The sweeper needs the database; not available on the edge runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startStaleFileSweeper } = await import("@/lib/stale-files");
+    startStaleFileSweeper();
+  }
+}
@@ -0,0 +1,72 @@
+import { and, eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { customerTable } from "@/lib/schema";
+import type { DbScope } from "@/lib/csv-db";
+
+export type ScopeResolution =
+  | { scope: DbScope; error?: undefined; status?: undefined }
+  | { scope?: undefined; error: string; status: number };
+
+/**
+ * Resolve the analytics scope for an incoming request from the signed-in
+ * user and the (optional) customer id the client sent. The customer must
+ * belong to the user; without a customer id the user's scratch workspace
+ * is used.
+ */
+export async function resolveRequestScope(
+  requestHeaders: Headers,
+  customerId: string | number | null | undefined,
+): Promise<ScopeResolution> {
+  const session = await auth.api.getSession({ headers: requestHeaders });
+  const userId = session?.user.id;
+  if (!userId) {
+    return { error: "Unauthorized", status: 401 };
+  }
+
+  const normalizedCustomerId =
+    customerId === null || customerId === undefined
+      ? ""
+      : String(customerId).trim();
+  if (!normalizedCustomerId) {
+    return { scope: { userId, customerId: null } };
+  }
+  if (!/^\d+$/.test(normalizedCustomerId)) {
+    return { error: "Invalid customer id.", status: 400 };
+  }
+
+  const [customer] = await db
+    .select({ id: customerTable.id })
+    .from(customerTable)
+    .where(
+      and(
+        eq(customerTable.id, BigInt(normalizedCustomerId)),
+        eq(customerTable.userId, userId),
+      ),
+    );
+
+  if (!customer) {
+    return { error: "Customer not found.", status: 404 };
+  }
+
+  return { scope: { userId, customerId: customer.id.toString() } };
+}
+
+/**
+ * Resolve the analytics scope that owns a customer's files. Used by
+ * server-to-server callers (e.g. the PDF webhook) that have no session.
+ */
+export async function resolveCustomerScope(
+  customerId: bigint,
+): Promise<DbScope | null> {
+  const [customer] = await db
+    .select({ id: customerTable.id, userId: customerTable.userId })
+    .from(customerTable)
+    .where(eq(customerTable.id, customerId));
+
+  if (!customer) {
+    return null;
+  }
+
+  return { userId: customer.userId, customerId: customer.id.toString() };
+}
@@ -0,0 +1,61 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// ---------------------------------------------------------------------------
+// Verifying the pdf-processor's signed completion callbacks. The processor
+// signs `<timestamp>.<body>` with HMAC-SHA256, keyed with
+// PDF_CALLBACK_SECRET, and sends the timestamp and signature in headers
+// (pdf-processor/src/lib/callback-signature.ts — keep the two in step).
+// A callback older than the replay window is refused even when its
+// signature is good.
+// ---------------------------------------------------------------------------
+
+export const SIGNATURE_HEADER = "x-callback-signature";
+export const TIMESTAMP_HEADER = "x-callback-timestamp";
+
+/** How far a callback's timestamp may be from now, either way. */
+export const REPLAY_WINDOW_SECONDS = 5 * 60;
+
+export type SignatureCheck = { ok: true } | { ok: false; reason: string };
+
+export function verifyCallbackSignature(
+  body: string,
+  headers: Headers,
+  now: number = Date.now(),
+): SignatureCheck {
+  const secret = process.env.PDF_CALLBACK_SECRET;
+  if (!secret) {
+    return { ok: false, reason: "PDF_CALLBACK_SECRET is not configured" };
+  }
+
+  const timestamp = headers.get(TIMESTAMP_HEADER);
+  const signature = headers.get(SIGNATURE_HEADER);
+  if (!timestamp || !signature) {
+    return { ok: false, reason: "missing signature headers" };
+  }
+  if (!/^\d+$/.test(timestamp)) {
+    return { ok: false, reason: "malformed timestamp" };
+  }
+
+  const age = Math.floor(now / 1000) - Number(timestamp);
+  if (Math.abs(age) > REPLAY_WINDOW_SECONDS) {
+    return {
+      ok: false,
+      reason: `timestamp outside the replay window (${age}s old)`,
+    };
+  }
+
+  const expected = Buffer.from(
+    `sha256=${createHmac("sha256", secret)
+      .update(`${timestamp}.${body}`)
+      .digest("hex")}`,
+  );
+  const received = Buffer.from(signature);
+  if (
+    received.length !== expected.length ||
+    !timingSafeEqual(received, expected)
+  ) {
+    return { ok: false, reason: "signature mismatch" };
+  }
+
+  return { ok: true };
+}
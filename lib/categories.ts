@@ -0,0 +1,52 @@
+// ---------------------------------------------------------------------------
+// Category and bank vocabularies shared by the categorization engine and the
+// dashboard (client-safe: no server imports).
+// ---------------------------------------------------------------------------
+
+export const CATEGORIES = [
+  "Food & Dining",
+  "Groceries",
+  "Shopping",
+  "Transport",
+  "Fuel",
+  "Travel",
+  "Utilities",
+  "Rent",
+  "Entertainment",
+  "Health",
+  "Education",
+  "Insurance",
+  "Investments",
+  "Loans & EMI",
+  "Salary",
+  "Interest",
+  "Cash Withdrawal",
+  "Fees & Charges",
+  "Transfers",
+  "Other",
+] as const;
+
+export type Category = (typeof CATEGORIES)[number];
+
+/**
+ * Banks a rule can be narrowed to, matched as whole words of table (file)
+ * names.
+ * Mirrors the keyword list the pdf-processor uses to pick parser scripts.
+ */
+export const KNOWN_BANKS = [
+  "hdfc",
+  "icici",
+  "sbi",
+  "pnb",
+  "axis",
+  "kotak",
+  "idbi",
+  "canara",
+  "indusind",
+  "federal",
+  "rbl",
+  "bandhan",
+  "idfc",
+  "citi",
+  "hsbc",
+];
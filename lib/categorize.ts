@@ -0,0 +1,639 @@
+import {
+  executeQuery,
+  getTableSchemas,
+  writeDerivedColumns,
+  type DbScope,
+  type TableSchema,
+} from "./csv-db";
+import { RE2JS } from "re2js";
+import { categorizeTransactions } from "./llm";
+import { CATEGORIES, KNOWN_BANKS, type Category } from "./categories";
+
+// ---------------------------------------------------------------------------
+// Transaction categorization for bank-statement tables. Each narration goes
+// through, in order:
+//   1. user rules (narration substring/regex, amount range, debit/credit)
+//   2. the merchant dictionary ("SWIGGY" → Swiggy, Food & Dining)
+//   3. category keyword rules (ATM withdrawals, salary, bank charges, ...)
+//   4. optionally the LLM, when CATEGORIZE_WITH_LLM=true, with its answers
+//      cached per narration (LlmCategoryCache) so reloads don't ask again
+// and the result is written into `category` and `merchant` columns, so
+// questions like "spend on food last quarter" don't depend on the model
+// guessing categories inside SQL.
+// ---------------------------------------------------------------------------
+
+/**
+ * A user-defined rule (stored in category_rule); it wins over everything
+ * built in. Rules are tried in the order given.
+ */
+export interface CategoryRule {
+  matchType: "contains" | "regex";
+  /** Case-insensitive substring or regular expression on the narration. */
+  pattern: string;
+  direction?: "debit" | "credit" | null;
+  /** Inclusive bounds on the absolute transaction amount. */
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  /** Only apply to statements from this bank (see detectBank). */
+  bank?: string | null;
+  category: string;
+  merchant?: string | null;
+}
+
+export interface Categorization {
+  category: string;
+  merchant: string | null;
+  source: "user" | "dictionary" | "rule" | "llm" | "default";
+}
+
+/** An LLM answer kept for a narration. */
+export interface CachedLlmCategory {
+  category: string;
+  merchant: string | null;
+}
+
+/**
+ * Where LLM answers are kept between runs, by narrationKey. Rehydration and
+ * "apply rules" recategorize every table; with a cache they reuse earlier
+ * answers instead of sending the same narrations again.
+ */
+export interface LlmCategoryCache {
+  get(keys: string[]): Promise<Map<string, CachedLlmCategory>>;
+  set(answers: Map<string, CachedLlmCategory>): Promise<void>;
+}
+
+interface StatementRow {
+  description: string;
+  amount: number | null;
+  direction: "debit" | "credit" | null;
+}
+
+const CATEGORY_COLUMN = "category";
+const MERCHANT_COLUMN = "merchant";
+
+/** Narrations sent to the LLM per call. */
+const LLM_BATCH_SIZE = 100;
+/** Upper bound on LLM-categorized narrations per table. */
+const MAX_LLM_DESCRIPTIONS = 500;
+
+// ---- Dictionaries ----
+
+const MERCHANTS: { pattern: RegExp; merchant: string; category: Category }[] = [
+  { pattern: /swiggy/i, merchant: "Swiggy", category: "Food & Dining" },
+  { pattern: /zomato/i, merchant: "Zomato", category: "Food & Dining" },
+  {
+    pattern: /dominos|domino's/i,
+    merchant: "Domino's",
+    category: "Food & Dining",
+  },
+  { pattern: /mcdonald/i, merchant: "McDonald's", category: "Food & Dining" },
+  { pattern: /starbucks/i, merchant: "Starbucks", category: "Food & Dining" },
+  { pattern: /blinkit|grofers/i, merchant: "Blinkit", category: "Groceries" },
+  { pattern: /zepto/i, merchant: "Zepto", category: "Groceries" },
+  {
+    pattern: /bigbasket|big basket/i,
+    merchant: "BigBasket",
+    category: "Groceries",
+  },
+  {
+    pattern: /dmart|avenue supermart/i,
+    merchant: "DMart",
+    category: "Groceries",
+  },
+  { pattern: /amazon|amzn/i, merchant: "Amazon", category: "Shopping" },
+  { pattern: /flipkart/i, merchant: "Flipkart", category: "Shopping" },
+  { pattern: /myntra/i, merchant: "Myntra", category: "Shopping" },
+  { pattern: /ajio/i, merchant: "Ajio", category: "Shopping" },
+  { pattern: /nykaa/i, merchant: "Nykaa", category: "Shopping" },
+  { pattern: /\buber\b/i, merchant: "Uber", category: "Transport" },
+  {
+    pattern: /\bola\b|olacabs|ani technologies/i,
+    merchant: "Ola",
+    category: "Transport",
+  },
+  { pattern: /rapido/i, merchant: "Rapido", category: "Transport" },
+  { pattern: /fastag/i, merchant: "FASTag", category: "Transport" },
+  { pattern: /indian oil|iocl/i, merchant: "Indian Oil", category: "Fuel" },
+  {
+    pattern: /bharat petroleum|bpcl/i,
+    merchant: "Bharat Petroleum",
+    category: "Fuel",
+  },
+  {
+    pattern: /hindustan petroleum|hpcl/i,
+    merchant: "Hindustan Petroleum",
+    category: "Fuel",
+  },
+  { pattern: /irctc/i, merchant: "IRCTC", category: "Travel" },
+  {
+    pattern: /makemytrip|\bmmt\b/i,
+    merchant: "MakeMyTrip",
+    category: "Travel",
+  },
+  { pattern: /indigo|interglobe/i, merchant: "IndiGo", category: "Travel" },
+  { pattern: /airtel/i, merchant: "Airtel", category: "Utilities" },
+  { pattern: /\bjio\b/i, merchant: "Jio", category: "Utilities" },
+  { pattern: /vodafone|\bvi\b/i, merchant: "Vi", category: "Utilities" },
+  {
+    pattern: /bescom|tata power|adani electricity|electricity/i,
+    merchant: "Electricity",
+    category: "Utilities",
+  },
+  { pattern: /netflix/i, merchant: "Netflix", category: "Entertainment" },
+  { pattern: /spotify/i, merchant: "Spotify", category: "Entertainment" },
+  {
+    pattern: /hotstar/i,
+    merchant: "Disney+ Hotstar",
+    category: "Entertainment",
+  },
+  { pattern: /bookmyshow/i, merchant: "BookMyShow", category: "Entertainment" },
+  {
+    pattern: /apollo|pharmeasy|1mg|netmeds/i,
+    merchant: "Pharmacy",
+    category: "Health",
+  },
+  { pattern: /zerodha/i, merchant: "Zerodha", category: "Investments" },
+  { pattern: /groww/i, merchant: "Groww", category: "Investments" },
+  { pattern: /lic of india|\blic\b/i, merchant: "LIC", category: "Insurance" },
+];
+
+const CATEGORY_RULES: { pattern: RegExp; category: Category }[] = [
+  { pattern: /\bsalary\b|\bsal\b|payroll/i, category: "Salary" },
+  {
+    pattern: /\batm\b|\batw\b|\bnwd\b|cash wdl|cash withdrawal/i,
+    category: "Cash Withdrawal",
+  },
+  {
+    pattern: /\bemi\b|loan|\bach\b.*(?:finance|bajaj)/i,
+    category: "Loans & EMI",
+  },
+  { pattern: /\brent\b/i, category: "Rent" },
+  { pattern: /int\.?\s*(?:pd|paid|cr)|interest/i, category: "Interest" },
+  {
+    pattern: /\bcharges?\b|\bfee\b|\bgst\b|penalty|amc\b|sms alert/i,
+    category: "Fees & Charges",
+  },
+  {
+    pattern: /mutual fund|\bsip\b|\bnach\b.*(?:mf|fund)/i,
+    category: "Investments",
+  },
+  { pattern: /insurance|premium/i, category: "Insurance" },
+  { pattern: /school|college|university|tuition/i, category: "Education" },
+  { pattern: /hospital|clinic|medical|pharma/i, category: "Health" },
+  {
+    pattern: /\bneft\b|\bimps\b|\brtgs\b|\bupi\b|transfer/i,
+    category: "Transfers",
+  },
+];
+
+/**
+ * Per-bank patterns that pull the counterparty out of a narration; group 1
+ * is the name. Generic patterns run for every bank.
+ */
+const COUNTERPARTY_PATTERNS: Record<string, RegExp[]> = {
+  generic: [
+    // UPI/DR/412345678901/SWIGGY/YESB/...
+    /UPI\/(?:DR|CR)\/\d+\/([^/]+)/i,
+    // NEFT-HDFCN52023-ACME CORP-...
+    /(?:NEFT|IMPS|RTGS)[-/][A-Z0-9]+[-/]([^-/]+)/i,
+    // POS 512345XXXXXX1234 AMAZON PAY
+    /POS\s+\S+\s+(.+)/i,
+  ],
+  hdfc: [
+    // UPI-SWIGGY LIMITED-swiggy@icici-ICIC0000001-...
+    /UPI-([^-]+)-/i,
+  ],
+  icici: [
+    // UPI/412345678901/SWIGGY/swiggy@axis/...
+    /UPI\/\d+\/([^/]+)/i,
+  ],
+  sbi: [
+    // TO TRANSFER-UPI/DR/412345678901/SWIGGY/...
+    /TRANSFER-UPI\/(?:DR|CR)\/\d+\/([^/]+)/i,
+  ],
+  axis: [
+    // UPI/P2M/412345678901/SWIGGY/...
+    /UPI\/P2[AM]\/\d+\/([^/]+)/i,
+  ],
+  kotak: [
+    // UPI/SWIGGY/412345678901/...
+    /UPI\/(?!(?:DR|CR|P2[AM])\/)([^/\d][^/]*)\/\d+/i,
+  ],
+};
+
+const DESCRIPTION_COLUMN_HINTS = [
+  "description",
+  "narration",
+  "particulars",
+  "remarks",
+  "details",
+  "narrative",
+  "memo",
+];
+const AMOUNT_COLUMN_HINTS = [
+  "amount",
+  "debit",
+  "credit",
+  "withdrawal",
+  "deposit",
+];
+
+// ---- Detection ----
+
+/**
+ * The narration column of a statement table, or null if the table does not
+ * look like a bank statement (it needs a narration and an amount column).
+ */
+export function findDescriptionColumn(schema: TableSchema): string | null {
+  const textColumns = schema.columns.filter((c) => c.type === "TEXT");
+  let description: string | null = null;
+  for (const hint of DESCRIPTION_COLUMN_HINTS) {
+    const match = textColumns.find((c) => c.name.includes(hint));
+    if (match) {
+      description = match.name;
+      break;
+    }
+  }
+
+  const hasAmount = schema.columns.some((c) =>
+    AMOUNT_COLUMN_HINTS.some((hint) => c.name.includes(hint)),
+  );
+  return description && hasAmount ? description : null;
+}
+
+/**
+ * Columns holding the transaction amount: separate debit/credit columns,
+ * or a single signed amount column (negative = debit).
+ */
+function findAmountColumns(schema: TableSchema): {
+  debit: string | null;
+  credit: string | null;
+  amount: string | null;
+} {
+  const names = schema.columns.map((c) => c.name);
+  const find = (pattern: RegExp) =>
+    names.find((name) => pattern.test(name) && !name.includes("balance")) ??
+    null;
+  return {
+    debit: find(/debit|withdrawal|^dr$/),
+    credit: find(/credit|deposit|^cr$/),
+    amount: find(/amount/),
+  };
+}
+
+function parseAmount(value: string | number | null): number | null {
+  if (value === null) return null;
+  if (typeof value === "number") return value;
+  const parsed = Number(value.replace(/[,\s₹$]/g, ""));
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Bank named in the table (file) name, if any. Only whole words count, so
+ * "electricity" is not Citi and "taxis" is not Axis.
+ */
+export function detectBank(tableName: string): string | null {
+  const words = tableName.toLowerCase().split(/[^a-z0-9]+/);
+  return KNOWN_BANKS.find((bank) => words.includes(bank)) ?? null;
+}
+
+function extractCounterparty(
+  description: string,
+  bank: string | null,
+): string | null {
+  const patterns = [
+    ...((bank && COUNTERPARTY_PATTERNS[bank]) || []),
+    ...COUNTERPARTY_PATTERNS.generic,
+  ];
+  for (const pattern of patterns) {
+    const name = description.match(pattern)?.[1]?.trim();
+    // Skip bare references and VPAs that slipped through
+    if (name && /[a-z]{2,}/i.test(name) && !name.includes("@")) {
+      return toTitleCase(name.replace(/\s+/g, " "));
+    }
+  }
+  return null;
+}
+
+function toTitleCase(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+}
+
+// ---- Categorization ----
+
+/**
+ * Compile a user rule's regex with RE2 (re2js), which matches in time
+ * linear in the narration, so no pattern can stall categorisation the way
+ * a backtracking RegExp can. Lookarounds and backreferences are not
+ * supported. Throws when the pattern does not compile.
+ */
+export function compileRulePattern(pattern: string): RE2JS {
+  return RE2JS.compile(pattern, RE2JS.CASE_INSENSITIVE);
+}
+
+function compileRule(
+  rule: CategoryRule,
+): ((row: StatementRow) => boolean) | null {
+  let matchesText: (description: string) => boolean;
+  if (rule.matchType === "regex") {
+    let regex: RE2JS;
+    try {
+      regex = compileRulePattern(rule.pattern);
+    } catch {
+      console.warn(
+        `Skipping category rule with invalid regex: ${rule.pattern}`,
+      );
+      return null;
+    }
+    matchesText = (description) => regex.test(description);
+  } else {
+    const needle = rule.pattern.toLowerCase();
+    matchesText = (description) => description.toLowerCase().includes(needle);
+  }
+
+  return (row) => {
+    if (rule.direction && row.direction !== rule.direction) return false;
+    if (rule.minAmount != null || rule.maxAmount != null) {
+      if (row.amount === null) return false;
+      const amount = Math.abs(row.amount);
+      if (rule.minAmount != null && amount < rule.minAmount) return false;
+      if (rule.maxAmount != null && amount > rule.maxAmount) return false;
+    }
+    return matchesText(row.description);
+  };
+}
+
+/**
+ * Categorise one narration with the built-in dictionaries and keyword rules.
+ * Returns null when nothing matched, leaving it to the LLM fallback.
+ */
+export function categorizeDescription(
+  description: string,
+  bank: string | null,
+): Categorization | null {
+  const counterparty = extractCounterparty(description, bank);
+
+  for (const entry of MERCHANTS) {
+    if (entry.pattern.test(description)) {
+      return {
+        category: entry.category,
+        merchant: entry.merchant,
+        source: "dictionary",
+      };
+    }
+  }
+
+  for (const rule of CATEGORY_RULES) {
+    // Transfers is a catch-all for payment rails; only use it once nothing
+    // more specific applies
+    if (rule.category === "Transfers") continue;
+    if (rule.pattern.test(description)) {
+      return {
+        category: rule.category,
+        merchant: counterparty,
+        source: "rule",
+      };
+    }
+  }
+
+  return null;
+}
+
+function fallbackCategorization(
+  description: string,
+  bank: string | null,
+): Categorization {
+  const transfers = CATEGORY_RULES.find((r) => r.category === "Transfers");
+  return {
+    category: transfers?.pattern.test(description) ? "Transfers" : "Other",
+    merchant: extractCounterparty(description, bank),
+    source: "default",
+  };
+}
+
+/**
+ * Cache key for a narration: case, spacing and digits (reference numbers,
+ * dates) do not change what a transaction is.
+ */
+export function narrationKey(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/\d+/g, "#")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+async function categorizeWithLlm(
+  descriptions: string[],
+  cache?: LlmCategoryCache,
+): Promise<Map<string, Categorization>> {
+  const results = new Map<string, Categorization>();
+
+  let cached = new Map<string, CachedLlmCategory>();
+  if (cache) {
+    try {
+      cached = await cache.get([...new Set(descriptions.map(narrationKey))]);
+    } catch (error) {
+      console.error("Failed to read cached LLM categories:", error);
+    }
+  }
+  const uncached: string[] = [];
+  for (const description of descriptions) {
+    const hit = cached.get(narrationKey(description));
+    if (hit) {
+      results.set(description, { ...hit, source: "llm" });
+    } else {
+      uncached.push(description);
+    }
+  }
+
+  const answered = new Map<string, CachedLlmCategory>();
+  const pending = uncached.slice(0, MAX_LLM_DESCRIPTIONS);
+  for (let i = 0; i < pending.length; i += LLM_BATCH_SIZE) {
+    const batch = pending.slice(i, i + LLM_BATCH_SIZE);
+    try {
+      const answers = await categorizeTransactions(batch, CATEGORIES);
+      answers.forEach((answer, index) => {
+        if (answer) {
+          results.set(batch[index], { ...answer, source: "llm" });
+          answered.set(narrationKey(batch[index]), {
+            category: answer.category,
+            merchant: answer.merchant,
+          });
+        }
+      });
+    } catch (error) {
+      // The fallback is best-effort; rule results are still written
+      console.error("LLM categorization failed:", error);
+    }
+  }
+
+  if (cache && answered.size > 0) {
+    try {
+      await cache.set(answered);
+    } catch (error) {
+      console.error("Failed to cache LLM categories:", error);
+    }
+  }
+  return results;
+}
+
+/**
+ * Add (or refresh) `category` and `merchant` columns on a statement table.
+ * Returns the updated schema, or null when the table is not a statement or
+ * already has its own category/merchant columns from the source file.
+ */
+export async function categorizeTable(
+  scope: DbScope,
+  tableName: string,
+  options: { rules?: CategoryRule[]; llmCache?: LlmCategoryCache } = {},
+): Promise<TableSchema | null> {
+  const schema = getTableSchemas(scope).get(tableName);
+  if (!schema || schema.view) return null;
+
+  const descriptionColumn = findDescriptionColumn(schema);
+  if (!descriptionColumn) return null;
+
+  // Columns we added carry a note; columns that came with the CSV are left
+  // alone
+  const owned = Boolean(schema.columnNotes?.[CATEGORY_COLUMN]);
+  const existing = schema.columns.some(
+    (c) => c.name === CATEGORY_COLUMN || c.name === MERCHANT_COLUMN,
+  );
+  if (existing && !owned) {
+    console.log(
+      `Skipping categorization of "${tableName}": it already has ${CATEGORY_COLUMN}/${MERCHANT_COLUMN} columns`,
+    );
+    return null;
+  }
+
+  const bank = detectBank(tableName);
+  const rules = (options.rules ?? [])
+    .filter((rule) => !rule.bank || rule.bank === bank)
+    .map((rule) => ({ rule, matches: compileRule(rule) }))
+    .filter(
+      (
+        r,
+      ): r is { rule: CategoryRule; matches: (row: StatementRow) => boolean } =>
+        r.matches !== null,
+    );
+
+  const amountColumns = findAmountColumns(schema);
+  const selected = [
+    descriptionColumn,
+    amountColumns.debit,
+    amountColumns.credit,
+    amountColumns.amount,
+  ].map((column) => (column ? `"${column}"` : "NULL"));
+  const { rows } = await executeQuery(
+    scope,
+    `SELECT rowid, ${selected.join(", ")} FROM "${tableName}"`,
+  );
+
+  const statementRows = new Map<number, StatementRow | null>();
+  for (const [rowid, description, debit, credit, amount] of rows) {
+    if (description === null) {
+      statementRows.set(Number(rowid), null);
+      continue;
+    }
+    const debitAmount = parseAmount(debit);
+    const creditAmount = parseAmount(credit);
+    const signedAmount = parseAmount(amount);
+    let row: StatementRow;
+    if (debitAmount) {
+      row = {
+        description: String(description),
+        amount: debitAmount,
+        direction: "debit",
+      };
+    } else if (creditAmount) {
+      row = {
+        description: String(description),
+        amount: creditAmount,
+        direction: "credit",
+      };
+    } else {
+      row = {
+        description: String(description),
+        amount: signedAmount,
+        direction: signedAmount
+          ? signedAmount < 0
+            ? "debit"
+            : "credit"
+          : null,
+      };
+    }
+    statementRows.set(Number(rowid), row);
+  }
+
+  // User rules are per row (they can look at amounts); built-in results are
+  // per distinct narration
+  const userResults = new Map<number, Categorization>();
+  const byDescription = new Map<string, Categorization | null>();
+  for (const [rowid, row] of statementRows) {
+    if (!row) continue;
+    const match = rules.find((r) => r.matches(row));
+    if (match) {
+      userResults.set(rowid, {
+        category: match.rule.category,
+        merchant:
+          match.rule.merchant || extractCounterparty(row.description, bank),
+        source: "user",
+      });
+    } else if (!byDescription.has(row.description)) {
+      byDescription.set(
+        row.description,
+        categorizeDescription(row.description, bank),
+      );
+    }
+  }
+
+  const unmatched = [...byDescription]
+    .filter(([, result]) => result === null)
+    .map(([description]) => description);
+  if (unmatched.length > 0 && process.env.CATEGORIZE_WITH_LLM === "true") {
+    for (const [description, result] of await categorizeWithLlm(
+      unmatched,
+      options.llmCache,
+    )) {
+      byDescription.set(description, {
+        ...result,
+        merchant: result.merchant ?? extractCounterparty(description, bank),
+      });
+    }
+  }
+
+  const values = new Map<number, (string | null)[]>();
+  for (const [rowid, row] of statementRows) {
+    const result = row
+      ? (userResults.get(rowid) ??
+        byDescription.get(row.description) ??
+        fallbackCategorization(row.description, bank))
+      : null;
+    values.set(rowid, [result?.category ?? null, result?.merchant ?? null]);
+  }
+
+  const categories = new Set<string>([
+    ...CATEGORIES,
+    ...rules.map((r) => r.rule.category),
+  ]);
+  return writeDerivedColumns(
+    scope,
+    tableName,
+    [
+      {
+        name: CATEGORY_COLUMN,
+        type: "TEXT",
+        note: `spending category of "${descriptionColumn}"; one of ${[...categories].map((c) => `'${c.replace(/'/g, "''")}'`).join(", ")}`,
+      },
+      {
+        name: MERCHANT_COLUMN,
+        type: "TEXT",
+        note: `normalised merchant/counterparty name from "${descriptionColumn}" (NULL if unknown)`,
+      },
+    ],
+    values,
+  );
+}
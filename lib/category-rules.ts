@@ -0,0 +1,136 @@
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { categoryRuleTable, llmCategoryTable } from "@/lib/schema";
+import { getTableSchemas, type DbScope, type TableSchema } from "@/lib/csv-db";
+import {
+  categorizeTable,
+  type CachedLlmCategory,
+  type CategoryRule,
+  type LlmCategoryCache,
+} from "@/lib/categorize";
+import { rawTableNameFor } from "@/lib/statement-schema";
+import { refreshTransactionsView } from "@/lib/transactions";
+
+// ---------------------------------------------------------------------------
+// User category rules (category_rule) applied to the analytics tables.
+// Every CSV load goes through categorizeLoadedTable so a rule saved once
+// also labels every later statement. LLM answers are kept per user in
+// llm_category.
+// ---------------------------------------------------------------------------
+
+/** Narration keys looked up per query. */
+const CACHE_LOOKUP_BATCH = 500;
+
+/** The user's stored LLM categories (llm_category). */
+function llmCategoryCache(userId: string): LlmCategoryCache {
+  return {
+    async get(keys) {
+      const cached = new Map<string, CachedLlmCategory>();
+      for (let i = 0; i < keys.length; i += CACHE_LOOKUP_BATCH) {
+        const rows = await db
+          .select()
+          .from(llmCategoryTable)
+          .where(
+            and(
+              eq(llmCategoryTable.userId, userId),
+              inArray(
+                llmCategoryTable.narrationKey,
+                keys.slice(i, i + CACHE_LOOKUP_BATCH),
+              ),
+            ),
+          );
+        for (const row of rows) {
+          cached.set(row.narrationKey, {
+            category: row.category,
+            merchant: row.merchant,
+          });
+        }
+      }
+      return cached;
+    },
+
+    async set(answers) {
+      await db
+        .insert(llmCategoryTable)
+        .values(
+          [...answers].map(([narrationKey, answer]) => ({
+            userId,
+            narrationKey,
+            ...answer,
+          })),
+        )
+        .onConflictDoNothing();
+    },
+  };
+}
+
+/**
+ * A user's rules in the order they are tried: highest priority first, then
+ * oldest first.
+ */
+export async function getCategoryRules(
+  userId: string,
+): Promise<CategoryRule[]> {
+  const rows = await db
+    .select()
+    .from(categoryRuleTable)
+    .where(eq(categoryRuleTable.userId, userId))
+    .orderBy(desc(categoryRuleTable.priority), asc(categoryRuleTable.id));
+
+  return rows.map((row) => ({
+    matchType: row.matchType === "regex" ? "regex" : "contains",
+    pattern: row.pattern,
+    direction:
+      row.direction === "debit" || row.direction === "credit"
+        ? row.direction
+        : null,
+    minAmount: row.minAmount,
+    maxAmount: row.maxAmount,
+    bank: row.bank,
+    category: row.category,
+    merchant: row.merchant,
+  }));
+}
+
+/**
+ * Categorise a freshly loaded table with the scope owner's rules.
+ * Categorization is an enrichment, so a failure is logged and the table is
+ * left as loaded.
+ */
+export async function categorizeLoadedTable(
+  scope: DbScope,
+  tableName: string,
+): Promise<TableSchema | null> {
+  try {
+    const rules = await getCategoryRules(scope.userId);
+    return await categorizeTable(scope, tableName, {
+      rules,
+      llmCache: llmCategoryCache(scope.userId),
+    });
+  } catch (error) {
+    console.error(`Failed to categorize "${tableName}":`, error);
+    return null;
+  }
+}
+
+/**
+ * Re-apply the current rules to every loaded table in a scope. Returns the
+ * names of the tables that were (re)categorized. Raw copies of normalized
+ * statements stay as uploaded.
+ */
+export async function recategorizeScope(scope: DbScope): Promise<string[]> {
+  const rules = await getCategoryRules(scope.userId);
+  const llmCache = llmCategoryCache(scope.userId);
+  const tableNames = [...getTableSchemas(scope).keys()];
+  const rawTables = new Set(tableNames.map(rawTableNameFor));
+  const updated: string[] = [];
+  for (const tableName of tableNames) {
+    if (rawTables.has(tableName)) continue;
+    if (await categorizeTable(scope, tableName, { rules, llmCache })) {
+      updated.push(tableName);
+    }
+  }
+  // The view picks up category columns added to its tables
+  await refreshTransactionsView(scope);
+  return updated;
+}
@@ -0,0 +1,57 @@
+// ---------------------------------------------------------------------------
+// Confidence score the pdf-processor gives every converted PDF
+// (pdf-processor/src/lib/confidence.ts — keep the two in step). A
+// conversion that needs review is held out of the analytics DB, with status
+// `needs_review`, until a user approves it from the review screen.
+// ---------------------------------------------------------------------------
+
+export interface ConfidenceFactor {
+  name: string;
+  points: number;
+  maxPoints: number;
+  detail: string;
+}
+
+export interface ConversionConfidence {
+  /** Out of 100. */
+  score: number;
+  level: "high" | "medium" | "low";
+  /** True when the score is low, a check failed or the balances went unchecked. */
+  needsReview: boolean;
+  factors: ConfidenceFactor[];
+}
+
+/**
+ * Accept a confidence score from the webhook body only if it has the shape
+ * the dashboard relies on; anything else is dropped rather than stored.
+ */
+export function parseConversionConfidence(
+  value: unknown,
+): ConversionConfidence | null {
+  if (!value || typeof value !== "object") return null;
+  const confidence = value as Partial<ConversionConfidence>;
+  if (
+    typeof confidence.score !== "number" ||
+    typeof confidence.needsReview !== "boolean" ||
+    !Array.isArray(confidence.factors)
+  ) {
+    return null;
+  }
+  return confidence as ConversionConfidence;
+}
+
+/** Factor the processor scores the balance checks under. */
+const BALANCE_FACTOR = "Balance checks";
+
+/**
+ * Whether a completed conversion must wait for a user's approval. Without a
+ * score (an older processor, or scoring failed) nothing vouches for the
+ * numbers, so it waits too. Neither does a score whose balance checks fell
+ * short: older processors let a CSV with nothing to check through at
+ * exactly the threshold.
+ */
+export function needsReview(confidence: ConversionConfidence | null): boolean {
+  if (confidence === null || confidence.needsReview) return true;
+  const balance = confidence.factors.find((f) => f.name === BALANCE_FACTOR);
+  return !balance || balance.points < balance.maxPoints;
+}
@@ -0,0 +1,101 @@
+// ---------------------------------------------------------------------------
+// Conversation history for follow-up questions ("now break that down by
+// month"). Clients send back earlier turns; the server validates them, keeps
+// the most recent ones that fit a token budget and formats them for the
+// SQL generation prompt.
+// ---------------------------------------------------------------------------
+
+export interface ConversationTurn {
+  question: string;
+  sql?: string;
+  explanation?: string;
+  columns?: string[];
+}
+
+/** Rough prompt budget for history; ~4 characters per token. */
+const HISTORY_TOKEN_BUDGET = 1500;
+const CHARS_PER_TOKEN = 4;
+/** Never look further back than this, even if the turns are tiny. */
+const MAX_HISTORY_TURNS = 8;
+/** Per-field caps so one huge turn can't crowd out the rest. */
+const MAX_QUESTION_CHARS = 500;
+const MAX_SQL_CHARS = 1200;
+const MAX_EXPLANATION_CHARS = 300;
+const MAX_COLUMNS = 20;
+
+function clip(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, max)}…` : value;
+}
+
+function optionalString(value: unknown, max: number): string | undefined {
+  return typeof value === "string" && value.trim()
+    ? clip(value.trim(), max)
+    : undefined;
+}
+
+/**
+ * Validate untrusted history from a request body. Malformed turns are
+ * dropped rather than failing the whole request.
+ */
+export function parseConversationHistory(raw: unknown): ConversationTurn[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const turns: ConversationTurn[] = [];
+  for (const item of raw.slice(-MAX_HISTORY_TURNS)) {
+    if (!item || typeof item !== "object") continue;
+    const record = item as Record<string, unknown>;
+
+    const question = optionalString(record.question, MAX_QUESTION_CHARS);
+    if (!question) continue;
+
+    const columns = Array.isArray(record.columns)
+      ? record.columns
+          .filter((c): c is string => typeof c === "string")
+          .slice(0, MAX_COLUMNS)
+      : undefined;
+
+    turns.push({
+      question,
+      sql: optionalString(record.sql, MAX_SQL_CHARS),
+      explanation: optionalString(record.explanation, MAX_EXPLANATION_CHARS),
+      columns: columns?.length ? columns : undefined,
+    });
+  }
+  return turns;
+}
+
+function formatTurn(turn: ConversationTurn, index: number): string {
+  const lines = [`Q${index + 1}: ${turn.question}`];
+  if (turn.sql) lines.push(`SQL: ${turn.sql}`);
+  if (turn.explanation) lines.push(`Explanation: ${turn.explanation}`);
+  if (turn.columns) lines.push(`Result columns: ${turn.columns.join(", ")}`);
+  return lines.join("\n");
+}
+
+/**
+ * Keep the most recent turns whose formatted size fits the token budget.
+ */
+export function trimConversationHistory(
+  turns: ConversationTurn[],
+  tokenBudget: number = HISTORY_TOKEN_BUDGET,
+): ConversationTurn[] {
+  const kept: ConversationTurn[] = [];
+  let used = 0;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = Math.ceil(formatTurn(turns[i], i).length / CHARS_PER_TOKEN);
+    if (used + cost > tokenBudget) break;
+    used += cost;
+    kept.unshift(turns[i]);
+  }
+  return kept;
+}
+
+/**
+ * Format history for a prompt, oldest turn first. Empty when there is none.
+ */
+export function formatConversationHistory(turns: ConversationTurn[]): string {
+  return trimConversationHistory(turns).map(formatTurn).join("\n\n");
+}
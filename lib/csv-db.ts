@@ -2,23 +2,47 @@ import initSqlJs, { Database, SqlJsStatic } from "sql.js";
 import Papa from "papaparse";
 import path from "path";
 import fs from "fs";
+import {
+  runSandboxedQuery,
+  type SandboxLimits,
+  type SandboxResult,
+} from "./query-sandbox";
 
 // ---------------------------------------------------------------------------
 // Persist singleton state on globalThis so it survives Next.js hot reloads
 // and is shared across all API routes within the same Node.js process.
+//
+// Every (user, customer) pair gets its own sql.js database and schema map so
+// that tables from one customer can never be read or dropped by another.
 // ---------------------------------------------------------------------------
 
+export interface DbScope {
+  userId: string;
+  /** null is the user's scratch workspace (no customer selected). */
+  customerId: string | null;
+}
+
+export interface TableSchema {
+  columns: { name: string; type: string }[];
+  rowCount: number;
+  /** Extra guidance for the LLM, shown next to the column in the schema. */
+  columnNotes?: Record<string, string>;
+  /** Set for views over other tables (see createView); they hold no rows. */
+  view?: boolean;
+}
+
 interface DbGlobal {
   __sqlJs?: SqlJsStatic | null;
-  __sqlDb?: Database | null;
-  __tableSchemas?: Map<
-    string,
-    { columns: { name: string; type: string }[]; rowCount: number }
-  >;
+  __sqlDbs?: Map<string, Database>;
+  __tableSchemas?: Map<string, Map<string, TableSchema>>;
 }
 
 const g = globalThis as unknown as DbGlobal;
 
+export function scopeKey(scope: DbScope): string {
+  return `${scope.userId}:${scope.customerId ?? "scratch"}`;
+}
+
 function getSqlSingleton(): SqlJsStatic | null {
   return g.__sqlJs ?? null;
 }
@@ -26,21 +50,24 @@ function setSqlSingleton(val: SqlJsStatic | null) {
   g.__sqlJs = val;
 }
 
-function getDbSingleton(): Database | null {
-  return g.__sqlDb ?? null;
-}
-function setDbSingleton(val: Database | null) {
-  g.__sqlDb = val;
+function getDbsMap(): Map<string, Database> {
+  if (!g.__sqlDbs) {
+    g.__sqlDbs = new Map();
+  }
+  return g.__sqlDbs;
 }
 
-function getTableSchemasMap(): Map<
-  string,
-  { columns: { name: string; type: string }[]; rowCount: number }
-> {
+function getTableSchemasMap(scope: DbScope): Map<string, TableSchema> {
   if (!g.__tableSchemas) {
     g.__tableSchemas = new Map();
   }
-  return g.__tableSchemas;
+  const key = scopeKey(scope);
+  let schemas = g.__tableSchemas.get(key);
+  if (!schemas) {
+    schemas = new Map();
+    g.__tableSchemas.set(key, schemas);
+  }
+  return schemas;
 }
 
 // ---------------------------------------------------------------------------
@@ -68,23 +95,63 @@ async function getSqlJs(): Promise<SqlJsStatic> {
   return SQL;
 }
 
-export async function getDb(): Promise<Database> {
-  let db = getDbSingleton();
+export async function getDb(scope: DbScope): Promise<Database> {
+  const dbs = getDbsMap();
+  const key = scopeKey(scope);
+  let db = dbs.get(key);
   if (!db) {
     const sqlJs = await getSqlJs();
     db = new sqlJs.Database();
-    setDbSingleton(db);
+    dbs.set(key, db);
   }
   return db;
 }
 
-export function resetDb(): void {
-  const db = getDbSingleton();
+export function resetDb(scope: DbScope): void {
+  const dbs = getDbsMap();
+  const key = scopeKey(scope);
+  const db = dbs.get(key);
   if (db) {
     db.close();
-    setDbSingleton(null);
+    dbs.delete(key);
+  }
+  g.__tableSchemas?.delete(key);
+}
+
+// ---------------------------------------------------------------------------
+// Snapshots — serialise a scope's database so it can be restored without
+// re-parsing every CSV.
+// ---------------------------------------------------------------------------
+
+export function exportDb(scope: DbScope): {
+  data: Uint8Array;
+  tables: Record<string, TableSchema>;
+} | null {
+  const db = getDbsMap().get(scopeKey(scope));
+  if (!db) {
+    return null;
+  }
+  return {
+    data: db.export(),
+    tables: Object.fromEntries(getTableSchemasMap(scope)),
+  };
+}
+
+export async function importDb(
+  scope: DbScope,
+  data: Uint8Array,
+  tables: Record<string, TableSchema>,
+): Promise<void> {
+  const sqlJs = await getSqlJs();
+  const imported = new sqlJs.Database(data);
+
+  resetDb(scope);
+  getDbsMap().set(scopeKey(scope), imported);
+
+  const tableSchemas = getTableSchemasMap(scope);
+  for (const [tableName, schema] of Object.entries(tables)) {
+    tableSchemas.set(tableName, schema);
   }
-  getTableSchemasMap().clear();
 }
 
 // ---------------------------------------------------------------------------
@@ -150,6 +217,7 @@ export function sanitizeTableName(fileName: string): string {
 // ---------------------------------------------------------------------------
 
 export async function loadCsvIntoDb(
+  scope: DbScope,
   csvContent: string,
   tableName: string,
 ): Promise<{
@@ -157,8 +225,8 @@ export async function loadCsvIntoDb(
   columns: { name: string; type: string }[];
   rowCount: number;
 }> {
-  const database = await getDb();
-  const tableSchemas = getTableSchemasMap();
+  const database = await getDb(scope);
+  const tableSchemas = getTableSchemasMap(scope);
 
   // Parse CSV
   const parsed = Papa.parse(csvContent, {
@@ -213,7 +281,8 @@ export async function loadCsvIntoDb(
     columns.push({ name: sanitizedName, type: sqlType, rawName: rawHeader });
   }
 
-  // Drop table if it already exists
+  // Drop table if it already exists (or a view a file name now clashes with)
+  database.run(`DROP VIEW IF EXISTS "${tableName}"`);
   database.run(`DROP TABLE IF EXISTS "${tableName}"`);
 
   // Create table
@@ -269,19 +338,160 @@ export async function loadCsvIntoDb(
   };
 }
 
+// ---------------------------------------------------------------------------
+// Derived columns — values computed from a loaded table (e.g. transaction
+// categories) and written back into it.
+// ---------------------------------------------------------------------------
+
+export interface DerivedColumn {
+  name: string;
+  type: string;
+  /** Shown to the LLM next to the column; see TableSchema.columnNotes. */
+  note?: string;
+}
+
+/**
+ * Add the columns to a loaded table if they are missing, then set them row
+ * by row. `values` maps a rowid to one value per column; rows it does not
+ * list keep their current values.
+ */
+export async function writeDerivedColumns(
+  scope: DbScope,
+  tableName: string,
+  columns: DerivedColumn[],
+  values: Map<number, (string | number | null)[]>,
+): Promise<TableSchema> {
+  const database = await getDb(scope);
+  const tableSchemas = getTableSchemasMap(scope);
+  const schema = tableSchemas.get(tableName);
+  if (!schema) {
+    throw new Error(`Table "${tableName}" is not loaded`);
+  }
+
+  const added = columns.filter(
+    (col) => !schema.columns.some((c) => c.name === col.name),
+  );
+  for (const col of added) {
+    database.run(
+      `ALTER TABLE "${tableName}" ADD COLUMN "${col.name}" ${col.type}`,
+    );
+  }
+
+  const assignments = columns.map((col) => `"${col.name}" = ?`).join(", ");
+  database.run("BEGIN TRANSACTION");
+  try {
+    const stmt = database.prepare(
+      `UPDATE "${tableName}" SET ${assignments} WHERE rowid = ?`,
+    );
+    for (const [rowid, rowValues] of values) {
+      stmt.run([...rowValues, rowid]);
+    }
+    stmt.free();
+    database.run("COMMIT");
+  } catch (error) {
+    database.run("ROLLBACK");
+    throw error;
+  }
+
+  const notes = { ...schema.columnNotes };
+  for (const col of columns) {
+    if (col.note) notes[col.name] = col.note;
+  }
+  const updated: TableSchema = {
+    ...schema,
+    columns: [
+      ...schema.columns,
+      ...added.map((c) => ({ name: c.name, type: c.type })),
+    ],
+    columnNotes: notes,
+  };
+  tableSchemas.set(tableName, updated);
+  return updated;
+}
+
+/**
+ * Attach LLM-facing notes to columns of a loaded table (see
+ * TableSchema.columnNotes). Notes for unknown columns are ignored.
+ */
+export function setColumnNotes(
+  scope: DbScope,
+  tableName: string,
+  notes: Partial<Record<string, string>>,
+): void {
+  const tableSchemas = getTableSchemasMap(scope);
+  const schema = tableSchemas.get(tableName);
+  if (!schema) return;
+
+  const columnNotes = { ...schema.columnNotes };
+  for (const [column, note] of Object.entries(notes)) {
+    if (note && schema.columns.some((c) => c.name === column)) {
+      columnNotes[column] = note;
+    }
+  }
+  tableSchemas.set(tableName, { ...schema, columnNotes });
+}
+
+// ---------------------------------------------------------------------------
+// Views — derived, queryable tables over the loaded ones (e.g. the
+// per-customer transactions view). They are part of the database, so
+// snapshots carry them.
+// ---------------------------------------------------------------------------
+
+/**
+ * Create or replace a view. `columns` gives the types and LLM notes for the
+ * schema map, in the order the query selects them.
+ */
+export async function createView(
+  scope: DbScope,
+  viewName: string,
+  selectSql: string,
+  columns: DerivedColumn[],
+): Promise<TableSchema> {
+  const database = await getDb(scope);
+  const tableSchemas = getTableSchemasMap(scope);
+
+  database.run(`DROP VIEW IF EXISTS "${viewName}"`);
+  database.run(`CREATE VIEW "${viewName}" AS ${selectSql}`);
+
+  const count = database.exec(`SELECT COUNT(*) FROM "${viewName}"`);
+  const notes: Record<string, string> = {};
+  for (const col of columns) {
+    if (col.note) notes[col.name] = col.note;
+  }
+
+  const schema: TableSchema = {
+    columns: columns.map((c) => ({ name: c.name, type: c.type })),
+    rowCount: Number(count[0]?.values[0]?.[0] ?? 0),
+    columnNotes: notes,
+    view: true,
+  };
+  // Re-insert so the view is listed after the tables it reads from
+  tableSchemas.delete(viewName);
+  tableSchemas.set(viewName, schema);
+  return schema;
+}
+
+export async function dropView(
+  scope: DbScope,
+  viewName: string,
+): Promise<void> {
+  const database = await getDb(scope);
+  database.run(`DROP VIEW IF EXISTS "${viewName}"`);
+  if (getTableSchemasMap(scope).get(viewName)?.view) {
+    getTableSchemasMap(scope).delete(viewName);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Schema introspection
 // ---------------------------------------------------------------------------
 
-export function getTableSchemas(): Map<
-  string,
-  { columns: { name: string; type: string }[]; rowCount: number }
-> {
-  return getTableSchemasMap();
+export function getTableSchemas(scope: DbScope): Map<string, TableSchema> {
+  return getTableSchemasMap(scope);
 }
 
-export function getSchemaDescription(): string {
-  const tableSchemas = getTableSchemasMap();
+export function getSchemaDescription(scope: DbScope): string {
+  const tableSchemas = getTableSchemasMap(scope);
   if (tableSchemas.size === 0) {
     return "No tables loaded.";
   }
@@ -289,7 +499,10 @@ export function getSchemaDescription(): string {
   const parts: string[] = [];
   for (const [tableName, schema] of tableSchemas) {
     const colDescs = schema.columns
-      .map((c) => `  "${c.name}" ${c.type}`)
+      .map((c) => {
+        const note = schema.columnNotes?.[c.name];
+        return `  "${c.name}" ${c.type}${note ? ` -- ${note}` : ""}`;
+      })
       .join(",\n");
     parts.push(`Table "${tableName}" (${schema.rowCount} rows):\n${colDescs}`);
   }
@@ -301,9 +514,10 @@ export function getSchemaDescription(): string {
 // ---------------------------------------------------------------------------
 
 export async function executeQuery(
+  scope: DbScope,
   sql: string,
 ): Promise<{ columns: string[]; rows: (string | number | null)[][] }> {
-  const database = await getDb();
+  const database = await getDb(scope);
   try {
     const results = database.exec(sql);
     if (results.length === 0) {
@@ -321,9 +535,26 @@ export async function executeQuery(
   }
 }
 
+/**
+ * Run an already validated read-only query (see lib/sql-guard.ts) from an
+ * untrusted source — the SQL workbench or the LLM — on a copy of the scope's
+ * database in a worker thread (lib/query-sandbox.ts), stopping after
+ * `maxRows` rows. A query that runs past the time limit is killed and fails
+ * instead of returning a partial result.
+ */
+export async function executeReadOnlyQuery(
+  scope: DbScope,
+  sql: string,
+  limits: SandboxLimits,
+): Promise<SandboxResult> {
+  const database = await getDb(scope);
+  return runSandboxedQuery(database.export(), sql, limits);
+}
+
 export async function getSampleRows(
+  scope: DbScope,
   tableName: string,
   limit: number = 5,
 ): Promise<{ columns: string[]; rows: (string | number | null)[][] }> {
-  return executeQuery(`SELECT * FROM "${tableName}" LIMIT ${limit}`);
+  return executeQuery(scope, `SELECT * FROM "${tableName}" LIMIT ${limit}`);
 }
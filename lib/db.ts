@@ -20,3 +20,7 @@ export const db = drizzle(client, {
   },
   logger: process.env.NODE_ENV === "development",
 });
+
+/** A transaction opened with db.transaction(), or the db itself. */
+export type DbExecutor =
+  typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
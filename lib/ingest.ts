@@ -0,0 +1,137 @@
+import Papa from "papaparse";
+import { loadCsvIntoDb, setColumnNotes, type DbScope } from "@/lib/csv-db";
+import { categorizeLoadedTable } from "@/lib/category-rules";
+import { refreshTransactionsView } from "@/lib/transactions";
+import {
+  CANONICAL_COLUMN_NOTES,
+  normalizeStatement,
+  rawTableNameFor,
+  type MappingReport,
+} from "@/lib/statement-schema";
+
+// ---------------------------------------------------------------------------
+// CSV ingest for the analytics DB. Bank statements are mapped onto the
+// canonical schema (lib/statement-schema.ts) and loaded under the file's
+// table name, with the file as uploaded kept alongside (rawTableNameFor).
+// A converted PDF's CSV arrives already normalized by the pdf-processor.
+// Anything else is loaded as-is. Every path ends with categorization and a
+// refresh of the customer's transactions view.
+// ---------------------------------------------------------------------------
+
+export interface IngestResult {
+  tableName: string;
+  columns: { name: string; type: string }[];
+  rowCount: number;
+  /** Table holding the file as uploaded, when it was normalized. */
+  rawTableName: string | null;
+  report: MappingReport;
+}
+
+/** The pdf-processor's normalization of a CSV it generated. */
+export interface PrenormalizedCsv {
+  /** Canonical CSV; null when the file was not recognized. */
+  csv: string | null;
+  report: MappingReport;
+}
+
+function parseRecords(csvContent: string) {
+  return Papa.parse<Record<string, string>>(csvContent, {
+    header: true,
+    skipEmptyLines: true,
+    dynamicTyping: false,
+  });
+}
+
+/**
+ * The processor names rows after the CSV's R2 key; label them with the file
+ * name the dashboard shows instead. The CSV comes back null when there are no
+ * rows to load.
+ */
+function relabelSourceFile(
+  prenormalized: PrenormalizedCsv,
+  sourceFile: string,
+): { csv: string | null; report: MappingReport } {
+  const report: MappingReport = {
+    ...prenormalized.report,
+    sourceFile,
+    mappings: prenormalized.report.mappings.map((mapping) =>
+      mapping.canonical === "source_file"
+        ? { ...mapping, note: sourceFile }
+        : mapping,
+    ),
+  };
+  if (!report.recognized || !prenormalized.csv) {
+    return { csv: null, report };
+  }
+
+  const parsed = parseRecords(prenormalized.csv);
+  const fields = parsed.meta.fields ?? [];
+  if (parsed.data.length === 0) {
+    return { csv: null, report };
+  }
+  const csv = Papa.unparse({
+    fields,
+    data: parsed.data.map((row) =>
+      fields.map((field) =>
+        field === "source_file" ? sourceFile : row[field],
+      ),
+    ),
+  });
+  return { csv, report };
+}
+
+export async function ingestCsv(
+  scope: DbScope,
+  csvContent: string,
+  tableName: string,
+  sourceFile: string,
+  prenormalized?: PrenormalizedCsv,
+): Promise<IngestResult> {
+  let canonicalCsv: string | null;
+  let report: MappingReport;
+  if (prenormalized) {
+    ({ csv: canonicalCsv, report } = relabelSourceFile(
+      prenormalized,
+      sourceFile,
+    ));
+  } else {
+    const parsed = parseRecords(csvContent);
+    const normalized = normalizeStatement(
+      parsed.meta.fields ?? [],
+      parsed.data,
+      sourceFile,
+    );
+    report = normalized.report;
+    canonicalCsv =
+      normalized.report.recognized && normalized.rows.length > 0
+        ? Papa.unparse({ fields: normalized.columns, data: normalized.rows })
+        : null;
+  }
+
+  if (!canonicalCsv) {
+    const loaded = await loadCsvIntoDb(scope, csvContent, tableName);
+    const categorized = await categorizeLoadedTable(scope, tableName);
+    await refreshTransactionsView(scope);
+    return {
+      ...loaded,
+      columns: categorized?.columns ?? loaded.columns,
+      rawTableName: null,
+      report,
+    };
+  }
+
+  const raw = rawTableNameFor(tableName);
+  await loadCsvIntoDb(scope, csvContent, raw);
+
+  const loaded = await loadCsvIntoDb(scope, canonicalCsv, tableName);
+  setColumnNotes(scope, tableName, CANONICAL_COLUMN_NOTES);
+  const categorized = await categorizeLoadedTable(scope, tableName);
+  await refreshTransactionsView(scope);
+
+  return {
+    ...loaded,
+    columns: categorized?.columns ?? loaded.columns,
+    rawTableName: raw,
+    report,
+  };
+}
@@ -0,0 +1,313 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { logger } from "./logger";
+
+// ---------------------------------------------------------------------------
+// LLM providers behind lib/llm.ts. LLM_PROVIDER picks one:
+//   gemini  (default) — Google Gemini via @google/generative-ai
+//   openai  — any OpenAI-compatible /chat/completions endpoint (OpenAI,
+//             llama.cpp server, Ollama, vLLM, ...)
+//   fixture — replays recorded responses from LLM_FIXTURES_DIR, for
+//             offline runs and CI. With LLM_FIXTURES_RECORD=gemini|openai,
+//             missing fixtures are fetched from that provider and saved.
+// ---------------------------------------------------------------------------
+
+/** What a call is for; used to key fixtures and in error messages. */
+export type LlmPurpose =
+  "sql" | "sql-retry" | "chart" | "answer" | "categorize";
+
+export interface LlmRequest {
+  purpose: LlmPurpose;
+  systemPrompt: string;
+  userMessage: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask for a raw JSON response (no markdown fencing). */
+  jsonMode?: boolean;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  generateText(request: LlmRequest): Promise<string>;
+  /** Yield the response as it is produced. */
+  streamText(request: LlmRequest): AsyncGenerator<string>;
+}
+
+// ---- Gemini ----
+
+function createGeminiProvider(): LlmProvider {
+  const modelName = process.env.GEMINI_MODEL || "gemini-2.5-pro-preview-06-05";
+
+  const getModel = (request: LlmRequest) => {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error(
+        "GEMINI_API_KEY environment variable is not set. Please add it to your .env.local file.",
+      );
+    }
+
+    const generationConfig: Record<string, unknown> = {
+      temperature: request.temperature ?? 0,
+      maxOutputTokens: request.maxTokens ?? 1000,
+    };
+    // When jsonMode is true, tell Gemini to return raw JSON — no markdown fencing
+    if (request.jsonMode) {
+      generationConfig.responseMimeType = "application/json";
+    }
+
+    return new GoogleGenerativeAI(apiKey).getGenerativeModel({
+      model: modelName,
+      generationConfig,
+      systemInstruction: request.systemPrompt,
+    });
+  };
+
+  return {
+    name: `gemini:${modelName}`,
+
+    async generateText(request) {
+      const result = await getModel(request).generateContent(
+        request.userMessage,
+      );
+      const text = result.response.text();
+      if (!text) {
+        throw new Error("Gemini returned an empty response");
+      }
+      return text;
+    },
+
+    async *streamText(request) {
+      const result = await getModel(request).generateContentStream(
+        request.userMessage,
+      );
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) {
+          yield text;
+        }
+      }
+    },
+  };
+}
+
+// ---- OpenAI-compatible ----
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string }; message?: { content?: string } }[];
+}
+
+function createOpenAiProvider(): LlmProvider {
+  const baseUrl = (
+    process.env.OPENAI_BASE_URL || "https://api.openai.com/v1"
+  ).replace(/\/+$/, "");
+  const model = process.env.OPENAI_MODEL;
+  if (!model) {
+    throw new Error(
+      "OPENAI_MODEL environment variable is not set (required when LLM_PROVIDER=openai).",
+    );
+  }
+
+  const post = async (request: LlmRequest, stream: boolean) => {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    // Local servers usually don't need a key
+    if (process.env.OPENAI_API_KEY) {
+      headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`;
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model,
+        temperature: request.temperature ?? 0,
+        max_tokens: request.maxTokens ?? 1000,
+        stream,
+        ...(request.jsonMode
+          ? { response_format: { type: "json_object" } }
+          : {}),
+        messages: [
+          { role: "system", content: request.systemPrompt },
+          { role: "user", content: request.userMessage },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(
+        `LLM endpoint returned ${response.status}: ${body.substring(0, 300)}`,
+      );
+    }
+    return response;
+  };
+
+  return {
+    name: `openai:${model}@${baseUrl}`,
+
+    async generateText(request) {
+      const response = await post(request, false);
+      const json = (await response.json()) as ChatCompletionChunk;
+      const text = json.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new Error("LLM endpoint returned an empty response");
+      }
+      return text;
+    },
+
+    async *streamText(request) {
+      const response = await post(request, true);
+      if (!response.body) {
+        throw new Error("LLM endpoint returned no response body");
+      }
+
+      // Server-sent events: `data: {...}` lines, terminated by `data: [DONE]`
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      for (;;) {
+        const { value, done } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+
+        const lines = buffer.split("\n");
+        buffer = done ? "" : (lines.pop() ?? "");
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, "").trim();
+          if (!line.startsWith("data:") || !data || data === "[DONE]") {
+            continue;
+          }
+          const chunk = JSON.parse(data) as ChatCompletionChunk;
+          const text = chunk.choices?.[0]?.delta?.content;
+          if (text) {
+            yield text;
+          }
+        }
+
+        if (done) break;
+      }
+    },
+  };
+}
+
+// ---- Fixtures ----
+
+export interface LlmFixture {
+  purpose: LlmPurpose;
+  userMessage: string;
+  response: string;
+}
+
+/**
+ * Fixture file name for a request. The key covers the full prompt, so a
+ * prompt change shows up as a missing fixture instead of a stale answer.
+ */
+export function fixtureFileName(request: LlmRequest): string {
+  const hash = createHash("sha256")
+    .update(
+      JSON.stringify([
+        request.purpose,
+        request.systemPrompt,
+        request.userMessage,
+      ]),
+    )
+    .digest("hex")
+    .slice(0, 16);
+  return `${request.purpose}-${hash}.json`;
+}
+
+function createFixtureProvider(): LlmProvider {
+  const dir = process.env.LLM_FIXTURES_DIR;
+  if (!dir) {
+    throw new Error(
+      "LLM_FIXTURES_DIR environment variable is not set (required when LLM_PROVIDER=fixture).",
+    );
+  }
+
+  // Record mode: fall through to a live provider and save what it returns
+  const recordFrom = process.env.LLM_FIXTURES_RECORD?.toLowerCase();
+  const recorder = recordFrom ? createLiveProvider(recordFrom) : null;
+
+  const load = async (request: LlmRequest): Promise<string> => {
+    const file = path.join(dir, fixtureFileName(request));
+    let raw: string;
+    try {
+      raw = await readFile(file, "utf-8");
+    } catch {
+      if (recorder) {
+        return record(recorder, request, file);
+      }
+      throw new Error(
+        `No LLM fixture for this ${request.purpose} request (expected ${file}). ` +
+          "Set LLM_FIXTURES_RECORD to record it.",
+      );
+    }
+    return (JSON.parse(raw) as LlmFixture).response;
+  };
+
+  const record = async (
+    live: LlmProvider,
+    request: LlmRequest,
+    file: string,
+  ) => {
+    const response = await live.generateText(request);
+    const fixture: LlmFixture = {
+      purpose: request.purpose,
+      userMessage: request.userMessage,
+      response,
+    };
+    await mkdir(dir, { recursive: true });
+    await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`, "utf-8");
+    logger.info("Recorded LLM fixture", { file, provider: live.name });
+    return response;
+  };
+
+  return {
+    name: recorder
+      ? `fixture:${dir} (recording from ${recorder.name})`
+      : `fixture:${dir}`,
+
+    generateText: load,
+
+    // Fixtures hold the whole response, so a stream is a single chunk
+    async *streamText(request) {
+      yield await load(request);
+    },
+  };
+}
+
+// ---- Selection ----
+
+interface LlmGlobal {
+  __llmProvider?: LlmProvider;
+}
+
+const g = globalThis as unknown as LlmGlobal;
+
+/**
+ * The provider selected by LLM_PROVIDER, created once per process.
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!g.__llmProvider) {
+    const name = (process.env.LLM_PROVIDER || "gemini").toLowerCase();
+    g.__llmProvider =
+      name === "fixture" ? createFixtureProvider() : createLiveProvider(name);
+  }
+  return g.__llmProvider;
+}
+
+function createLiveProvider(name: string): LlmProvider {
+  switch (name) {
+    case "gemini":
+      return createGeminiProvider();
+    case "openai":
+      return createOpenAiProvider();
+    default:
+      throw new Error(
+        `Unknown LLM provider "${name}". Use gemini, openai or fixture.`,
+      );
+  }
+}
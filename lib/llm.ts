@@ -1,17 +1,15 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { getSchemaDescription, getSampleRows, getTableSchemas } from "./csv-db";
-
-const getClient = () => {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error(
-      "GEMINI_API_KEY environment variable is not set. Please add it to your .env.local file.",
-    );
-  }
-  return new GoogleGenerativeAI(apiKey);
-};
-
-const MODEL = process.env.GEMINI_MODEL || "gemini-2.5-pro-preview-06-05";
+import {
+  getSchemaDescription,
+  getSampleRows,
+  getTableSchemas,
+  type DbScope,
+} from "./csv-db";
+import {
+  formatConversationHistory,
+  type ConversationTurn,
+} from "./conversation";
+import { getLlmProvider, type LlmPurpose } from "./llm-provider";
+import { findStatementTables, TRANSACTIONS_VIEW } from "./transactions";
 
 export interface GeneratedQuery {
   sql: string;
@@ -37,14 +35,14 @@ export interface QueryAndChartResult {
 // columns, types, and sample data so it can write correct SQL.
 // ---------------------------------------------------------------------------
 
-async function buildSchemaContext(): Promise<string> {
-  const schemaDesc = getSchemaDescription();
-  const schemas = getTableSchemas();
+async function buildSchemaContext(scope: DbScope): Promise<string> {
+  const schemaDesc = getSchemaDescription(scope);
+  const schemas = getTableSchemas(scope);
 
   const sampleParts: string[] = [];
   for (const [tableName] of schemas) {
     try {
-      const sample = await getSampleRows(tableName, 3);
+      const sample = await getSampleRows(scope, tableName, 3);
       if (sample.rows.length > 0) {
         const header = sample.columns.join(" | ");
         const separator = sample.columns.map(() => "---").join(" | ");
@@ -62,7 +60,19 @@ async function buildSchemaContext(): Promise<string> {
     }
   }
 
-  return `${schemaDesc}\n\n${sampleParts.join("\n\n")}`;
+  return `${buildTransactionsGuidance(scope)}${schemaDesc}\n\n${sampleParts.join("\n\n")}`;
+}
+
+/**
+ * Point the model at the transactions view for anything spanning more than
+ * one statement — customers usually upload a year of monthly statements.
+ */
+function buildTransactionsGuidance(scope: DbScope): string {
+  const view = getTableSchemas(scope).get(TRANSACTIONS_VIEW);
+  if (!view?.view) return "";
+
+  const sources = findStatementTables(scope);
+  return `NOTE: "${TRANSACTIONS_VIEW}" is a view of every statement (${sources.length} file(s): ${sources.map((t) => `"${t}"`).join(", ")}) in one table, with overlapping statement periods de-duplicated and a "source_file" column. Use "${TRANSACTIONS_VIEW}" for questions about the customer's transactions overall or over any period (yearly totals, month-by-month trends, top merchants). Only query a single statement table when the question is about that specific file.\n\n`;
 }
 
 /**
@@ -70,8 +80,8 @@ async function buildSchemaContext(): Promise<string> {
  * name in the database. This is injected into the prompt so the LLM has
  * zero ambiguity about what identifiers are valid.
  */
-function buildExactNamesList(): string {
-  const schemas = getTableSchemas();
+function buildExactNamesList(scope: DbScope): string {
+  const schemas = getTableSchemas(scope);
   if (schemas.size === 0) return "No tables loaded.";
 
   const parts: string[] = [];
@@ -85,12 +95,12 @@ function buildExactNamesList(): string {
 /**
  * Collect every valid table and column name for post-generation validation.
  */
-function collectValidIdentifiers(): {
+function collectValidIdentifiers(scope: DbScope): {
   tables: Set<string>;
   columns: Set<string>;
   tableColumns: Map<string, Set<string>>;
 } {
-  const schemas = getTableSchemas();
+  const schemas = getTableSchemas(scope);
   const tables = new Set<string>();
   const columns = new Set<string>();
   const tableColumns = new Map<string, Set<string>>();
@@ -109,10 +119,11 @@ function collectValidIdentifiers(): {
 }
 
 // ---------------------------------------------------------------------------
-// Gemini API caller
+// LLM callers — the provider is picked by LLM_PROVIDER (see llm-provider.ts)
 // ---------------------------------------------------------------------------
 
-async function callGemini(
+async function callLlm(
+  purpose: LlmPurpose,
   systemPrompt: string,
   userMessage: string,
   options: {
@@ -121,35 +132,33 @@ async function callGemini(
     jsonMode?: boolean;
   } = {},
 ): Promise<string> {
-  const { temperature = 0, maxTokens = 1000, jsonMode = false } = options;
-
-  const client = getClient();
-
-  const generationConfig: Record<string, unknown> = {
-    temperature,
-    maxOutputTokens: maxTokens,
-  };
-
-  // When jsonMode is true, tell Gemini to return raw JSON — no markdown fencing
-  if (jsonMode) {
-    generationConfig.responseMimeType = "application/json";
-  }
-
-  const model = client.getGenerativeModel({
-    model: MODEL,
-    generationConfig,
-    systemInstruction: systemPrompt,
+  return getLlmProvider().generateText({
+    purpose,
+    systemPrompt,
+    userMessage,
+    ...options,
   });
+}
 
-  const result = await model.generateContent(userMessage);
-  const response = result.response;
-  const text = response.text();
-
-  if (!text) {
-    throw new Error("Gemini returned an empty response");
-  }
-
-  return text;
+/**
+ * Like callLlm, but yields the response text chunk by chunk as the model
+ * produces it.
+ */
+function streamLlm(
+  purpose: LlmPurpose,
+  systemPrompt: string,
+  userMessage: string,
+  options: {
+    temperature?: number;
+    maxTokens?: number;
+  } = {},
+): AsyncGenerator<string> {
+  return getLlmProvider().streamText({
+    purpose,
+    systemPrompt,
+    userMessage,
+    ...options,
+  });
 }
 
 // ---------------------------------------------------------------------------
@@ -234,7 +243,7 @@ function unescapeSql(sql: string): string {
 /**
  * Levenshtein distance for fuzzy matching column/table names.
  */
-function levenshtein(a: string, b: string): number {
+export function levenshtein(a: string, b: string): number {
   const la = a.length;
   const lb = b.length;
   const dp: number[][] = Array.from({ length: la + 1 }, () =>
@@ -258,7 +267,7 @@ function levenshtein(a: string, b: string): number {
  * Find the closest match for a name from a set of valid names.
  * Returns the match if the distance is within the threshold, otherwise null.
  */
-function findClosestMatch(
+export function findClosestMatch(
   name: string,
   validNames: Set<string>,
   maxDistance: number = 3,
@@ -298,7 +307,7 @@ function findClosestMatch(
  * Automatically fix common SQLite-incompatible syntax and identifier issues
  * in a generated SQL query. This runs BEFORE the query hits the database.
  */
-function validateAndFixSql(sql: string): string {
+export function validateAndFixSql(sql: string): string {
   let fixed = sql;
 
   // 1. Replace ILIKE with LOWER() + LIKE
@@ -407,8 +416,8 @@ function validateAndFixSql(sql: string): string {
  * Fix column and table name references in SQL to match actual DB identifiers.
  * Handles case mismatches and close typos.
  */
-function fixIdentifierReferences(sql: string): string {
-  const { tables, columns } = collectValidIdentifiers();
+function fixIdentifierReferences(scope: DbScope, sql: string): string {
+  const { tables, columns } = collectValidIdentifiers(scope);
   let fixed = sql;
 
   // Find all double-quoted identifiers and try to fix them
@@ -447,7 +456,7 @@ function fixIdentifierReferences(sql: string): string {
 /**
  * Full pre-execution SQL pipeline: unescape, strip fences, fix syntax, fix names.
  */
-function preprocessSql(rawSql: string): string {
+function preprocessSql(scope: DbScope, rawSql: string): string {
   let sql = rawSql;
 
   // Strip markdown fences
@@ -463,7 +472,7 @@ function preprocessSql(rawSql: string): string {
   sql = validateAndFixSql(sql);
 
   // Fix identifier references (typos, case issues)
-  sql = fixIdentifierReferences(sql);
+  sql = fixIdentifierReferences(scope, sql);
 
   return sql;
 }
@@ -472,11 +481,30 @@ function preprocessSql(rawSql: string): string {
 // SQL Generation
 // ---------------------------------------------------------------------------
 
+/**
+ * Prompt section with the earlier turns of the conversation, trimmed to the
+ * history token budget. Empty for the first question.
+ */
+function buildConversationSection(history: ConversationTurn[]): string {
+  const formatted = formatConversationHistory(history);
+  if (!formatted) return "";
+
+  return `
+═══════════════════════════════════════════════════════════════
+PREVIOUS CONVERSATION (oldest first; the new question may refer to it):
+═══════════════════════════════════════════════════════════════
+${formatted}
+`;
+}
+
 export async function generateSqlQuery(
+  scope: DbScope,
   userQuestion: string,
+  history: ConversationTurn[] = [],
 ): Promise<GeneratedQuery> {
-  const schemaContext = await buildSchemaContext();
-  const exactNames = buildExactNamesList();
+  const schemaContext = await buildSchemaContext(scope);
+  const exactNames = buildExactNamesList(scope);
+  const conversation = buildConversationSection(history);
 
   const systemPrompt = `You are an expert SQL analyst. You are given a database schema with sample data and a user's question. Your job is to generate a precise SQLite-compatible SQL query that answers the question.
 
@@ -524,6 +552,8 @@ CRITICAL RULES (violations will cause errors):
 
 11. The table names in the user's question may not exactly match the database table names. Use the closest matching table from the schema.
 
+12. The question may be a follow-up to the previous conversation (e.g. "now break that down by month", "only for 2023"). In that case build on the most recent relevant SQL rather than starting from scratch.
+
 ═══════════════════════════════════════════════════════════════
 EXACT VALID TABLE AND COLUMN NAMES (use these EXACTLY):
 ═══════════════════════════════════════════════════════════════
@@ -533,7 +563,7 @@ ${exactNames}
 DATABASE SCHEMA WITH TYPES:
 ═══════════════════════════════════════════════════════════════
 ${schemaContext}
-
+${conversation}
 ═══════════════════════════════════════════════════════════════
 RESPONSE FORMAT:
 ═══════════════════════════════════════════════════════════════
@@ -546,7 +576,7 @@ SELECT "col1", "col2" FROM "my_table" WHERE "col1" > 10 ORDER BY "col1" DESC LIM
 ---EXPLANATION---
 This query selects col1 and col2 from my_table where col1 is greater than 10, ordered descending, limited to 100 rows.`;
 
-  const content = await callGemini(systemPrompt, userQuestion, {
+  const content = await callLlm("sql", systemPrompt, userQuestion, {
     temperature: 0,
     maxTokens: 1500,
     jsonMode: false,
@@ -584,7 +614,7 @@ This query selects col1 and col2 from my_table where col1 is greater than 10, or
     }
 
     // Run the full preprocessing pipeline
-    sql = preprocessSql(sql);
+    sql = preprocessSql(scope, sql);
 
     if (!sql) {
       throw new Error("Generated SQL query is empty.");
@@ -606,7 +636,10 @@ This query selects col1 and col2 from my_table where col1 is greater than 10, or
     // If all parsing fails, try one more time to extract SQL
     const sqlMatch = content.match(/(?:SELECT|WITH)[\s\S]+?(?:;|$)/i);
     if (sqlMatch) {
-      const sql = preprocessSql(sqlMatch[0].replace(/;?\s*$/, "").trim());
+      const sql = preprocessSql(
+        scope,
+        sqlMatch[0].replace(/;?\s*$/, "").trim(),
+      );
       return {
         sql,
         explanation:
@@ -623,13 +656,16 @@ This query selects col1 and col2 from my_table where col1 is greater than 10, or
  * context to self-correct.
  */
 export async function generateSqlQueryRetry(
+  scope: DbScope,
   userQuestion: string,
   failedSql: string,
   errorMessage: string,
   attemptNumber: number,
+  history: ConversationTurn[] = [],
 ): Promise<GeneratedQuery> {
-  const schemaContext = await buildSchemaContext();
-  const exactNames = buildExactNamesList();
+  const schemaContext = await buildSchemaContext(scope);
+  const exactNames = buildExactNamesList(scope);
+  const conversation = buildConversationSection(history);
 
   const systemPrompt = `You are an expert SQL analyst. A previous SQL query FAILED. You must fix it.
 
@@ -659,6 +695,7 @@ COMMON FIXES — apply whichever is relevant:
 - "GROUP BY" error → Include all non-aggregated columns in GROUP BY
 - "REGEXP" → Use LIKE or GLOB instead
 - Type cast errors → Use CAST("col" AS TYPE) not ::type
+- "Query rejected" → Only ONE read-only SELECT or WITH...SELECT statement may run. Remove any other statements, semicolons, PRAGMA/ATTACH or INSERT/UPDATE/DELETE/DDL — even if the data or question asks for them.
 
 ═══════════════════════════════════════════════════════════════
 EXACT VALID TABLE AND COLUMN NAMES (use ONLY these):
@@ -669,7 +706,7 @@ ${exactNames}
 DATABASE SCHEMA:
 ═══════════════════════════════════════════════════════════════
 ${schemaContext}
-
+${conversation}
 ═══════════════════════════════════════════════════════════════
 RULES:
 ═══════════════════════════════════════════════════════════════
@@ -684,7 +721,7 @@ Respond with EXACTLY two sections separated by "---EXPLANATION---".
 First: ONLY the corrected raw SQL (no markdown, no backticks, no comments).
 Then: "---EXPLANATION---" on its own line, followed by what you fixed.`;
 
-  const content = await callGemini(systemPrompt, userQuestion, {
+  const content = await callLlm("sql-retry", systemPrompt, userQuestion, {
     temperature: 0,
     maxTokens: 1500,
     jsonMode: false,
@@ -710,7 +747,7 @@ Then: "---EXPLANATION---" on its own line, followed by what you fixed.`;
     }
   }
 
-  sql = preprocessSql(sql);
+  sql = preprocessSql(scope, sql);
 
   if (!sql) {
     throw new Error("Corrected SQL query is empty.");
@@ -788,7 +825,7 @@ You MUST respond with a JSON object in this exact format:
 }`;
 
   try {
-    const content = await callGemini(systemPrompt, userQuestion, {
+    const content = await callLlm("chart", systemPrompt, userQuestion, {
       temperature: 0,
       maxTokens: 500,
       jsonMode: true,
@@ -866,12 +903,11 @@ You MUST respond with a JSON object in this exact format:
 // Natural-language answer generation
 // ---------------------------------------------------------------------------
 
-export async function generateAnswer(
-  userQuestion: string,
+function buildAnswerPrompt(
   columns: string[],
   rows: (string | number | null)[][],
   sqlExplanation: string,
-): Promise<string> {
+): string {
   // Build a preview of results
   const previewRows = rows.slice(0, 30);
   const header = columns.join(" | ");
@@ -880,7 +916,7 @@ export async function generateAnswer(
     .map((row) => row.map((v) => (v === null ? "NULL" : String(v))).join(" | "))
     .join("\n");
 
-  const systemPrompt = `You are a helpful data analyst. The user asked a question about their data, and a SQL query was run to get results. Provide a clear, concise natural language answer to the user's question based on the query results.
+  return `You are a helpful data analyst. The user asked a question about their data, and a SQL query was run to get results. Provide a clear, concise natural language answer to the user's question based on the query results.
 
 RULES:
 1. Be specific — mention actual numbers, names, values from the results.
@@ -896,9 +932,18 @@ Query Results:
 ${header}
 ${separator}
 ${dataStr}${rows.length > 30 ? `\n... and ${rows.length - 30} more rows` : ""}`;
+}
+
+export async function generateAnswer(
+  userQuestion: string,
+  columns: string[],
+  rows: (string | number | null)[][],
+  sqlExplanation: string,
+): Promise<string> {
+  const systemPrompt = buildAnswerPrompt(columns, rows, sqlExplanation);
 
   // NOTE: generateAnswer returns prose, NOT JSON — so jsonMode is false
-  const content = await callGemini(systemPrompt, userQuestion, {
+  const content = await callLlm("answer", systemPrompt, userQuestion, {
     temperature: 0.3,
     maxTokens: 500,
     jsonMode: false,
@@ -906,3 +951,90 @@ ${dataStr}${rows.length > 30 ? `\n... and ${rows.length - 30} more rows` : ""}`;
 
   return content || "Unable to generate an answer.";
 }
+
+/**
+ * Streaming variant of generateAnswer: yields the answer as it is written.
+ */
+export async function* streamAnswer(
+  userQuestion: string,
+  columns: string[],
+  rows: (string | number | null)[][],
+  sqlExplanation: string,
+): AsyncGenerator<string> {
+  const systemPrompt = buildAnswerPrompt(columns, rows, sqlExplanation);
+
+  yield* streamLlm("answer", systemPrompt, userQuestion, {
+    temperature: 0.3,
+    maxTokens: 500,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Transaction categorization fallback — used by lib/categorize.ts for
+// narrations the rule engine could not place.
+// ---------------------------------------------------------------------------
+
+export interface LlmCategorization {
+  merchant: string | null;
+  category: string;
+}
+
+/**
+ * Categorise statement narrations in one call. Returns one entry per input
+ * description, in order; entries the model skipped or answered with an
+ * unknown category are null.
+ */
+export async function categorizeTransactions(
+  descriptions: string[],
+  categories: readonly string[],
+): Promise<(LlmCategorization | null)[]> {
+  if (descriptions.length === 0) return [];
+
+  const systemPrompt = `You categorise bank statement transaction narrations (often Indian bank formats such as UPI/NEFT/IMPS/POS strings).
+
+For each numbered narration, identify:
+- "merchant": the counterparty or merchant as a short, human-readable name (e.g. "Swiggy", "Amazon", "Indian Oil"), or null if there is none (e.g. bank charges, interest).
+- "category": exactly one of: ${categories.map((c) => `"${c}"`).join(", ")}.
+
+Use "Other" when unsure. Do not invent categories.
+
+You MUST respond with a JSON object in this exact format:
+{
+  "results": [{ "index": 0, "merchant": "Swiggy", "category": "Food & Dining" }]
+}`;
+
+  const userMessage = descriptions
+    .map((description, index) => `${index}: ${description}`)
+    .join("\n");
+
+  const content = await callLlm("categorize", systemPrompt, userMessage, {
+    temperature: 0,
+    maxTokens: 4000,
+    jsonMode: true,
+  });
+
+  const parsed = JSON.parse(extractJson(content)) as {
+    results?: { index?: number; merchant?: unknown; category?: unknown }[];
+  };
+
+  const results: (LlmCategorization | null)[] = descriptions.map(() => null);
+  for (const item of parsed.results ?? []) {
+    if (
+      typeof item.index !== "number" ||
+      item.index < 0 ||
+      item.index >= descriptions.length ||
+      typeof item.category !== "string" ||
+      !categories.includes(item.category)
+    ) {
+      continue;
+    }
+    results[item.index] = {
+      merchant:
+        typeof item.merchant === "string" && item.merchant.trim()
+          ? item.merchant.trim()
+          : null,
+      category: item.category,
+    };
+  }
+  return results;
+}
@@ -0,0 +1,52 @@
+// ---------------------------------------------------------------------------
+// Structured logger for server code. In production (NODE_ENV=production)
+// each entry is one JSON line, like the pdf-processor's logger
+// (pdf-processor/src/lib/logger.ts); in development it is a readable line
+// with the extra fields after it.
+// ---------------------------------------------------------------------------
+
+type Severity = "INFO" | "WARNING" | "ERROR";
+
+const IS_PRODUCTION = process.env.NODE_ENV === "production";
+
+function write(
+  severity: Severity,
+  message: string,
+  extra?: Record<string, unknown>,
+): void {
+  const print =
+    severity === "ERROR"
+      ? console.error
+      : severity === "WARNING"
+        ? console.warn
+        : console.info;
+
+  if (IS_PRODUCTION) {
+    print(
+      JSON.stringify({
+        severity,
+        message,
+        timestamp: new Date().toISOString(),
+        ...extra,
+      }),
+    );
+  } else if (extra && Object.keys(extra).length > 0) {
+    print(`${severity.padEnd(7)} ${message}`, extra);
+  } else {
+    print(`${severity.padEnd(7)} ${message}`);
+  }
+}
+
+export const logger = {
+  info(message: string, extra?: Record<string, unknown>): void {
+    write("INFO", message, extra);
+  },
+
+  warn(message: string, extra?: Record<string, unknown>): void {
+    write("WARNING", message, extra);
+  },
+
+  error(message: string, extra?: Record<string, unknown>): void {
+    write("ERROR", message, extra);
+  },
+};
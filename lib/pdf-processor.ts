@@ -0,0 +1,145 @@
+// ---------------------------------------------------------------------------
+// Handing uploaded PDFs to the pdf-processor service. `/process` queues a
+// job and answers with its id straight away; the result arrives later on
+// the completion webhook (/api/webhook/pdf-complete).
+// ---------------------------------------------------------------------------
+
+/**
+ * URL the pdf-processor posts the result to. APP_URL must be reachable from
+ * the processor; without it, local Docker's host address is assumed.
+ */
+function callbackUrl(): string {
+  let appUrl = process.env.APP_URL;
+  if (!appUrl) {
+    appUrl = "http://host.docker.internal:3000";
+    console.warn(
+      `APP_URL not set, defaulting to ${appUrl} for PDF processor callback. Ensure you run docker with --add-host=host.docker.internal:host-gateway on Linux.`,
+    );
+  }
+  return `${appUrl}/api/webhook/pdf-complete`;
+}
+
+/**
+ * Queue a PDF in the pdf-processor. Returns the processor's job id, or null
+ * when PDF_PROCESSOR_URL is not configured. Throws when the processor
+ * cannot be reached or refuses the job.
+ *
+ * `freshScript` has the processor generate a new parser script instead of
+ * reusing the one registered for the PDF's layout.
+ */
+export async function queuePdfProcessing(pdf: {
+  key: string;
+  size: number;
+  fileId: number | null;
+  freshScript?: boolean;
+}): Promise<string | null> {
+  const pdfProcessorUrl = process.env.PDF_PROCESSOR_URL;
+  if (!pdfProcessorUrl) {
+    console.warn("PDF_PROCESSOR_URL not set, skipping pipeline trigger.");
+    return null;
+  }
+
+  const response = await fetch(pdfProcessorUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${process.env.R2_WEBHOOK_SECRET}`,
+    },
+    body: JSON.stringify({
+      object: {
+        key: pdf.key,
+        size: pdf.size,
+        eTag: "triggered-from-dashboard",
+      },
+      bucket: process.env.R2_BUCKET_NAME || "devsoc",
+      action: "PutObject",
+      eventTime: new Date().toISOString(),
+      // Pass fileId and callback URL for status updates
+      metadata: {
+        fileId: pdf.fileId,
+        callbackUrl: callbackUrl(),
+        freshScript: pdf.freshScript ?? false,
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => "");
+    throw new Error(
+      `PDF processor refused the job (${response.status}): ${text.slice(0, 200)}`,
+    );
+  }
+
+  const { jobId } = (await response.json()) as { jobId?: string };
+  return jobId ?? null;
+}
+
+// Progress of a job, as `GET /jobs/:id` returns it. Mirrors
+// pdf-processor/src/lib/progress.ts — keep the two in step.
+
+export type PdfJobStage =
+  | "starting"
+  | "analyzing"
+  | "matching_script"
+  | "executing"
+  | "verifying"
+  | "uploading"
+  | "finishing";
+
+export type PdfJobToolCall = {
+  tool: string;
+  startedAt: string;
+  durationMs: number | null;
+  status: "running" | "ok" | "error";
+  error: string | null;
+};
+
+export type PdfJobProgress = {
+  attempt: number;
+  stage: PdfJobStage;
+  label: string;
+  executions: number;
+  steps: number;
+  toolCalls: PdfJobToolCall[];
+  fastPath: boolean;
+  startedAt: string;
+  stageStartedAt: string;
+  updatedAt: string;
+};
+
+export type PdfJob = {
+  id: string;
+  pdfKey: string;
+  fileId: number | null;
+  status: "queued" | "running" | "completed" | "failed";
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string;
+  lastError: string | null;
+  progress: PdfJobProgress | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+};
+
+/**
+ * Look up a job in the pdf-processor. Returns null when PDF_PROCESSOR_URL is
+ * not configured or the processor does not know the job.
+ */
+export async function getPdfJob(jobId: string): Promise<PdfJob | null> {
+  const pdfProcessorUrl = process.env.PDF_PROCESSOR_URL;
+  if (!pdfProcessorUrl) return null;
+
+  const response = await fetch(
+    new URL(`/jobs/${encodeURIComponent(jobId)}`, pdfProcessorUrl),
+    {
+      headers: { Authorization: `Bearer ${process.env.R2_WEBHOOK_SECRET}` },
+      cache: "no-store",
+    },
+  );
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`PDF processor job lookup failed (${response.status})`);
+  }
+  return (await response.json()) as PdfJob;
+}
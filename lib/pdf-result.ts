@@ -0,0 +1,115 @@
+import { eq } from "drizzle-orm";
+import { db, type DbExecutor } from "@/lib/db";
+import { uploadedFileTable } from "@/lib/schema";
+import { downloadFromR2 } from "@/lib/r2";
+import { sanitizeTableName, type DbScope } from "@/lib/csv-db";
+import { ingestCsv, type PrenormalizedCsv } from "@/lib/ingest";
+import { parseMappingReport } from "@/lib/statement-schema";
+import { resolveCustomerScope } from "@/lib/analytics-scope";
+
+// ---------------------------------------------------------------------------
+// Loading a converted PDF's CSV into its customer's analytics DB. Runs from
+// the completion webhook for confident conversions, and from the review
+// screen once a user approves one that needed review.
+// ---------------------------------------------------------------------------
+
+type UploadedFileRecord = typeof uploadedFileTable.$inferSelect;
+
+/**
+ * Download the pdf-processor's normalization of a generated CSV, so it is
+ * loaded the way the processor checked it. Returns null for files converted
+ * before the processor uploaded one, or when its report is not usable; the
+ * CSV is then normalized on load instead.
+ */
+export async function downloadPrenormalizedCsv(
+  file: Pick<UploadedFileRecord, "normalizedCsvKey" | "mappingReportKey">,
+): Promise<PrenormalizedCsv | null> {
+  if (!file.mappingReportKey) {
+    return null;
+  }
+
+  const report = parseMappingReport(
+    JSON.parse(await downloadFromR2(file.mappingReportKey)),
+  );
+  if (!report) {
+    console.warn(
+      `Ignoring malformed mapping report ${file.mappingReportKey}, normalizing the CSV instead.`,
+    );
+    return null;
+  }
+  if (!report.recognized) {
+    return { csv: null, report };
+  }
+  if (!file.normalizedCsvKey) {
+    return null;
+  }
+  return { csv: await downloadFromR2(file.normalizedCsvKey), report };
+}
+
+/**
+ * Download the PDF's generated CSV, load it, and record it as a CSV file of
+ * the customer so it shows in the dashboard and survives rehydration.
+ * Database writes go through `executor`, so a caller can make them part of
+ * its transaction. Returns the scope loaded into — the caller saves its
+ * snapshot once the file's status is committed — or null when the file has
+ * no CSV or no owning customer. Throws when the CSV cannot be downloaded or
+ * loaded.
+ */
+export async function loadPdfResult(
+  fileRecord: UploadedFileRecord,
+  executor: DbExecutor = db,
+): Promise<DbScope | null> {
+  const resultCsvKey = fileRecord.resultCsvKey;
+  if (!resultCsvKey) {
+    return null;
+  }
+
+  // The customer that owns the file decides which analytics DB to load into
+  const scope = await resolveCustomerScope(fileRecord.customerId);
+  if (!scope) {
+    return null;
+  }
+
+  console.log(`Downloading CSV result from ${resultCsvKey}...`);
+  const csvContent = await downloadFromR2(resultCsvKey);
+  const prenormalized = await downloadPrenormalizedCsv(fileRecord);
+
+  const csvFileName = fileRecord.fileName.replace(/\.pdf$/i, ".csv");
+  const tableName = sanitizeTableName(csvFileName);
+  console.log(`Loading CSV into analytics DB table: ${tableName}`);
+  const { report } = await ingestCsv(
+    scope,
+    csvContent,
+    tableName,
+    csvFileName,
+    prenormalized ?? undefined,
+  );
+  console.log("CSV loaded successfully.");
+
+  await executor
+    .update(uploadedFileTable)
+    .set({ columnMapping: report })
+    .where(eq(uploadedFileTable.id, fileRecord.id));
+
+  // Check for duplicates
+  const [existingCsv] = await executor
+    .select()
+    .from(uploadedFileTable)
+    .where(eq(uploadedFileTable.r2Key, resultCsvKey));
+
+  if (!existingCsv) {
+    await executor.insert(uploadedFileTable).values({
+      customerId: fileRecord.customerId,
+      fileName: csvFileName,
+      r2Key: resultCsvKey,
+      fileType: "csv",
+      status: "completed",
+      normalizedCsvKey: fileRecord.normalizedCsvKey,
+      mappingReportKey: fileRecord.mappingReportKey,
+      columnMapping: report,
+    });
+    console.log(`Created new CSV file record: ${csvFileName}`);
+  }
+
+  return scope;
+}
@@ -0,0 +1,138 @@
+import type { ChartConfig } from "./llm";
+
+// ---------------------------------------------------------------------------
+// Events emitted by the streaming variant of /api/query (NDJSON, one event
+// per line) and helpers for clients to consume them. Must stay free of
+// server-only imports so client components can use it.
+// ---------------------------------------------------------------------------
+
+export type QueryStreamEvent =
+  | { type: "sql"; sql: string; explanation: string; attempt: number }
+  | { type: "retry"; attempt: number; error: string; rejected: boolean }
+  | {
+      type: "rows";
+      columns: string[];
+      data: Record<string, string | number | null>[];
+      rowCount: number;
+    }
+  | { type: "answer_delta"; text: string }
+  | { type: "answer"; answer: string }
+  | { type: "chart"; chartConfig: ChartConfig | null }
+  | {
+      type: "error";
+      error: string;
+      sql?: string;
+      explanation?: string;
+      rejected?: boolean;
+    }
+  | { type: "done" };
+
+export type QueryStage =
+  "generating" | "executing" | "retrying" | "answering" | "charting" | "done";
+
+export type QueryRetry = { attempt: number; error: string };
+
+/** The message fields a streamed query fills in, shared by the chat UIs. */
+export type QueryProgress = {
+  type: "user" | "assistant" | "error";
+  answer?: string;
+  sql?: string;
+  explanation?: string;
+  columns?: string[];
+  data?: Record<string, string | number | null>[];
+  rowCount?: number;
+  chartConfig?: ChartConfig | null;
+  error?: string;
+  loading?: boolean;
+  stage?: QueryStage;
+  retries?: QueryRetry[];
+};
+
+/**
+ * Fold one stream event into a chat message. The message stays `loading`
+ * until the final `done` (or `error`) event arrives.
+ */
+export function applyQueryEvent<T extends QueryProgress>(
+  message: T,
+  event: QueryStreamEvent,
+): T {
+  switch (event.type) {
+    case "sql":
+      return {
+        ...message,
+        sql: event.sql,
+        explanation: event.explanation,
+        stage: "executing",
+      };
+    case "retry":
+      return {
+        ...message,
+        stage: "retrying",
+        retries: [
+          ...(message.retries ?? []),
+          { attempt: event.attempt, error: event.error },
+        ],
+      };
+    case "rows":
+      return {
+        ...message,
+        columns: event.columns,
+        data: event.data,
+        rowCount: event.rowCount,
+        stage: "answering",
+      };
+    case "answer_delta":
+      return { ...message, answer: (message.answer ?? "") + event.text };
+    case "answer":
+      return { ...message, answer: event.answer, stage: "charting" };
+    case "chart":
+      return { ...message, chartConfig: event.chartConfig };
+    case "error":
+      return {
+        ...message,
+        type: "error",
+        error: event.error,
+        sql: event.sql ?? message.sql,
+        explanation: event.explanation ?? message.explanation,
+        loading: false,
+      };
+    case "done":
+      return { ...message, stage: "done", loading: false };
+  }
+}
+
+/**
+ * Read an NDJSON response from /api/query and call `onEvent` for every
+ * event as soon as its line is complete.
+ */
+export async function readQueryStream(
+  response: Response,
+  onEvent: (event: QueryStreamEvent) => void,
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Streaming is not supported by this browser.");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim()) {
+        onEvent(JSON.parse(line) as QueryStreamEvent);
+      }
+    }
+
+    if (done) break;
+  }
+
+  if (buffer.trim()) {
+    onEvent(JSON.parse(buffer) as QueryStreamEvent);
+  }
+}
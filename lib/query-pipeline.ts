@@ -0,0 +1,174 @@
+import { executeReadOnlyQuery, type DbScope } from "./csv-db";
+import {
+  generateSqlQuery,
+  generateSqlQueryRetry,
+  generateChartConfig,
+  streamAnswer,
+} from "./llm";
+import { validateReadOnlySql } from "./sql-guard";
+import type { QueryStreamEvent } from "./query-events";
+import type { ConversationTurn } from "./conversation";
+
+const MAX_RETRIES = 2;
+
+// Generated SQL runs in the query sandbox like the SQL workbench's; the row
+// cap only bounds what is sent back, answers come from the first rows
+const QUERY_LIMITS = { maxRows: 5000, timeoutMs: 10_000 };
+
+type ExecutionOutcome =
+  | {
+      ok: true;
+      result: { columns: string[]; rows: (string | number | null)[][] };
+    }
+  | { ok: false; error: string; rejected: boolean };
+
+/**
+ * Run LLM-generated SQL only if it passes the read-only allow-list. A
+ * rejection is reported like an execution error so the retry loop can
+ * hand the reason back to the model.
+ */
+async function executeGeneratedSql(
+  scope: DbScope,
+  sql: string,
+): Promise<ExecutionOutcome> {
+  const validation = validateReadOnlySql(sql);
+  if (!validation.ok) {
+    console.warn(`Rejected generated SQL: ${validation.reason}`, { sql });
+    return {
+      ok: false,
+      error: `Query rejected: ${validation.reason} Write a single read-only SELECT or WITH statement.`,
+      rejected: true,
+    };
+  }
+
+  try {
+    return {
+      ok: true,
+      result: await executeReadOnlyQuery(scope, validation.sql, QUERY_LIMITS),
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+      rejected: false,
+    };
+  }
+}
+
+/**
+ * The question → SQL → rows → answer → chart pipeline behind /api/query,
+ * yielding an event as each stage completes. The sequence always ends with
+ * either `done` or a single `error` event.
+ */
+export async function* runQueryPipeline(
+  scope: DbScope,
+  question: string,
+  history: ConversationTurn[] = [],
+): AsyncGenerator<QueryStreamEvent> {
+  // Step 1: Generate SQL query from the user's question via LLM
+  let generatedQuery;
+  try {
+    generatedQuery = await generateSqlQuery(scope, question, history);
+  } catch (error) {
+    yield {
+      type: "error",
+      error: `Failed to generate SQL query: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    };
+    return;
+  }
+  yield { type: "sql", ...generatedQuery, attempt: 0 };
+
+  // Step 2: Execute the generated SQL query against the in-memory database
+  // If it fails, retry up to MAX_RETRIES times using the dedicated retry
+  // function which gives the LLM the failed SQL + error message for
+  // much better self-correction.
+  let outcome = await executeGeneratedSql(scope, generatedQuery.sql);
+
+  // Retry loop with progressively richer context
+  for (let attempt = 1; !outcome.ok && attempt <= MAX_RETRIES; attempt++) {
+    yield {
+      type: "retry",
+      attempt,
+      error: outcome.error,
+      rejected: outcome.rejected,
+    };
+
+    try {
+      generatedQuery = await generateSqlQueryRetry(
+        scope,
+        question,
+        generatedQuery.sql,
+        outcome.error,
+        attempt,
+        history,
+      );
+    } catch (retryError) {
+      outcome = {
+        ok: false,
+        error:
+          retryError instanceof Error ? retryError.message : String(retryError),
+        rejected: false,
+      };
+      continue;
+    }
+    yield { type: "sql", ...generatedQuery, attempt };
+    outcome = await executeGeneratedSql(scope, generatedQuery.sql);
+  }
+
+  if (!outcome.ok) {
+    yield {
+      type: "error",
+      error: `SQL execution failed after ${MAX_RETRIES + 1} attempts. Last error: ${outcome.error}`,
+      rejected: outcome.rejected,
+      sql: generatedQuery.sql,
+      explanation: generatedQuery.explanation,
+    };
+    return;
+  }
+
+  const { columns, rows } = outcome.result;
+
+  // Convert rows to array-of-objects for easier frontend consumption
+  const data = rows.map((row) => {
+    const obj: Record<string, string | number | null> = {};
+    columns.forEach((col, i) => {
+      obj[col] = row[i];
+    });
+    return obj;
+  });
+  yield { type: "rows", columns, data, rowCount: rows.length };
+
+  // Step 4 runs alongside step 3; chart generation is non-critical, so a
+  // failure just means no chart
+  const chartPromise = generateChartConfig(
+    question,
+    columns,
+    rows,
+    generatedQuery.explanation,
+  ).catch(() => null);
+
+  // Step 3: Stream a natural language answer from the results
+  let answer = "";
+  try {
+    for await (const text of streamAnswer(
+      question,
+      columns,
+      rows,
+      generatedQuery.explanation,
+    )) {
+      answer += text;
+      yield { type: "answer_delta", text };
+    }
+  } catch (error) {
+    console.error("Answer generation failed:", error);
+  }
+  yield {
+    type: "answer",
+    answer: answer || "Query executed successfully. See the results below.",
+  };
+
+  yield { type: "chart", chartConfig: await chartPromise };
+  yield { type: "done" };
+}
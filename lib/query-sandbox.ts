@@ -0,0 +1,132 @@
+import path from "path";
+import { Worker } from "worker_threads";
+
+// ---------------------------------------------------------------------------
+// Running untrusted read-only SQL (the SQL workbench, LLM-generated queries)
+// off the main thread. sql.js cannot interrupt a statement once it is
+// running, so a recursive CTE or a large cross join would otherwise block
+// the whole server. Each query runs in its own worker on a copy of the
+// database, and the worker is terminated when the time limit is up.
+// ---------------------------------------------------------------------------
+
+export interface SandboxLimits {
+  maxRows: number;
+  timeoutMs: number;
+}
+
+export interface SandboxResult {
+  columns: string[];
+  rows: (string | number | null)[][];
+  truncated: boolean;
+}
+
+type WorkerReply =
+  ({ ok: true } & SandboxResult) | { ok: false; error: string };
+
+// Plain CommonJS, evaluated by the worker, so it needs no bundling
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const fs = require("fs");
+const initSqlJs = require(workerData.sqlJsPath);
+
+initSqlJs({ wasmBinary: fs.readFileSync(workerData.wasmPath) }).then((SQL) => {
+  const db = new SQL.Database(workerData.data);
+  let statement;
+  try {
+    statement = db.prepare(workerData.sql);
+    const rows = [];
+    let truncated = false;
+    while (statement.step()) {
+      if (rows.length >= workerData.maxRows) {
+        truncated = true;
+        break;
+      }
+      rows.push(statement.get());
+    }
+    parentPort.postMessage({
+      ok: true,
+      columns: statement.getColumnNames(),
+      rows,
+      truncated,
+    });
+  } catch (error) {
+    parentPort.postMessage({
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  } finally {
+    if (statement) statement.free();
+    db.close();
+  }
+});
+`;
+
+// Located the same way as in lib/csv-db.ts
+const SQL_JS_DIST = path.join(process.cwd(), "node_modules", "sql.js", "dist");
+
+/**
+ * Run `sql` against a database exported with `Database.export()`, returning
+ * at most `maxRows` rows. Throws the SQLite error, or a time limit error
+ * when the query runs longer than `timeoutMs`.
+ */
+export function runSandboxedQuery(
+  data: Uint8Array,
+  sql: string,
+  limits: SandboxLimits,
+): Promise<SandboxResult> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: {
+        sqlJsPath: path.join(SQL_JS_DIST, "sql-wasm.js"),
+        wasmPath: path.join(SQL_JS_DIST, "sql-wasm.wasm"),
+        data,
+        sql,
+        maxRows: limits.maxRows,
+      },
+    });
+
+    let settled = false;
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      void worker.terminate();
+      fn();
+    };
+
+    const timer = setTimeout(
+      () =>
+        settle(() =>
+          reject(
+            new Error(
+              `Query exceeded the ${limits.timeoutMs / 1000}s time limit.`,
+            ),
+          ),
+        ),
+      limits.timeoutMs,
+    );
+
+    worker.on("message", (reply: WorkerReply) =>
+      settle(() => {
+        if (reply.ok) {
+          resolve({
+            columns: reply.columns,
+            rows: reply.rows,
+            truncated: reply.truncated,
+          });
+        } else {
+          reject(new Error(`SQL execution error: ${reply.error}`));
+        }
+      }),
+    );
+    worker.on("error", (error) =>
+      settle(() => reject(new Error(`SQL execution error: ${error.message}`))),
+    );
+    worker.on("exit", (code) =>
+      settle(() =>
+        reject(new Error(`SQL execution error: worker exited with ${code}`)),
+      ),
+    );
+  });
+}
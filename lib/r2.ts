@@ -3,12 +3,15 @@ import {
   PutObjectCommand,
   GetObjectCommand,
 } from "@aws-sdk/client-s3";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
 
 const R2_ACCOUNT_ID = process.env.R2_ACCOUNT_ID!;
 const R2_ACCESS_KEY_ID = process.env.R2_ACCESS_KEY_ID!;
 const R2_SECRET_ACCESS_KEY = process.env.R2_SECRET_ACCESS_KEY!;
 const R2_BUCKET_NAME = process.env.R2_BUCKET_NAME!;
 const R2_PUBLIC_URL = process.env.R2_PUBLIC_URL; // Optional: custom domain or public bucket URL
+const R2_LOCAL_DIR = process.env.R2_LOCAL_DIR; // Optional: store objects on disk instead (local dev)
 
 export const r2Client = new S3Client({
   region: "auto",
@@ -26,6 +29,53 @@ export interface UploadResult {
   contentType: string;
 }
 
+/**
+ * Write an object to the bucket, or to R2_LOCAL_DIR when it is set.
+ */
+export async function putR2Object(
+  key: string,
+  body: Buffer | Uint8Array | string,
+  contentType: string,
+): Promise<void> {
+  if (R2_LOCAL_DIR) {
+    const filePath = path.join(R2_LOCAL_DIR, key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+    return;
+  }
+
+  const command = new PutObjectCommand({
+    Bucket: R2_BUCKET_NAME,
+    Key: key,
+    Body: body,
+    ContentType: contentType,
+  });
+
+  await r2Client.send(command);
+}
+
+/**
+ * Read an object's raw bytes from the bucket, or from R2_LOCAL_DIR when it
+ * is set.
+ */
+export async function downloadBytesFromR2(key: string): Promise<Uint8Array> {
+  if (R2_LOCAL_DIR) {
+    return readFile(path.join(R2_LOCAL_DIR, key));
+  }
+
+  const command = new GetObjectCommand({
+    Bucket: R2_BUCKET_NAME,
+    Key: key,
+  });
+
+  const response = await r2Client.send(command);
+  if (!response.Body) {
+    throw new Error(`Empty body for key: ${key}`);
+  }
+
+  return response.Body.transformToByteArray();
+}
+
 export async function uploadToR2(
   file: File,
   keyPrefix?: string,
@@ -39,15 +89,7 @@ export async function uploadToR2(
     ? `${keyPrefix}/${timestamp}-${sanitizedName}`
     : `${timestamp}-${sanitizedName}`;
 
-  const command = new PutObjectCommand({
-    Bucket: R2_BUCKET_NAME,
-    Key: key,
-    Body: buffer,
-    ContentType: file.type || "application/octet-stream",
-    ContentLength: file.size,
-  });
-
-  await r2Client.send(command);
+  await putR2Object(key, buffer, file.type || "application/octet-stream");
 
   const url = R2_PUBLIC_URL
     ? `${R2_PUBLIC_URL.replace(/\/+$/, "")}/${key}`
@@ -62,15 +104,6 @@ export async function uploadToR2(
 }
 
 export async function downloadFromR2(key: string): Promise<string> {
-  const command = new GetObjectCommand({
-    Bucket: R2_BUCKET_NAME,
-    Key: key,
-  });
-
-  const response = await r2Client.send(command);
-  if (!response.Body) {
-    throw new Error(`Empty body for key: ${key}`);
-  }
-
-  return response.Body.transformToString("utf-8");
+  const bytes = await downloadBytesFromR2(key);
+  return Buffer.from(bytes).toString("utf-8");
 }
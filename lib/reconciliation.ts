@@ -0,0 +1,61 @@
+// ---------------------------------------------------------------------------
+// Reconciliation report the pdf-processor builds for every converted PDF
+// (pdf-processor/src/lib/reconcile.ts — keep the two in step). It arrives in
+// the completion webhook and is stored on the PDF's uploaded_file row; the
+// dashboard turns `status` into a green/amber/red badge.
+// ---------------------------------------------------------------------------
+
+export type ReconciliationStatus = "green" | "amber" | "red";
+
+export interface ReconciliationCheck {
+  name: string;
+  status: "pass" | "warn" | "fail" | "skipped";
+  detail: string;
+}
+
+export interface ReconciliationReport {
+  /** green: everything reconciles; amber: incomplete evidence; red: a mismatch. */
+  status: ReconciliationStatus;
+  generatedAt: string;
+  pageCount: number;
+  /** 1-based page numbers with the transaction-like lines found on each. */
+  pages: { page: number; transactionLines: number }[];
+  /** Pages without transactions that sit between pages with some. */
+  pagesWithoutRows: number[];
+  pdfTransactionLines: number;
+  csvRowCount: number;
+  totals: {
+    csvDebits: number;
+    csvCredits: number;
+    statementDebits: number | null;
+    statementCredits: number | null;
+  };
+  balances: {
+    statementOpening: number | null;
+    statementClosing: number | null;
+    csvOpening: number | null;
+    csvClosing: number | null;
+    breakCount: number;
+  };
+  checks: ReconciliationCheck[];
+}
+
+/**
+ * Accept a report from the webhook body only if it has the shape the
+ * dashboard relies on; anything else is dropped rather than stored.
+ */
+export function parseReconciliationReport(
+  value: unknown,
+): ReconciliationReport | null {
+  if (!value || typeof value !== "object") return null;
+  const report = value as Partial<ReconciliationReport>;
+  if (
+    (report.status !== "green" &&
+      report.status !== "amber" &&
+      report.status !== "red") ||
+    !Array.isArray(report.checks)
+  ) {
+    return null;
+  }
+  return report as ReconciliationReport;
+}
@@ -0,0 +1,154 @@
+import { downloadFromR2 } from "@/lib/r2";
+import { recategorizeScope } from "@/lib/category-rules";
+import { ingestCsv } from "@/lib/ingest";
+import { downloadPrenormalizedCsv } from "@/lib/pdf-result";
+import { listCompletedFiles, loadSnapshot, saveSnapshot } from "@/lib/snapshot";
+import {
+  getTableSchemas,
+  sanitizeTableName,
+  scopeKey,
+  type DbScope,
+} from "@/lib/csv-db";
+
+// ---------------------------------------------------------------------------
+// The sql.js databases only live in memory, so after a deploy or cold start
+// they are empty while Postgres still lists completed files. Rehydration
+// restores the customer's snapshot (see lib/snapshot.ts) or, when there is
+// none or it is stale, replays those CSVs from R2 the first time a
+// customer's tables are needed.
+// ---------------------------------------------------------------------------
+
+export interface RehydrateResult {
+  loaded: string[];
+  failed: { fileName: string; error: string }[];
+}
+
+interface MissingTable {
+  fileName: string;
+  tableName: string;
+  csvKey: string;
+  /** The pdf-processor's normalization, for converted PDFs. */
+  normalizedCsvKey: string | null;
+  mappingReportKey: string | null;
+}
+
+interface RehydrateGlobal {
+  __rehydrations?: Map<string, Promise<RehydrateResult>>;
+}
+
+const g = globalThis as unknown as RehydrateGlobal;
+
+function getRehydrationsMap(): Map<string, Promise<RehydrateResult>> {
+  if (!g.__rehydrations) {
+    g.__rehydrations = new Map();
+  }
+  return g.__rehydrations;
+}
+
+/**
+ * List completed files of the scope's customer whose tables are not in the
+ * in-memory database. When several files map to the same table name the
+ * newest one wins, matching what an upload would have left behind.
+ */
+export async function findMissingTables(
+  scope: DbScope,
+): Promise<MissingTable[]> {
+  const files = await listCompletedFiles(scope);
+  const schemas = getTableSchemas(scope);
+  const seen = new Set<string>();
+  const missing: MissingTable[] = [];
+
+  for (const file of files) {
+    // CSV uploads are stored as-is; PDFs point at the generated CSV
+    const csvKey = file.fileType === "pdf" ? file.resultCsvKey : file.r2Key;
+    if (!csvKey) {
+      continue;
+    }
+
+    const fileName = file.fileName.replace(/\.pdf$/i, ".csv");
+    const tableName = sanitizeTableName(fileName);
+    if (seen.has(tableName)) {
+      continue;
+    }
+    seen.add(tableName);
+
+    if (!schemas.has(tableName)) {
+      missing.push({
+        fileName,
+        tableName,
+        csvKey,
+        normalizedCsvKey: file.normalizedCsvKey,
+        mappingReportKey: file.mappingReportKey,
+      });
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Make sure every completed file of the scope's customer is loaded into its
+ * analytics database. Concurrent callers for the same scope share one run.
+ */
+export function ensureScopeHydrated(scope: DbScope): Promise<RehydrateResult> {
+  const rehydrations = getRehydrationsMap();
+  const key = scopeKey(scope);
+
+  const inflight = rehydrations.get(key);
+  if (inflight) {
+    return inflight;
+  }
+
+  const run = (async (): Promise<RehydrateResult> => {
+    const result: RehydrateResult = { loaded: [], failed: [] };
+
+    if (getTableSchemas(scope).size === 0 && (await loadSnapshot(scope))) {
+      result.loaded.push(...getTableSchemas(scope).keys());
+      // The snapshot may predate the user's latest category rules
+      try {
+        await recategorizeScope(scope);
+      } catch (error) {
+        console.error(`Failed to re-apply category rules for ${key}:`, error);
+      }
+    }
+
+    const missing = await findMissingTables(scope);
+
+    for (const table of missing) {
+      try {
+        const csvContent = await downloadFromR2(table.csvKey);
+        const prenormalized = await downloadPrenormalizedCsv(table);
+        await ingestCsv(
+          scope,
+          csvContent,
+          table.tableName,
+          table.fileName,
+          prenormalized ?? undefined,
+        );
+        result.loaded.push(table.tableName);
+      } catch (error) {
+        console.error(`Failed to rehydrate ${table.fileName}:`, error);
+        result.failed.push({
+          fileName: table.fileName,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (missing.length > 0) {
+      const replayed = missing.length - result.failed.length;
+      console.log(
+        `Rehydrated ${replayed}/${missing.length} table(s) for ${key}`,
+      );
+      if (replayed > 0) {
+        await saveSnapshot(scope);
+      }
+    }
+    return result;
+  })().finally(() => {
+    rehydrations.delete(key);
+  });
+
+  rehydrations.set(key, run);
+  return run;
+}
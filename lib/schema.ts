@@ -6,8 +6,14 @@ import {
   integer,
   bigserial,
   bigint,
+  jsonb,
+  doublePrecision,
+  primaryKey,
 } from "drizzle-orm/pg-core";
 import { user } from "./auth-schema";
+import type { MappingReport } from "./statement-schema";
+import type { ReconciliationReport } from "./reconciliation";
+import type { ConversionConfidence } from "./confidence";
 
 export const customerTable = pgTable("customer_table", {
   id: bigserial("id", { mode: "bigint" }).primaryKey(),
@@ -33,11 +39,116 @@ export const uploadedFileTable = pgTable("uploaded_file", {
   fileName: text("file_name").notNull(),
   r2Key: text("r2_key").notNull(),
   fileType: text("file_type").notNull(), // 'csv' | 'pdf'
-  status: text("status").notNull().default("pending"), // pending | processing | completed | failed
+  status: text("status").notNull().default("pending"), // pending | processing | needs_review | completed | rejected | failed
+  // Why the file failed, shown next to its Retry button
+  failureReason: text("failure_reason"),
   resultCsvKey: text("result_csv_key"), // For PDFs: key of generated CSV
+  // For PDFs: the pdf-processor's job, returned when the PDF was queued
+  processorJobId: text("processor_job_id"),
+  // For PDFs: the job whose completion callback was applied; the processor
+  // retries callbacks, and a repeated delivery of the same job is ignored,
+  // as is a callback from any job but processorJobId
+  callbackJobId: text("callback_job_id"),
+  // For PDFs and the CSVs generated from them: the pdf-processor's
+  // normalization of the generated CSV, loaded instead of normalizing again
+  normalizedCsvKey: text("normalized_csv_key"),
+  mappingReportKey: text("mapping_report_key"),
+  // How a statement's columns were mapped onto the canonical schema
+  columnMapping: jsonb("column_mapping").$type<MappingReport>(),
+  // For PDFs: the pdf-processor's reconciliation of the CSV against the PDF
+  reconciliation: jsonb("reconciliation").$type<ReconciliationReport>(),
+  reconciliationKey: text("reconciliation_key"),
+  // For PDFs: PDF page text, shown next to the parsed rows when reviewing
+  pageTextKey: text("page_text_key"),
+  // For PDFs: how far the conversion can be trusted; low scores need review
+  confidence: jsonb("confidence").$type<ConversionConfidence>(),
+  confidenceScore: integer("confidence_score"),
+  reviewedBy: text("reviewed_by").references(() => user.id, {
+    onDelete: "set null",
+  }),
+  reviewedAt: timestamp("reviewed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
     .$onUpdate(() => new Date())
     .notNull(),
 });
+
+// Saved Insights chats: one conversation per investigation, one message per
+// question/answer turn. Result rows are not stored, only what is needed to
+// reopen the chat and ask follow-ups.
+export const conversationTable = pgTable("conversation", {
+  id: bigserial("id", { mode: "bigint" }).primaryKey(),
+  customerId: bigint("customer_id", { mode: "bigint" })
+    .notNull()
+    .references(() => customerTable.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .$onUpdate(() => new Date())
+    .notNull(),
+});
+
+export const conversationMessageTable = pgTable("conversation_message", {
+  id: bigserial("id", { mode: "bigint" }).primaryKey(),
+  conversationId: bigint("conversation_id", { mode: "bigint" })
+    .notNull()
+    .references(() => conversationTable.id, { onDelete: "cascade" }),
+  question: text("question").notNull(),
+  sql: text("sql"),
+  explanation: text("explanation"),
+  answer: text("answer"),
+  columns: jsonb("columns").$type<string[]>(),
+  chartConfig: jsonb("chart_config"),
+  rowCount: integer("row_count"),
+  error: text("error"), // Set when the turn failed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .$onUpdate(() => new Date())
+    .notNull(),
+});
+
+// Analyst-defined labelling rules for statement rows ("anything with
+// NEFT/ACME is payroll"). They belong to the user, so a correction applies
+// to every customer's statements; `bank` narrows a rule to one bank.
+export const categoryRuleTable = pgTable("category_rule", {
+  id: bigserial("id", { mode: "bigint" }).primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  matchType: text("match_type").notNull().default("contains"), // 'contains' | 'regex'
+  pattern: text("pattern").notNull(),
+  direction: text("direction"), // 'debit' | 'credit' | null for either
+  minAmount: doublePrecision("min_amount"),
+  maxAmount: doublePrecision("max_amount"),
+  bank: text("bank"), // null applies to every bank
+  category: text("category").notNull(),
+  merchant: text("merchant"),
+  priority: integer("priority").notNull().default(0), // Higher runs first
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .$onUpdate(() => new Date())
+    .notNull(),
+});
+
+// LLM categories of transaction narrations, by narrationKey (see
+// lib/categorize.ts), so reloading or recategorizing a customer's tables
+// reuses earlier answers instead of asking the model again
+export const llmCategoryTable = pgTable(
+  "llm_category",
+  {
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    narrationKey: text("narration_key").notNull(),
+    category: text("category").notNull(),
+    merchant: text("merchant"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.userId, table.narrationKey] }),
+  }),
+);
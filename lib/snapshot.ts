@@ -0,0 +1,141 @@
+import { createHash } from "crypto";
+import { and, asc, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { uploadedFileTable } from "@/lib/schema";
+import { downloadBytesFromR2, downloadFromR2, putR2Object } from "@/lib/r2";
+import {
+  exportDb,
+  importDb,
+  scopeKey,
+  type DbScope,
+  type TableSchema,
+} from "@/lib/csv-db";
+
+// ---------------------------------------------------------------------------
+// SQLite snapshots of a customer's analytics database, stored in R2 next to
+// a small JSON manifest. The manifest carries a version stamp derived from
+// the customer's completed files so a snapshot is ignored as soon as the
+// file set in `uploaded_file` changes.
+// ---------------------------------------------------------------------------
+
+const SNAPSHOT_PREFIX = "snapshots";
+
+/**
+ * Part of every version stamp; bump it when the way files are loaded changes
+ * (e.g. how raw tables are named), so older snapshots are rebuilt.
+ */
+const SNAPSHOT_FORMAT = 2;
+
+interface SnapshotManifest {
+  version: string;
+  createdAt: string;
+  tables: Record<string, TableSchema>;
+}
+
+function snapshotKeys(scope: DbScope & { customerId: string }) {
+  const base = `${SNAPSHOT_PREFIX}/${scope.userId}/${scope.customerId}`;
+  return { data: `${base}.sqlite`, manifest: `${base}.json` };
+}
+
+/**
+ * Completed files of the scope's customer, newest first.
+ */
+export async function listCompletedFiles(scope: DbScope) {
+  if (!scope.customerId) {
+    return [];
+  }
+
+  const files = await db
+    .select()
+    .from(uploadedFileTable)
+    .where(
+      and(
+        eq(uploadedFileTable.customerId, BigInt(scope.customerId)),
+        eq(uploadedFileTable.status, "completed"),
+      ),
+    )
+    .orderBy(asc(uploadedFileTable.id));
+
+  return files.reverse();
+}
+
+async function computeFileSetVersion(scope: DbScope): Promise<string> {
+  const files = await listCompletedFiles(scope);
+  const entries = files
+    .map((f) => `${f.id}:${f.fileType === "pdf" ? f.resultCsvKey : f.r2Key}`)
+    .sort();
+  return createHash("sha256")
+    .update([`format:${SNAPSHOT_FORMAT}`, ...entries].join("\n"))
+    .digest("hex");
+}
+
+/**
+ * Export the scope's database to R2. Failures are logged and swallowed —
+ * the CSVs remain the source of truth, the snapshot only speeds up restores.
+ */
+export async function saveSnapshot(scope: DbScope): Promise<void> {
+  const { customerId } = scope;
+  if (!customerId) {
+    return;
+  }
+
+  try {
+    const exported = exportDb(scope);
+    if (!exported) {
+      return;
+    }
+
+    const keys = snapshotKeys({ ...scope, customerId });
+    const manifest: SnapshotManifest = {
+      version: await computeFileSetVersion(scope),
+      createdAt: new Date().toISOString(),
+      tables: exported.tables,
+    };
+
+    // Write the data first so a manifest never points at an older database
+    await putR2Object(keys.data, exported.data, "application/vnd.sqlite3");
+    await putR2Object(
+      keys.manifest,
+      JSON.stringify(manifest),
+      "application/json",
+    );
+  } catch (error) {
+    console.error(`Failed to save snapshot for ${scopeKey(scope)}:`, error);
+  }
+}
+
+/**
+ * Import the scope's snapshot if one exists and still matches the current
+ * file set. Returns whether the snapshot was used.
+ */
+export async function loadSnapshot(scope: DbScope): Promise<boolean> {
+  const { customerId } = scope;
+  if (!customerId) {
+    return false;
+  }
+
+  const keys = snapshotKeys({ ...scope, customerId });
+
+  let manifest: SnapshotManifest;
+  try {
+    manifest = JSON.parse(await downloadFromR2(keys.manifest));
+  } catch {
+    // No snapshot yet
+    return false;
+  }
+
+  try {
+    const version = await computeFileSetVersion(scope);
+    if (manifest.version !== version) {
+      console.log(`Snapshot for ${scopeKey(scope)} is stale, ignoring it.`);
+      return false;
+    }
+
+    const data = await downloadBytesFromR2(keys.data);
+    await importDb(scope, data, manifest.tables);
+    return true;
+  } catch (error) {
+    console.error(`Failed to load snapshot for ${scopeKey(scope)}:`, error);
+    return false;
+  }
+}
@@ -0,0 +1,212 @@
+// ---------------------------------------------------------------------------
+// Read-only SQL validation for the analytics sandbox. Statements are
+// tokenized (so keywords inside string literals or quoted identifiers are
+// ignored) and only a single SELECT / WITH query is let through.
+// ---------------------------------------------------------------------------
+
+export type SqlTokenType = "word" | "quoted" | "string" | "number" | "symbol";
+
+export interface SqlToken {
+  type: SqlTokenType;
+  value: string;
+  /** Offset of the token in the original statement. */
+  start: number;
+}
+
+export type SqlValidation =
+  | { ok: true; sql: string; reason?: undefined }
+  | { ok: false; sql?: undefined; reason: string };
+
+/** Keywords that can write, change the schema or reach outside the database. */
+const FORBIDDEN_KEYWORDS = new Set([
+  "ALTER",
+  "ANALYZE",
+  "ATTACH",
+  "BEGIN",
+  "COMMIT",
+  "CREATE",
+  "DELETE",
+  "DETACH",
+  "DROP",
+  "INSERT",
+  "PRAGMA",
+  "REINDEX",
+  "RELEASE",
+  "REPLACE",
+  "ROLLBACK",
+  "SAVEPOINT",
+  "UPDATE",
+  "UPSERT",
+  "VACUUM",
+]);
+
+/** Keywords that double as scalar functions, e.g. replace(col, 'a', 'b'). */
+const FUNCTION_KEYWORDS = new Set(["REPLACE"]);
+
+/** Functions that must never be callable from the sandbox. */
+const FORBIDDEN_FUNCTIONS = new Set([
+  "LOAD_EXTENSION",
+  "READFILE",
+  "WRITEFILE",
+]);
+
+/**
+ * Split a SQL statement into tokens, dropping whitespace and comments.
+ * Throws on unterminated strings, identifiers or block comments.
+ */
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // -- line comment
+    if (ch === "-" && sql[i + 1] === "-") {
+      const end = sql.indexOf("\n", i);
+      i = end === -1 ? sql.length : end + 1;
+      continue;
+    }
+
+    // /* block comment */
+    if (ch === "/" && sql[i + 1] === "*") {
+      const end = sql.indexOf("*/", i + 2);
+      if (end === -1) {
+        throw new Error("Unterminated comment.");
+      }
+      i = end + 2;
+      continue;
+    }
+
+    // 'string' and "identifier" / `identifier` / [identifier]
+    if (ch === "'" || ch === '"' || ch === "`" || ch === "[") {
+      const close = ch === "[" ? "]" : ch;
+      let j = i + 1;
+      while (j < sql.length) {
+        if (sql[j] === close) {
+          // Doubled quotes are escapes ('it''s'), brackets have none
+          if (close !== "]" && sql[j + 1] === close) {
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        j++;
+      }
+      if (j >= sql.length) {
+        throw new Error(
+          ch === "'"
+            ? "Unterminated string literal."
+            : "Unterminated identifier.",
+        );
+      }
+      tokens.push({
+        type: ch === "'" ? "string" : "quoted",
+        value: sql.slice(i, j + 1),
+        start: i,
+      });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(sql[i + 1] ?? ""))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(sql.slice(i));
+      const value = match ? match[0] : ch;
+      tokens.push({ type: "number", value, start: i });
+      i += value.length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(sql.slice(i));
+      const value = match ? match[0] : ch;
+      tokens.push({ type: "word", value, start: i });
+      i += value.length;
+      continue;
+    }
+
+    // Multi-character operators are irrelevant to validation, so each
+    // remaining character becomes its own symbol token.
+    tokens.push({ type: "symbol", value: ch, start: i });
+    i++;
+  }
+
+  return tokens;
+}
+
+/**
+ * Check that `sql` is exactly one read-only query. On success the statement
+ * is returned without its trailing semicolon(s) so callers can wrap it.
+ */
+export function validateReadOnlySql(sql: string): SqlValidation {
+  let tokens: SqlToken[];
+  try {
+    tokens = tokenizeSql(sql);
+  } catch (error) {
+    return {
+      ok: false,
+      reason: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  // Drop trailing semicolons; any other semicolon separates statements
+  let end = tokens.length;
+  while (end > 0 && tokens[end - 1].value === ";") {
+    end--;
+  }
+  const body = tokens.slice(0, end);
+
+  if (body.length === 0) {
+    return { ok: false, reason: "The query is empty." };
+  }
+  if (body.some((t) => t.type === "symbol" && t.value === ";")) {
+    return { ok: false, reason: "Only a single statement is allowed." };
+  }
+
+  const first = body[0].value.toUpperCase();
+  if (body[0].type !== "word" || (first !== "SELECT" && first !== "WITH")) {
+    return {
+      ok: false,
+      reason:
+        "Only SELECT queries (optionally starting with WITH) are allowed.",
+    };
+  }
+
+  for (let i = 0; i < body.length; i++) {
+    const token = body[i];
+    if (token.type !== "word") {
+      continue;
+    }
+
+    const keyword = token.value.toUpperCase();
+    const isCall = body[i + 1]?.value === "(";
+
+    if (FORBIDDEN_FUNCTIONS.has(keyword) && isCall) {
+      return { ok: false, reason: `${token.value}() is not allowed.` };
+    }
+    if (FORBIDDEN_KEYWORDS.has(keyword)) {
+      if (FUNCTION_KEYWORDS.has(keyword) && isCall) {
+        continue;
+      }
+      // Still fine as a qualified column name, e.g. t.update
+      if (body[i - 1]?.value === ".") {
+        continue;
+      }
+      return {
+        ok: false,
+        reason: `${keyword} is not allowed in read-only queries.`,
+      };
+    }
+  }
+
+  const last = body[body.length - 1];
+  return {
+    ok: true,
+    sql: sql.slice(0, last.start + last.value.length).trim(),
+  };
+}
@@ -0,0 +1,80 @@
+import { and, eq, lt } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { uploadedFileTable } from "@/lib/schema";
+
+// ---------------------------------------------------------------------------
+// Sweeper for PDFs stuck in `processing`: a file whose completion callback
+// never arrives (the processor lost the job, or gave up delivering it) is
+// marked failed after PDF_PROCESSING_TIMEOUT_MINUTES, with a reason, so the
+// user can retry it. Started from instrumentation.ts; a callback that
+// arrives after all still updates the file.
+// ---------------------------------------------------------------------------
+
+const DEFAULT_TIMEOUT_MINUTES = 60;
+
+/** How often the sweeper looks for stuck files. */
+const SWEEP_INTERVAL_MS = 5 * 60_000;
+
+function timeoutMinutes(): number {
+  const minutes = Number(process.env.PDF_PROCESSING_TIMEOUT_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0
+    ? minutes
+    : DEFAULT_TIMEOUT_MINUTES;
+}
+
+/**
+ * Mark files that have been processing for longer than the timeout as
+ * failed. Returns the ids of the files marked.
+ */
+export async function failStaleProcessingFiles(
+  now: Date = new Date(),
+): Promise<number[]> {
+  const minutes = timeoutMinutes();
+  const cutoff = new Date(now.getTime() - minutes * 60_000);
+
+  // updatedAt moves when a file is queued again, so a retry gets the full
+  // timeout
+  const stale = await db
+    .update(uploadedFileTable)
+    .set({
+      status: "failed",
+      failureReason: `Processing did not finish within ${minutes} minutes`,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(uploadedFileTable.status, "processing"),
+        lt(uploadedFileTable.updatedAt, cutoff),
+      ),
+    )
+    .returning({ id: uploadedFileTable.id });
+
+  return stale.map((file) => file.id);
+}
+
+// Kept on globalThis so a dev-server reload does not start a second sweeper
+const sweeper = globalThis as typeof globalThis & {
+  staleFileSweeper?: ReturnType<typeof setInterval>;
+};
+
+/** Run failStaleProcessingFiles every few minutes in this server process. */
+export function startStaleFileSweeper(): void {
+  if (sweeper.staleFileSweeper) return;
+
+  const sweep = () => {
+    failStaleProcessingFiles()
+      .then((ids) => {
+        if (ids.length > 0) {
+          console.warn(
+            `Marked ${ids.length} PDF(s) stuck in processing as failed:`,
+            ids,
+          );
+        }
+      })
+      .catch((err) => console.error("Stale file sweep failed:", err));
+  };
+
+  sweep();
+  sweeper.staleFileSweeper = setInterval(sweep, SWEEP_INTERVAL_MS);
+  sweeper.staleFileSweeper.unref();
+}
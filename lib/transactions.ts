@@ -0,0 +1,153 @@
+import {
+  createView,
+  dropView,
+  getTableSchemas,
+  type DbScope,
+  type DerivedColumn,
+  type TableSchema,
+} from "@/lib/csv-db";
+import {
+  CANONICAL_COLUMNS,
+  CANONICAL_COLUMN_NOTES,
+  rawTableNameFor,
+} from "@/lib/statement-schema";
+
+// ---------------------------------------------------------------------------
+// The per-customer `transactions` view: every normalized statement table
+// (lib/ingest.ts) unioned into one, so year-level questions over a stack of
+// monthly statements are a single query. Statements are already in the
+// canonical schema, so the union lines up column for column.
+//
+// Consecutive statements often overlap by a few days. A row counts as the
+// same transaction when date, amount and reference (or description, when
+// the bank prints no reference) match; the first file in table-name order
+// keeps it. Duplicates are matched occurrence by occurrence, so two identical
+// coffees on one day in one statement both survive.
+// ---------------------------------------------------------------------------
+
+export const TRANSACTIONS_VIEW = "transactions";
+
+const CANONICAL_TYPES: Record<(typeof CANONICAL_COLUMNS)[number], string> = {
+  txn_date: "TEXT",
+  value_date: "TEXT",
+  description: "TEXT",
+  reference: "TEXT",
+  debit: "REAL",
+  credit: "REAL",
+  amount: "REAL",
+  balance: "REAL",
+  currency: "TEXT",
+  source_file: "TEXT",
+};
+
+/** Derived columns carried through when a statement table has them. */
+const OPTIONAL_COLUMNS: DerivedColumn[] = [
+  {
+    name: "category",
+    type: "TEXT",
+    note: "spending category, as labelled in the statement tables",
+  },
+  {
+    name: "merchant",
+    type: "TEXT",
+    note: "normalised merchant/counterparty name (NULL if unknown)",
+  },
+];
+
+const VIEW_COLUMNS: DerivedColumn[] = [
+  ...CANONICAL_COLUMNS.map((name) => ({
+    name,
+    type: CANONICAL_TYPES[name],
+    note: CANONICAL_COLUMN_NOTES[name],
+  })),
+  ...OPTIONAL_COLUMNS,
+];
+
+function isStatementTable(schema: TableSchema): boolean {
+  return (
+    !schema.view &&
+    CANONICAL_COLUMNS.every((col) => schema.columns.some((c) => c.name === col))
+  );
+}
+
+/** Statement tables of a scope, in the order overlapping rows are kept. */
+export function findStatementTables(scope: DbScope): string[] {
+  const schemas = getTableSchemas(scope);
+  const rawTables = new Set([...schemas.keys()].map(rawTableNameFor));
+  return [...schemas.entries()]
+    .filter(
+      ([tableName, schema]) =>
+        tableName !== TRANSACTIONS_VIEW &&
+        !rawTables.has(tableName) &&
+        isStatementTable(schema),
+    )
+    .map(([tableName]) => tableName)
+    .sort();
+}
+
+function buildViewSql(scope: DbScope, tables: string[]): string {
+  const schemas = getTableSchemas(scope);
+  const columnList = VIEW_COLUMNS.map((c) => `"${c.name}"`).join(", ");
+
+  const selects = tables.map((tableName, fileOrder) => {
+    const schema = schemas.get(tableName)!;
+    const columns = VIEW_COLUMNS.map((col) =>
+      schema.columns.some((c) => c.name === col.name)
+        ? `"${col.name}"`
+        : `NULL AS "${col.name}"`,
+    );
+    return `SELECT ${columns.join(", ")}, ${fileOrder} AS file_order, rowid AS file_row FROM "${tableName}"`;
+  });
+
+  const dedupKey = `"txn_date", "amount", COALESCE("reference", "description")`;
+  return `WITH statement_rows AS (
+  ${selects.join("\n  UNION ALL\n  ")}
+),
+numbered AS (
+  SELECT *, ROW_NUMBER() OVER (
+    PARTITION BY file_order, ${dedupKey} ORDER BY file_row
+  ) AS occurrence
+  FROM statement_rows
+),
+ranked AS (
+  SELECT *, ROW_NUMBER() OVER (
+    PARTITION BY ${dedupKey}, occurrence ORDER BY file_order
+  ) AS copy
+  FROM numbered
+)
+SELECT ${columnList}
+FROM ranked
+WHERE copy = 1
+ORDER BY "txn_date", file_order, file_row`;
+}
+
+/**
+ * Rebuild the scope's transactions view over its current statement tables,
+ * or drop it when there are none. Call after any table is loaded or gains
+ * columns. A loaded file that is itself named `transactions` wins; the view
+ * is then skipped.
+ */
+export async function refreshTransactionsView(
+  scope: DbScope,
+): Promise<TableSchema | null> {
+  const existing = getTableSchemas(scope).get(TRANSACTIONS_VIEW);
+  if (existing && !existing.view) {
+    console.warn(
+      `A loaded table is named "${TRANSACTIONS_VIEW}"; not creating the transactions view.`,
+    );
+    return null;
+  }
+
+  const tables = findStatementTables(scope);
+  if (tables.length === 0) {
+    await dropView(scope, TRANSACTIONS_VIEW);
+    return null;
+  }
+
+  return createView(
+    scope,
+    TRANSACTIONS_VIEW,
+    buildViewSql(scope, tables),
+    VIEW_COLUMNS,
+  );
+}
@@ -0,0 +1,103 @@
+#!/usr/bin/env python3
+"""
+fingerprint.py — Describe a PDF's layout so parser scripts can be matched
+to statements with the same layout.
+
+Usage:
+    python3 fingerprint.py <path_to_pdf>
+
+Outputs JSON to stdout:
+{
+    "pageWidth": int,
+    "pageHeight": int,
+    "producer": str,
+    "headerTokens": [str, ...],
+    "headerText": str,
+    "columnHeaders": [str, ...],
+    "columnPositions": [float, ...]
+}
+
+headerTokens are the words at the top of the first page (headerText the same
+lines as text, for finding the bank's name), columnHeaders the header row of
+the first transaction-like table on the first three pages, and columnPositions
+the left edge of each of its columns as a fraction of the page width.
+"""
+
+import json
+import os
+import re
+import sys
+
+import pdfplumber
+
+HEADER_LINES = 15
+TABLE_PAGES = 3
+
+
+def normalize_cell(cell) -> str:
+    return re.sub(r"\s+", " ", (cell or "")).strip().lower()
+
+
+def find_header_table(pdf):
+    """The first table whose first row has at least three labelled cells."""
+    for page in pdf.pages[:TABLE_PAGES]:
+        for table in page.find_tables():
+            rows = table.extract()
+            if not rows:
+                continue
+            header = [normalize_cell(cell) for cell in rows[0]]
+            if sum(1 for cell in header if cell) < 3:
+                continue
+            positions = [
+                round(cell[0] / page.width, 2)
+                for cell in table.rows[0].cells
+                if cell is not None
+            ]
+            return header, positions
+    return [], []
+
+
+def fingerprint(pdf_path: str) -> dict:
+    with pdfplumber.open(pdf_path) as pdf:
+        if not pdf.pages:
+            raise ValueError("PDF has no pages")
+
+        first = pdf.pages[0]
+        text = first.extract_text() or ""
+        top = " ".join(text.splitlines()[:HEADER_LINES]).lower()
+        # Words only: dates, amounts and account numbers differ per statement
+        tokens = sorted(set(re.findall(r"[a-z]{3,}", top)))
+
+        column_headers, column_positions = find_header_table(pdf)
+
+        return {
+            "pageWidth": round(first.width),
+            "pageHeight": round(first.height),
+            "producer": str((pdf.metadata or {}).get("Producer", "")).strip(),
+            "headerTokens": tokens,
+            "headerText": top,
+            "columnHeaders": column_headers,
+            "columnPositions": column_positions,
+        }
+
+
+def main():
+    if len(sys.argv) != 2:
+        print(f"Usage: {sys.argv[0]} <path_to_pdf>", file=sys.stderr)
+        sys.exit(1)
+
+    pdf_path = sys.argv[1]
+
+    if not os.path.isfile(pdf_path):
+        print(f"Error: file not found: {pdf_path}", file=sys.stderr)
+        sys.exit(1)
+
+    try:
+        print(json.dumps(fingerprint(pdf_path), ensure_ascii=False))
+    except Exception as e:
+        print(f"Error fingerprinting PDF: {e}", file=sys.stderr)
+        sys.exit(1)
+
+
+if __name__ == "__main__":
+    main()
@@ -3,7 +3,35 @@ import { google } from "@ai-sdk/google";
 import { tools } from "./tools/index.js";
 import { createJobDir, cleanupJobDir } from "./lib/python.js";
 import { logger } from "./lib/logger.js";
+import { downloadFromR2, downloadR2AsText, uploadToR2 } from "./lib/r2.js";
+import {
+  buildReconciliation,
+  type PageText,
+  type ReconciliationReport,
+} from "./lib/reconcile.js";
+import {
+  scoreConversion,
+  type ConfidenceInputs,
+  type ConversionConfidence,
+} from "./lib/confidence.js";
+import { fingerprintPdf, readJobFingerprint } from "./lib/fingerprint.js";
+import {
+  adoptLayout,
+  findBestScript,
+  isTrusted,
+  recordScriptRun,
+  registerScript,
+} from "./lib/script-registry.js";
+import { checkGoldenSet } from "./lib/golden.js";
+import { parseCsv, toCsv } from "./lib/csv.js";
+import { normalizeStatement } from "./lib/normalize.js";
+import { verifyStatementBalances } from "./lib/balance.js";
+import type { ProgressTracker } from "./lib/progress.js";
+import { runParserScript } from "./tools/executeScript.js";
+import { deriveOutputKey } from "./tools/uploadToR2.js";
 import { randomUUID } from "crypto";
+import { readFile } from "fs/promises";
+import path from "path";
 
 const SYSTEM_PROMPT = `You are a PDF-to-CSV conversion agent. Convert bank statement PDFs into clean CSV files.
 
@@ -15,8 +43,8 @@ Call \`analyzePdf\` with the pdfKey and jobDir. This single call downloads the P
 - Review the returned sampledPages to understand: columns, date formats, header/footer patterns, debit/credit layout
 
 ## Step 2: Check for existing parser scripts
-Call \`findAndDownloadScript\` with the firstPageText from Step 1. This tool automatically detects the bank name and searches R2 for a matching parser script.
-- If \`found: true\` → run the returned \`scriptContent\` with \`executeScript\` EXACTLY ONCE
+Call \`findAndDownloadScript\` with the jobDir. This tool matches the layout fingerprint analyzePdf computed against the script registry and returns the best-performing script for that layout.
+- If \`found: true\` → run the returned \`scriptContent\` with \`executeScript\` EXACTLY ONCE, unchanged
   - **If executeScript succeeds → go IMMEDIATELY to Step 4 (verify). Do NOT modify or regenerate.**
   - If executeScript fails or Step 4 verification fails → discard and proceed to Step 3
 - If \`found: false\` → proceed to Step 3
@@ -36,13 +64,17 @@ Robust coding rules:
 ## Step 4: Verify output (MANDATORY)
 Call \`verifyCsvOutput\` with pages from the MIDDLE of the document (around N/4, N/2, 3*N/4).
 Compare extracted page content against CSV rows: dates, amounts, descriptions must match.
+Then call \`submitVerdict\` with your verdict (\`matches\` and any \`issues\`). Be honest — the verdict feeds the conversion's confidence score, and low-confidence files go to a human for review.
+The result also has \`balanceCheck\`: a deterministic running-balance and opening/closing balance check.
+- If \`balanceCheck.breakCount\` is above 0, verification FAILED — each \`balance_break\` entry in \`balanceCheck.errors\` names the CSV row where the balance breaks. Fix the script at that point (dropped, duplicated or mis-signed rows).
+- If only the opening/closing balance does not match, check the first and last rows; the printed balances are read heuristically and can be wrong. If the rows are right, go on to Step 5 — the file will be held for review.
 - Pass → Step 5
 - Fail → fix script, re-run, re-verify (up to 2 retries)
+uploadToR2 refuses any CSV with running-balance breaks.
 
-## Step 5: Upload BOTH files to R2
-Make TWO \`uploadToR2\` calls:
-1. CSV file (csvPath from executeScript, key auto-derived as csv/filename.csv)
-2. Python script (scriptPath from executeScript, customOutputKey: "scripts/<pdf_basename>.py")
+## Step 5: Upload the CSV to R2
+Call \`uploadToR2\` with the csvPath from executeScript (key auto-derived as csv/filename.csv).
+Do NOT upload the Python script — the script that produced the uploaded CSV is registered automatically.
 
 ## Rules
 - PDF_PATH and OUTPUT_DIR are pre-injected — do NOT define them
@@ -56,18 +88,314 @@ export interface ProcessResult {
   jobId: string;
   csvKey?: string;
   scriptKey?: string;
+  /** Canonical-schema CSV, when the output was recognized as a statement. */
+  normalizedCsvKey?: string;
+  /** Column-mapping report for the normalized CSV. */
+  mappingReportKey?: string;
+  /** Reconciliation report (see lib/reconcile.ts), uploaded next to the CSV. */
+  reconciliationKey?: string;
+  reconciliation?: ReconciliationReport;
+  /** PDF page text for the review screen, uploaded next to the CSV. */
+  pageTextKey?: string;
+  /** Confidence score for the uploaded CSV (see lib/confidence.ts). */
+  confidence?: ConversionConfidence;
   error?: string;
   durationMs: number;
   steps: number;
+  /**
+   * True only when verifyCsvOutput passed on the uploaded CSV and the
+   * agent's verdict says the sample pages match it — or, on the fast path,
+   * when the deterministic checks passed.
+   */
   verified: boolean;
+  /** True when a trusted script converted the PDF without the agent. */
+  fastPath?: boolean;
 }
 
-export async function processPdf(pdfKey: string): Promise<ProcessResult> {
-  const jobId = randomUUID().slice(0, 12);
+/**
+ * Normalize the uploaded CSV onto the canonical statement schema
+ * (lib/normalize.ts) and upload the normalized CSV and its mapping report
+ * under `csv/normalized/`, named after the CSV's key — both always describe
+ * that CSV. The web app loads them instead of normalizing again. Only the
+ * report is uploaded when the CSV is not a recognized statement; a failure
+ * is logged and leaves the web app to normalize the CSV itself.
+ */
+async function uploadNormalized(
+  csvPath: string,
+  csvKey: string,
+): Promise<{ normalizedCsvKey?: string; mappingReportKey?: string }> {
+  const basename = path.basename(csvKey, path.extname(csvKey));
+  try {
+    const { headers, records } = parseCsv(await readFile(csvPath, "utf-8"));
+    const normalized = normalizeStatement(
+      headers,
+      records,
+      path.basename(csvKey),
+    );
+
+    const keys: { normalizedCsvKey?: string; mappingReportKey?: string } = {};
+    if (normalized.report.recognized) {
+      keys.normalizedCsvKey = (
+        await uploadToR2(
+          `csv/normalized/${basename}.csv`,
+          toCsv(normalized.columns, normalized.rows),
+          "text/csv",
+        )
+      ).key;
+    }
+    // The report last, so a report in R2 never points at a missing CSV
+    keys.mappingReportKey = (
+      await uploadToR2(
+        `csv/normalized/${basename}.mapping.json`,
+        JSON.stringify(normalized.report, null, 2),
+        "application/json",
+      )
+    ).key;
+    return keys;
+  } catch (err) {
+    logger.warn("Failed to upload the normalized CSV", {
+      csvKey,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return {};
+  }
+}
+
+/**
+ * Reconcile the uploaded CSV against the job's PDF and upload the report as
+ * `csv/<basename>.reconciliation.json`, with the PDF's page text (for the
+ * web app's review screen) as `csv/<basename>.pages.json`. The CSV is
+ * already in R2, so a failure here is logged and the job still succeeds,
+ * just without a report. The fast path passes the report it already built.
+ */
+async function uploadReconciliation(
+  jobDir: string,
+  csvPath: string,
+  csvKey: string,
+  built?: { report: ReconciliationReport; pageTexts: PageText[] },
+): Promise<{
+  reconciliationKey?: string;
+  reconciliation?: ReconciliationReport;
+  pageTextKey?: string;
+}> {
+  try {
+    const { report: reconciliation, pageTexts } =
+      built ??
+      (await buildReconciliation(csvPath, path.join(jobDir, "input.pdf")));
+    const basename = path.basename(csvKey, path.extname(csvKey));
+    const { key } = await uploadToR2(
+      `csv/${basename}.reconciliation.json`,
+      JSON.stringify(reconciliation, null, 2),
+      "application/json",
+    );
+    const pages = await uploadToR2(
+      `csv/${basename}.pages.json`,
+      JSON.stringify(pageTexts),
+      "application/json",
+    );
+    return { reconciliationKey: key, reconciliation, pageTextKey: pages.key };
+  } catch (err) {
+    logger.error("Failed to build or upload reconciliation report", {
+      csvKey,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return {};
+  }
+}
+
+/** What findAndDownloadScript returned when it found a script. */
+interface ReusedScript {
+  scriptKey: string;
+  layoutId: string;
+  version: number;
+  matchedBy: "fingerprint" | "bank";
+  scriptContent: string;
+}
+
+/**
+ * Feed the run back into the script registry (lib/script-registry.ts):
+ * count the reused script's run (a script found by bank name takes the PDF's
+ * fingerprint when it worked and passes the golden PDFs of the layout), and
+ * register the script that produced the CSV when it was a new one. Only
+ * confident conversions count as a success or register a script, and a new
+ * script must also pass the golden PDFs of its layout (lib/golden.ts).
+ * Returns the key of the registered script that produced the CSV; registry
+ * failures are logged and never fail the job.
+ */
+async function updateScriptRegistry(run: {
+  jobDir: string;
+  pdfKey: string;
+  reused: ReusedScript | null;
+  producingScript: string | null;
+  confident: boolean;
+}): Promise<string | undefined> {
+  const { jobDir, pdfKey, reused, producingScript, confident } = run;
+  try {
+    const succeeded = confident && producingScript !== null;
+    const reusedWorked =
+      succeeded &&
+      reused !== null &&
+      producingScript.trim() === reused.scriptContent.trim();
+
+    if (reused) {
+      await recordScriptRun(reused.layoutId, reused.version, reusedWorked);
+    }
+    if (!succeeded) return undefined;
+
+    const fingerprint = await readJobFingerprint(jobDir);
+    if (reusedWorked) {
+      // A bank name alone is weak evidence, so a script found by it only
+      // takes this PDF's fingerprint for good when golden PDFs confirm it
+      if (fingerprint && reused.matchedBy === "bank") {
+        const golden = await checkGoldenSet(reused.scriptContent, fingerprint);
+        if (golden.passed && !golden.skipped) {
+          await adoptLayout(reused.layoutId, fingerprint, pdfKey);
+        } else {
+          logger.info("No golden PDF confirms the script found by bank name", {
+            pdfKey,
+            layoutId: reused.layoutId,
+            reason: golden.skipped,
+          });
+        }
+      }
+      return reused.scriptKey;
+    }
+    if (!fingerprint) return undefined;
+
+    const golden = await checkGoldenSet(producingScript, fingerprint);
+    if (!golden.passed) {
+      logger.warn("New script fails the golden set; not registering it", {
+        pdfKey,
+        failed: golden.results.filter((r) => !r.passed).map((r) => r.name),
+      });
+      return undefined;
+    }
+    if (golden.skipped) {
+      logger.warn("Registering a script no golden PDF has checked", {
+        pdfKey,
+        bank: fingerprint.bank ?? null,
+        reason: golden.skipped,
+      });
+    }
+    return (await registerScript(fingerprint, producingScript, pdfKey)).key;
+  } catch (err) {
+    logger.error("Failed to update the script registry", {
+      pdfKey,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Fast path: convert the PDF with the trusted script for its layout (see
+ * isTrusted in lib/script-registry.ts), checked by the deterministic checks
+ * alone — no model call. Returns null, having uploaded nothing, when the
+ * layout has no trusted script or its CSV fails a check or would need
+ * review; processPdf then hands the job to the agent.
+ */
+async function processWithTrustedScript(
+  pdfKey: string,
+  jobDir: string,
+  progress?: ProgressTracker,
+): Promise<Omit<ProcessResult, "jobId" | "durationMs"> | null> {
+  progress?.stage("matching_script", { fastPath: true });
+  const pdfPath = path.join(jobDir, "input.pdf");
+  await downloadFromR2(pdfKey, pdfPath);
+
+  const fingerprint = await fingerprintPdf(pdfPath, jobDir);
+  const match = fingerprint ? await findBestScript(fingerprint) : null;
+  if (!match || !isTrusted(match.script)) return null;
+
+  progress?.stage("executing");
+  const script = await downloadR2AsText(match.script.key);
+  const run = await runParserScript(script, pdfPath, jobDir);
+  const csvPath = run.success && "csvPath" in run ? run.csvPath : null;
+  if (!csvPath) {
+    logger.warn("Fast path: trusted script failed", {
+      pdfKey,
+      scriptKey: match.script.key,
+      error: "error" in run ? run.error : undefined,
+    });
+    return null;
+  }
+
+  progress?.stage("verifying");
+  const balanceCheck = await verifyStatementBalances(csvPath, pdfPath);
+  const built = await buildReconciliation(csvPath, pdfPath);
+  const confidence = scoreConversion({
+    verification: { verified: balanceCheck.passed, balanceCheck },
+    verdict: null,
+    reconciliation: built.report,
+    trustedScript: match.script,
+  });
+  if (confidence.needsReview) {
+    logger.warn("Fast path: checks not good enough, using the agent", {
+      pdfKey,
+      scriptKey: match.script.key,
+      balancePassed: balanceCheck.passed,
+      reconciliationStatus: built.report.status,
+      confidenceScore: confidence.score,
+    });
+    return null;
+  }
+
+  progress?.stage("uploading");
+  const { key: csvKey } = await uploadToR2(
+    deriveOutputKey(pdfKey),
+    await readFile(csvPath),
+    "text/csv",
+  );
+  const normalized = await uploadNormalized(csvPath, csvKey);
+  const reconciled = await uploadReconciliation(jobDir, csvPath, csvKey, built);
+
+  try {
+    await recordScriptRun(match.layoutId, match.script.version, true);
+  } catch (err) {
+    logger.error("Failed to update the script registry", {
+      pdfKey,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  return {
+    success: true,
+    csvKey,
+    scriptKey: match.script.key,
+    ...normalized,
+    ...reconciled,
+    confidence,
+    steps: 0,
+    verified: true,
+    fastPath: true,
+  };
+}
+
+export interface ProcessOptions {
+  jobId?: string;
+  /** Follows the run stage by stage (lib/progress.ts). */
+  progress?: ProgressTracker;
+  /**
+   * Generate a new parser script even when the registry has one for the
+   * layout: no fast path and no findAndDownloadScript. For PDFs a
+   * registered script converted badly.
+   */
+  freshScript?: boolean;
+}
+
+export async function processPdf(
+  pdfKey: string,
+  options: ProcessOptions = {},
+): Promise<ProcessResult> {
+  const {
+    jobId = randomUUID().slice(0, 12),
+    progress,
+    freshScript = false,
+  } = options;
   const startedAt = Date.now();
   let jobDir: string | null = null;
 
-  logger.info("Starting PDF processing job", { jobId, pdfKey });
+  logger.info("Starting PDF processing job", { jobId, pdfKey, freshScript });
 
   try {
     // Create an isolated temp directory for this job
@@ -75,6 +403,40 @@ export async function processPdf(pdfKey: string): Promise<ProcessResult> {
 
     logger.info("Job directory created", { jobId, jobDir });
 
+    // A trusted script for a known layout needs no model call
+    const fast = freshScript
+      ? null
+      : await processWithTrustedScript(pdfKey, jobDir, progress).catch(
+          (err: unknown) => {
+            logger.warn("Fast path failed, using the agent", {
+              jobId,
+              error: err instanceof Error ? err.message : String(err),
+            });
+            return null;
+          },
+        );
+    if (fast) {
+      const durationMs = Date.now() - startedAt;
+      logger.info("PDF processed by trusted script without the agent", {
+        jobId,
+        pdfKey,
+        csvKey: fast.csvKey,
+        scriptKey: fast.scriptKey,
+        confidenceScore: fast.confidence?.score,
+        durationMs,
+      });
+      return { ...fast, jobId, durationMs };
+    }
+
+    // The agent starts from a clean job directory
+    await cleanupJobDir(jobDir);
+    jobDir = await createJobDir();
+    progress?.stage("starting", { fastPath: false });
+
+    const freshNote = freshScript
+      ? "\n\nThe registered script for this layout converted it badly: skip Step 2 and generate a new script (Step 3)."
+      : "";
+
     const result = await generateText({
       model: google("gemini-3-pro-preview"),
       stopWhen: stepCountIs(15),
@@ -86,16 +448,25 @@ Job directory (use this as jobDir in tool calls): ${jobDir}
 Job ID: ${jobId}
 
 Start by calling analyzePdf with the pdfKey and jobDir above.
-Remember: you MUST verify the output before uploading, and you MUST upload both the CSV and the Python script.`,
+Remember: you MUST verify the output before uploading the CSV.${freshNote}`,
       tools,
+      activeTools: freshScript
+        ? (Object.keys(tools) as (keyof typeof tools)[]).filter(
+            (name) => name !== "findAndDownloadScript",
+          )
+        : undefined,
+      // Read by the progress hooks around each tool (tools/index.ts)
+      experimental_context: progress,
+      onStepFinish: () => progress?.stepFinished(),
     });
+    progress?.stage("finishing");
 
     // Inspect the result to determine success
     const allToolResults = result.steps
       .flatMap((step) => step.toolResults)
       .filter(Boolean);
 
-    // Look for successful upload results (we expect two: CSV + script)
+    // Look for successful upload results (we expect one: the CSV)
     const uploadResults = allToolResults.filter((tr) => {
       const output = tr.output as Record<string, unknown>;
       return (
@@ -106,58 +477,107 @@ Remember: you MUST verify the output before uploading, and you MUST upload both
       );
     });
 
-    // Check if verification was performed
-    const verificationPerformed = allToolResults.some(
-      (tr) => tr.toolName === "verifyCsvOutput",
-    );
-
     // Extract the uploaded keys
     const csvUpload = uploadResults.find((tr) => {
       const o = tr.output as { key: string };
       return o.key.startsWith("csv/");
     });
-
-    const scriptUpload = uploadResults.find((tr) => {
-      const o = tr.output as { key: string };
-      return o.key.startsWith("scripts/");
+    const uploadedCsvPath = csvUpload
+      ? (csvUpload.input as { csvPath: string }).csvPath
+      : null;
+
+    // The last verification and verdict on the uploaded CSV decide
+    // `verified`; earlier attempts were on CSVs that got fixed
+    const lastResultFor = (toolName: string) =>
+      allToolResults
+        .filter(
+          (tr) =>
+            tr.toolName === toolName &&
+            (tr.input as { csvPath?: string }).csvPath === uploadedCsvPath,
+        )
+        .at(-1);
+    const verification = (lastResultFor("verifyCsvOutput")?.output ??
+      null) as ConfidenceInputs["verification"];
+    const verdictCall = lastResultFor("submitVerdict");
+    const verdict = verdictCall
+      ? (verdictCall.input as NonNullable<ConfidenceInputs["verdict"]>)
+      : null;
+    const verified =
+      verification?.verified === true && verdict?.matches === true;
+
+    // The normalized CSV, mapping report and reconciliation report follow
+    // the raw CSV's upload; the confidence score builds on the reconciliation
+    const csvArtifacts: Partial<
+      Pick<
+        ProcessResult,
+        | "normalizedCsvKey"
+        | "mappingReportKey"
+        | "reconciliationKey"
+        | "reconciliation"
+        | "pageTextKey"
+        | "confidence"
+      >
+    > =
+      csvUpload && uploadedCsvPath
+        ? await (async () => {
+            const csvKey = (csvUpload.output as { key: string }).key;
+            const normalized = await uploadNormalized(uploadedCsvPath, csvKey);
+            const reconciled = await uploadReconciliation(
+              jobDir,
+              uploadedCsvPath,
+              csvKey,
+            );
+            const confidence = scoreConversion({
+              verification,
+              verdict,
+              reconciliation: reconciled.reconciliation ?? null,
+            });
+            return { ...normalized, ...reconciled, confidence };
+          })()
+        : {};
+
+    // The registry learns which script worked for this layout
+    const reusedCall = allToolResults
+      .filter(
+        (tr) =>
+          tr.toolName === "findAndDownloadScript" &&
+          (tr.output as { found?: boolean }).found === true,
+      )
+      .at(-1);
+    const producingRun = allToolResults
+      .filter((tr) => {
+        const output = tr.output as { success?: boolean; csvPath?: string };
+        return (
+          tr.toolName === "executeScript" &&
+          output.success === true &&
+          output.csvPath === uploadedCsvPath
+        );
+      })
+      .at(-1);
+    const scriptKey = await updateScriptRegistry({
+      jobDir,
+      pdfKey,
+      reused: reusedCall ? (reusedCall.output as ReusedScript) : null,
+      producingScript: producingRun
+        ? (producingRun.input as { script: string }).script
+        : null,
+      confident: csvArtifacts.confidence?.needsReview === false,
     });
 
     const durationMs = Date.now() - startedAt;
 
-    if (csvUpload && scriptUpload) {
-      const csvResult = csvUpload.output as { key: string };
-      const scriptResult = scriptUpload.output as { key: string };
-
-      logger.info("PDF processing completed successfully", {
-        jobId,
-        pdfKey,
-        csvKey: csvResult.key,
-        scriptKey: scriptResult.key,
-        verified: verificationPerformed,
-        durationMs,
-        steps: result.steps.length,
-      });
-
-      return {
-        success: true,
-        jobId,
-        csvKey: csvResult.key,
-        scriptKey: scriptResult.key,
-        durationMs,
-        steps: result.steps.length,
-        verified: verificationPerformed,
-      };
-    }
-
     if (csvUpload) {
-      // CSV uploaded but script wasn't — partial success
       const csvResult = csvUpload.output as { key: string };
 
-      logger.warn("CSV uploaded but script upload missing", {
+      logger.info("PDF processing completed successfully", {
         jobId,
         pdfKey,
         csvKey: csvResult.key,
-        verified: verificationPerformed,
+        scriptKey,
+        normalizedCsvKey: csvArtifacts.normalizedCsvKey,
+        reconciliationStatus: csvArtifacts.reconciliation?.status,
+        confidenceScore: csvArtifacts.confidence?.score,
+        verified,
         durationMs,
         steps: result.steps.length,
       });
@@ -166,9 +586,11 @@ Remember: you MUST verify the output before uploading, and you MUST upload both
         success: true,
         jobId,
         csvKey: csvResult.key,
+        scriptKey,
+        ...csvArtifacts,
         durationMs,
         steps: result.steps.length,
-        verified: verificationPerformed,
+        verified,
       };
     }
 
@@ -189,7 +611,7 @@ Remember: you MUST verify the output before uploading, and you MUST upload both
         "Agent finished without uploading a CSV. Check logs for details.",
       durationMs,
       steps: result.steps.length,
-      verified: verificationPerformed,
+      verified,
     };
   } catch (err) {
     const durationMs = Date.now() - startedAt;
@@ -0,0 +1,141 @@
+import { logger } from "./lib/logger.js";
+import {
+  claimCallback,
+  recordDelivery,
+  type Callback,
+  type DeliveryAttempt,
+} from "./lib/callback-outbox.js";
+import { signCallback } from "./lib/callback-signature.js";
+
+/**
+ * Delivers the callbacks in the outbox (lib/callback-outbox.ts), one at a
+ * time. Each attempt is signed afresh, so a retry hours later still falls
+ * inside the webhook's replay window.
+ */
+
+/** How often the idle deliverer looks for due callbacks (retries). */
+const POLL_INTERVAL_MS = 5_000;
+
+/** A callback POST that takes longer than this counts as failed. */
+const REQUEST_TIMEOUT_MS = 30_000;
+
+let stopping = false;
+let loop: Promise<void> | null = null;
+let wake: (() => void) | null = null;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      wake = null;
+      resolve();
+    }
+    wake = done;
+  });
+}
+
+/** Let the deliverer send now, e.g. after a callback was stored. */
+export function wakeDeliverer(): void {
+  wake?.();
+}
+
+async function deliver(callback: Callback): Promise<DeliveryAttempt> {
+  const startedAt = Date.now();
+  const at = new Date(startedAt).toISOString();
+  const body = JSON.stringify(callback.body);
+
+  try {
+    const res = await fetch(callback.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...signCallback(body, process.env.PDF_CALLBACK_SECRET ?? ""),
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const durationMs = Date.now() - startedAt;
+    if (res.ok) {
+      return { at, durationMs, statusCode: res.status, error: null };
+    }
+    const text = await res.text().catch(() => "");
+    return {
+      at,
+      durationMs,
+      statusCode: res.status,
+      error: `HTTP ${res.status}: ${text.slice(0, 500)}`,
+    };
+  } catch (err) {
+    return {
+      at,
+      durationMs: Date.now() - startedAt,
+      statusCode: null,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+async function deliverOne(callback: Callback): Promise<void> {
+  logger.info("Sending callback", {
+    callbackId: callback.id,
+    jobId: callback.jobId,
+    url: callback.url,
+    attempt: callback.attempts,
+  });
+
+  const attempt = await deliver(callback);
+  const updated = await recordDelivery(callback, attempt);
+
+  if (updated?.status === "delivered") {
+    logger.info("Callback sent successfully", {
+      callbackId: callback.id,
+      jobId: callback.jobId,
+      status: attempt.statusCode,
+    });
+  } else if (updated?.status === "pending") {
+    logger.warn("Callback failed, will retry", {
+      callbackId: callback.id,
+      jobId: callback.jobId,
+      attempt: callback.attempts,
+      nextAttemptAt: updated.nextAttemptAt,
+      error: attempt.error,
+    });
+  } else if (updated?.status === "dead") {
+    logger.error("Callback failed after its last attempt", {
+      callbackId: callback.id,
+      jobId: callback.jobId,
+      attempts: callback.attempts,
+      error: attempt.error,
+    });
+  }
+}
+
+async function deliveryLoop(): Promise<void> {
+  while (!stopping) {
+    let callback: Callback | null = null;
+    try {
+      callback = await claimCallback();
+      if (callback) await deliverOne(callback);
+    } catch (err) {
+      // A claimed callback is tried again once its lease runs out
+      logger.error("Failed to deliver callbacks", {
+        callbackId: callback?.id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+    if (!callback) await sleep(POLL_INTERVAL_MS);
+  }
+}
+
+/** Start delivering callbacks. */
+export function startDeliverer(): void {
+  loop = deliveryLoop();
+}
+
+/** Stop once the delivery in progress, if any, is recorded. */
+export async function stopDeliverer(): Promise<void> {
+  stopping = true;
+  wakeDeliverer();
+  await loop;
+}
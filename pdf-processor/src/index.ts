@@ -1,6 +1,23 @@
 import { createServer, type IncomingMessage, type ServerResponse } from "http";
-import { processPdf, type ProcessResult } from "./agent.js";
 import { logger } from "./lib/logger.js";
+import { closeDb } from "./lib/db.js";
+import {
+  enqueueJob,
+  ensureJobTable,
+  getJob,
+  listJobs,
+  type Job,
+  type JobStatus,
+} from "./lib/job-queue.js";
+import {
+  ensureCallbackTable,
+  listCallbacks,
+  replayCallback,
+  type CallbackStatus,
+} from "./lib/callback-outbox.js";
+import { ensureScriptRegistry } from "./lib/script-registry.js";
+import { startWorkers, stopWorkers, wakeWorkers } from "./worker.js";
+import { startDeliverer, stopDeliverer, wakeDeliverer } from "./deliverer.js";
 import type { R2WebhookPayload } from "./types.js";
 
 const PORT = parseInt(process.env.PORT ?? "8080", 10);
@@ -22,6 +39,47 @@ function sendJson(res: ServerResponse, status: number, body: unknown): void {
   res.end(json);
 }
 
+/**
+ * Check the bearer token against R2_WEBHOOK_SECRET, if configured. Answers
+ * 401 and returns false when it does not match. The admin endpoints (jobs
+ * and callbacks) pass `required`: they expose file keys and errors and can
+ * re-send callbacks, so without a secret they answer 503 instead of being
+ * open to anyone.
+ */
+function isAuthorized(
+  req: IncomingMessage,
+  res: ServerResponse,
+  { required = false }: { required?: boolean } = {},
+): boolean {
+  const webhookSecret = process.env.R2_WEBHOOK_SECRET;
+  if (!webhookSecret) {
+    if (!required) return true;
+    logger.warn("Admin endpoint called but R2_WEBHOOK_SECRET is not set", {
+      path: req.url,
+    });
+    sendJson(res, 503, {
+      error: "Admin endpoints are disabled until R2_WEBHOOK_SECRET is set",
+    });
+    return false;
+  }
+
+  const authHeader = req.headers.authorization;
+  // Normalize header: handle array (take first) and remove "Bearer " prefix
+  let token = Array.isArray(authHeader) ? authHeader[0] : authHeader;
+  if (token?.startsWith("Bearer ")) {
+    token = token.slice(7);
+  }
+
+  if (token !== webhookSecret) {
+    logger.warn("Invalid or missing webhook secret", {
+      received: authHeader ? "***" : "empty",
+    });
+    sendJson(res, 401, { error: "Unauthorized" });
+    return false;
+  }
+  return true;
+}
+
 async function handleProcess(
   req: IncomingMessage,
   res: ServerResponse,
@@ -31,24 +89,7 @@ async function handleProcess(
     return;
   }
 
-  // Validate webhook secret if configured
-  const webhookSecret = process.env.R2_WEBHOOK_SECRET;
-  if (webhookSecret) {
-    const authHeader = req.headers.authorization;
-    // Normalize header: handle array (take first) and remove "Bearer " prefix
-    let token = Array.isArray(authHeader) ? authHeader[0] : authHeader;
-    if (token?.startsWith("Bearer ")) {
-      token = token.slice(7);
-    }
-
-    if (token !== webhookSecret) {
-      logger.warn("Invalid or missing webhook secret", {
-        received: authHeader ? "***" : "empty",
-      });
-      sendJson(res, 401, { error: "Unauthorized" });
-      return;
-    }
-  }
+  if (!isAuthorized(req, res)) return;
 
   let payload: R2WebhookPayload;
 
@@ -78,84 +119,157 @@ async function handleProcess(
     return;
   }
 
-  logger.info("Processing PDF", {
+  const { job, created } = await enqueueJob({
+    pdfKey,
+    fileId: payload.metadata?.fileId ?? null,
+    callbackUrl: payload.metadata?.callbackUrl ?? null,
+    freshScript: payload.metadata?.freshScript === true,
+  });
+  wakeWorkers();
+
+  logger.info(created ? "PDF job queued" : "PDF already has a job in flight", {
     key: pdfKey,
+    jobId: job.id,
     bucket: payload.bucket,
     action: payload.action,
   });
 
-  const result: ProcessResult = await processPdf(pdfKey);
-
-  logger.info("PDF processing complete", {
-    key: pdfKey,
-    jobId: result.jobId,
-    success: result.success,
-    steps: result.steps,
-    durationMs: result.durationMs,
+  sendJson(res, 202, {
+    status: "queued",
+    pdfKey,
+    jobId: job.id,
+    duplicate: !created,
   });
+}
 
-  // Execute callback if URL is provided
-  if (payload.metadata?.callbackUrl) {
-    const callbackUrl = payload.metadata.callbackUrl;
-    try {
-      logger.info("Sending callback", { url: callbackUrl });
-
-      const callbackBody = {
-        fileId: payload.metadata.fileId,
-        status: result.success ? "completed" : "failed",
-        resultCsvKey: result.csvKey || null,
-        error: result.error || null,
-      };
-
-      const callbackRes = await fetch(callbackUrl, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(callbackBody),
-      });
+const JOB_STATUSES: JobStatus[] = ["queued", "running", "completed", "failed"];
+const CALLBACK_STATUSES: CallbackStatus[] = ["pending", "delivered", "dead"];
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
 
-      if (!callbackRes.ok) {
-        const responseText = await callbackRes.text();
-        logger.error("Callback failed with status", {
-          status: callbackRes.status,
-          statusText: callbackRes.statusText,
-          response: responseText,
-          url: callbackUrl,
-        });
-      } else {
-        logger.info("Callback sent successfully", {
-          status: callbackRes.status,
-        });
-      }
-    } catch (err) {
-      logger.error("Failed to send callback", {
-        url: callbackUrl,
-        error: err instanceof Error ? err.message : String(err),
-      });
-    }
+/** The `limit` query parameter of a list endpoint. */
+function listLimit(params: URLSearchParams): number {
+  return Math.min(
+    Math.max(1, parseInt(params.get("limit") ?? "", 10) || DEFAULT_LIST_LIMIT),
+    MAX_LIST_LIMIT,
+  );
+}
+
+/**
+ * A job as the API shows it. The callback URL stays internal (undefined is
+ * left out of the JSON).
+ */
+function jobView(job: Job): Omit<Job, "callbackUrl"> & { callbackUrl?: never } {
+  return { ...job, callbackUrl: undefined };
+}
+
+/**
+ * GET /jobs/:id — a job with the progress of its latest run: stage, agent
+ * steps, tool calls with their timings and errors.
+ */
+async function handleGetJob(
+  req: IncomingMessage,
+  res: ServerResponse,
+  jobId: string,
+): Promise<void> {
+  if (req.method !== "GET") {
+    sendJson(res, 405, { error: "Method not allowed" });
+    return;
   }
+  if (!isAuthorized(req, res, { required: true })) return;
 
-  if (result.success) {
-    sendJson(res, 200, {
-      status: "success",
-      pdfKey,
-      jobId: result.jobId,
-      csvKey: result.csvKey,
-      scriptKey: result.scriptKey,
-      verified: result.verified,
-      steps: result.steps,
-      durationMs: result.durationMs,
+  const job = await getJob(jobId);
+  if (!job) {
+    sendJson(res, 404, { error: "Job not found" });
+    return;
+  }
+  sendJson(res, 200, jobView(job));
+}
+
+/** GET /jobs?status=&limit= — the most recent jobs, newest first. */
+async function handleListJobs(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: URLSearchParams,
+): Promise<void> {
+  if (req.method !== "GET") {
+    sendJson(res, 405, { error: "Method not allowed" });
+    return;
+  }
+  if (!isAuthorized(req, res, { required: true })) return;
+
+  const status = params.get("status");
+  if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+    sendJson(res, 400, {
+      error: `status must be one of ${JOB_STATUSES.join(", ")}`,
     });
-  } else {
-    sendJson(res, 500, {
-      status: "error",
-      pdfKey,
-      jobId: result.jobId,
-      error: result.error,
-      verified: result.verified,
-      steps: result.steps,
-      durationMs: result.durationMs,
+    return;
+  }
+  const jobs = await listJobs(
+    (status as JobStatus | null) || null,
+    listLimit(params),
+  );
+  sendJson(res, 200, { jobs: jobs.map(jobView) });
+}
+
+/**
+ * GET /callbacks?status=&limit= — the most recent callbacks in the outbox
+ * with their delivery attempts, e.g. `status=dead` for those that need a
+ * replay.
+ */
+async function handleListCallbacks(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: URLSearchParams,
+): Promise<void> {
+  if (req.method !== "GET") {
+    sendJson(res, 405, { error: "Method not allowed" });
+    return;
+  }
+  if (!isAuthorized(req, res, { required: true })) return;
+
+  const status = params.get("status");
+  if (status && !CALLBACK_STATUSES.includes(status as CallbackStatus)) {
+    sendJson(res, 400, {
+      error: `status must be one of ${CALLBACK_STATUSES.join(", ")}`,
     });
+    return;
   }
+
+  const callbacks = await listCallbacks(
+    (status as CallbackStatus | null) || null,
+    listLimit(params),
+  );
+  sendJson(res, 200, { callbacks });
+}
+
+/**
+ * POST /callbacks/:id/replay — deliver an undelivered callback again, with
+ * a fresh set of attempts.
+ */
+async function handleReplayCallback(
+  req: IncomingMessage,
+  res: ServerResponse,
+  callbackId: string,
+): Promise<void> {
+  if (req.method !== "POST") {
+    sendJson(res, 405, { error: "Method not allowed" });
+    return;
+  }
+  if (!isAuthorized(req, res, { required: true })) return;
+
+  const callback = await replayCallback(callbackId);
+  if (!callback) {
+    sendJson(res, 404, { error: "No undelivered callback with this id" });
+    return;
+  }
+  wakeDeliverer();
+
+  logger.info("Callback queued for replay", {
+    callbackId,
+    jobId: callback.jobId,
+  });
+  sendJson(res, 202, { status: "pending", callbackId, jobId: callback.jobId });
 }
 
 function handleHealth(_req: IncomingMessage, res: ServerResponse): void {
@@ -175,10 +289,31 @@ const server = createServer(
     const pathname = url.pathname;
 
     try {
+      if (pathname.startsWith("/jobs/")) {
+        await handleGetJob(
+          req,
+          res,
+          decodeURIComponent(pathname.slice("/jobs/".length)),
+        );
+        return;
+      }
+
+      const replay = pathname.match(/^\/callbacks\/([^/]+)\/replay$/);
+      if (replay?.[1]) {
+        await handleReplayCallback(req, res, decodeURIComponent(replay[1]));
+        return;
+      }
+
       switch (pathname) {
         case "/process":
           await handleProcess(req, res);
           break;
+        case "/jobs":
+          await handleListJobs(req, res, url.searchParams);
+          break;
+        case "/callbacks":
+          await handleListCallbacks(req, res, url.searchParams);
+          break;
         case "/health":
         case "/":
           handleHealth(req, res);
@@ -199,24 +334,60 @@ const server = createServer(
   },
 );
 
-server.listen(PORT, () => {
-  logger.info(`PDF processor server listening on port ${PORT}`, { port: PORT });
+async function start(): Promise<void> {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL is not set; the job queue needs Postgres");
+  }
+  if (!process.env.PDF_CALLBACK_SECRET) {
+    throw new Error(
+      "PDF_CALLBACK_SECRET is not set; the web app refuses unsigned callbacks",
+    );
+  }
+  await ensureJobTable();
+  await ensureCallbackTable();
+  await ensureScriptRegistry();
+  startWorkers();
+  startDeliverer();
+
+  server.listen(PORT, () => {
+    logger.info(`PDF processor server listening on port ${PORT}`, {
+      port: PORT,
+    });
+  });
+}
+
+start().catch((err) => {
+  logger.error("PDF processor failed to start", {
+    error: err instanceof Error ? err.message : String(err),
+  });
+  process.exit(1);
 });
 
-// Graceful shutdown
-function shutdown(signal: string): void {
+/** How long a graceful shutdown may take before the process exits anyway. */
+const SHUTDOWN_TIMEOUT_MS = 10_000;
+
+let shuttingDown = false;
+
+// Graceful shutdown: running jobs go back to the queue, callbacks not yet
+// sent stay in the outbox
+async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
   logger.info(`Received ${signal}, shutting down gracefully...`);
-  server.close(() => {
-    logger.info("Server closed");
-    process.exit(0);
-  });
 
-  // Force exit after 10 seconds
+  // Started first: a job mid-conversion or a callback POST can outlast it
   setTimeout(() => {
     logger.warn("Graceful shutdown timed out, forcing exit");
     process.exit(1);
-  }, 10_000);
+  }, SHUTDOWN_TIMEOUT_MS).unref();
+
+  await stopWorkers();
+  await stopDeliverer();
+  server.close(() => {
+    logger.info("Server closed");
+    void closeDb().finally(() => process.exit(0));
+  });
 }
 
-process.on("SIGTERM", () => shutdown("SIGTERM"));
-process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
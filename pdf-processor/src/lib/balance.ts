@@ -0,0 +1,354 @@
+import { readFile } from "fs/promises";
+import { parseCsv } from "./csv.js";
+import { normalizeStatement, parseAmount } from "./normalize.js";
+import { readPdfPages } from "./pages.js";
+import { logger } from "./logger.js";
+
+/**
+ * Deterministic checks on a converted statement. The LLM only eyeballs
+ * sample pages; these catch what it cannot:
+ *
+ *   1. Running balance — every row's balance must equal the previous
+ *      balance − debit + credit. A dropped or duplicated row breaks the
+ *      chain exactly where it happened.
+ *   2. Statement summary — the opening/closing balances printed on the
+ *      first/last page must match the CSV (or, without a balance column,
+ *      closing − opening must equal the CSV's credits − debits).
+ *
+ * Columns are read through the canonical mapping (lib/normalize.ts), so the
+ * check works whatever the parser named them.
+ */
+
+/** Differences up to this are rounding, not a missing row. */
+const TOLERANCE = 0.01;
+
+/** Row-level errors returned to the agent; breakCount is always exact. */
+const MAX_REPORTED_BREAKS = 20;
+
+export type BalanceErrorCode =
+  | "balance_break"
+  | "opening_balance_mismatch"
+  | "closing_balance_mismatch"
+  | "net_movement_mismatch";
+
+export interface BalanceError {
+  code: BalanceErrorCode;
+  message: string;
+  /** 1-based data row in the CSV (header excluded), for row-level errors. */
+  row?: number;
+  expected?: number;
+  actual?: number;
+}
+
+export interface StatementSummary {
+  openingBalance: number | null;
+  closingBalance: number | null;
+  /** Period totals, when the statement prints them. */
+  totalDebits: number | null;
+  totalCredits: number | null;
+}
+
+export interface BalanceCheckResult {
+  passed: boolean;
+  /** False when there was nothing to check (no balance column, no summary). */
+  checked: boolean;
+  /** Row order of the CSV, as detected from the running balance. */
+  order: "oldest-first" | "newest-first" | null;
+  rowCount: number;
+  breakCount: number;
+  /** Balances printed on the statement's first/last page. */
+  summary: StatementSummary;
+  csvOpeningBalance: number | null;
+  csvClosingBalance: number | null;
+  errors: BalanceError[];
+  /** Why parts of the check could not run. */
+  warnings: string[];
+}
+
+interface LedgerRow {
+  /** 1-based CSV data row. */
+  row: number;
+  date: string;
+  description: string;
+  /** credit − debit */
+  delta: number;
+  balance: number | null;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Walk the rows oldest first and report every row whose balance does not
+ * follow from the previous one. After a break the chain restarts from the
+ * printed balance, so one missing row gives one error, not a cascade.
+ */
+function findBreaks(rows: LedgerRow[]): BalanceError[] {
+  const errors: BalanceError[] = [];
+  let running: number | null = null;
+
+  for (const row of rows) {
+    if (running !== null) running = round2(running + row.delta);
+    if (row.balance === null) continue;
+
+    if (running !== null && Math.abs(running - row.balance) > TOLERANCE) {
+      errors.push({
+        code: "balance_break",
+        row: row.row,
+        expected: running,
+        actual: row.balance,
+        message: `Row ${row.row} (${row.date}, "${row.description.slice(0, 60)}"): balance is ${row.balance} but the previous balance plus this row's amount (${row.delta}) gives ${running}, off by ${round2(row.balance - running)}. A row is probably missing, duplicated or has the wrong amount or debit/credit side.`,
+      });
+    }
+    running = row.balance;
+  }
+  return errors;
+}
+
+const AMOUNT_SOURCE = String.raw`-?\(?[\d,]+\.\d{2}\)?(?:\s*(?:Cr|Dr)\b)?`;
+
+function signedAmount(raw: string | undefined): number | null {
+  const parsed = parseAmount(raw);
+  if (!parsed) return null;
+  return parsed.marker === "debit" ? -Math.abs(parsed.value) : parsed.value;
+}
+
+/**
+ * Find the opening/closing balances and period totals in statement text,
+ * either as "Opening Balance: 1,234.56" / "Total Debits 500.00" or as a
+ * summary table whose header line names the balances and whose next line
+ * holds the figures (opening first, closing last, debits and credits in
+ * between).
+ */
+export function findStatementSummary(text: string): StatementSummary {
+  const labelled = (label: string): number | null => {
+    const match = text.match(
+      new RegExp(`${label}[^\\d\\n-]{0,20}(${AMOUNT_SOURCE})`, "i"),
+    );
+    return signedAmount(match?.[1]);
+  };
+
+  let openingBalance = labelled(String.raw`opening\s+bal(?:ance)?`);
+  let closingBalance = labelled(String.raw`closing\s+bal(?:ance)?`);
+  let totalDebits = labelled(
+    String.raw`total\s+(?:debits?|withdrawals?|dr\b)(?:\s+amount)?`,
+  );
+  let totalCredits = labelled(
+    String.raw`total\s+(?:credits?|deposits?|cr\b)(?:\s+amount)?`,
+  );
+
+  if (
+    openingBalance === null ||
+    closingBalance === null ||
+    totalDebits === null ||
+    totalCredits === null
+  ) {
+    const lines = text.split("\n");
+    const headerIndex = lines.findIndex(
+      (line) => /opening\s+bal/i.test(line) && /closing\s+bal/i.test(line),
+    );
+    if (headerIndex !== -1) {
+      const figures =
+        lines
+          .slice(headerIndex + 1, headerIndex + 3)
+          .join(" ")
+          .match(new RegExp(AMOUNT_SOURCE, "gi")) ?? [];
+      if (figures.length >= 2) {
+        openingBalance ??= signedAmount(figures[0]);
+        closingBalance ??= signedAmount(figures[figures.length - 1]);
+      }
+      const header = lines[headerIndex] ?? "";
+      if (
+        figures.length === 4 &&
+        /debits|withdrawals/i.test(header) &&
+        /credits|deposits/i.test(header)
+      ) {
+        totalDebits ??= signedAmount(figures[1]);
+        totalCredits ??= signedAmount(figures[2]);
+      }
+    }
+  }
+
+  return { openingBalance, closingBalance, totalDebits, totalCredits };
+}
+
+/**
+ * Run the running-balance and summary checks on CSV content. `pageText` is
+ * the text of the statement's first and last pages, when available.
+ */
+export function checkStatementBalances(
+  csvContent: string,
+  pageText: string | null,
+): BalanceCheckResult {
+  const { headers, records } = parseCsv(csvContent);
+  const normalized = normalizeStatement(headers, records, "statement.csv");
+  const summary = pageText
+    ? findStatementSummary(pageText)
+    : {
+        openingBalance: null,
+        closingBalance: null,
+        totalDebits: null,
+        totalCredits: null,
+      };
+
+  const result: BalanceCheckResult = {
+    passed: true,
+    checked: false,
+    order: null,
+    rowCount: normalized.rows.length,
+    breakCount: 0,
+    summary,
+    csvOpeningBalance: null,
+    csvClosingBalance: null,
+    errors: [],
+    warnings: [],
+  };
+
+  if (!normalized.report.recognized) {
+    result.warnings.push(
+      `The CSV does not look like a bank statement, so balances were not checked. ${normalized.report.warnings.join(" ")} Use clear column names (date, description, debit, credit, balance).`,
+    );
+    return result;
+  }
+
+  // Canonical rows: [txn_date, value_date, description, reference, debit,
+  // credit, amount, balance, currency, source_file]
+  const ledger: LedgerRow[] = normalized.rows.map((row, i) => ({
+    row: (normalized.sourceRows[i] ?? i) + 1,
+    date: String(row[0]),
+    description: String(row[2] ?? ""),
+    delta: typeof row[6] === "number" ? row[6] : 0,
+    balance: typeof row[7] === "number" ? row[7] : null,
+  }));
+
+  // Statements list oldest or newest first; the order with the fewer breaks
+  // is the real one
+  let chronological = ledger;
+  if (ledger.some((row) => row.balance !== null)) {
+    const forward = findBreaks(ledger);
+    const reversed = [...ledger].reverse();
+    const backward = findBreaks(reversed);
+    const newestFirst = backward.length < forward.length;
+    const breaks = newestFirst ? backward : forward;
+
+    chronological = newestFirst ? reversed : ledger;
+    result.checked = true;
+    result.order = newestFirst ? "newest-first" : "oldest-first";
+    result.breakCount = breaks.length;
+    result.errors.push(...breaks.slice(0, MAX_REPORTED_BREAKS));
+
+    // Opening balance: the first printed balance minus the rows up to it
+    let movement = 0;
+    for (const row of chronological) {
+      movement += row.delta;
+      if (row.balance !== null) {
+        result.csvOpeningBalance = round2(row.balance - movement);
+        break;
+      }
+    }
+    result.csvClosingBalance =
+      [...chronological].reverse().find((row) => row.balance !== null)
+        ?.balance ?? null;
+  }
+
+  const compare = (
+    code: BalanceErrorCode,
+    label: string,
+    printed: number | null,
+    fromCsv: number | null,
+  ) => {
+    if (printed === null || fromCsv === null) return;
+    result.checked = true;
+    if (Math.abs(printed - fromCsv) > TOLERANCE) {
+      result.errors.push({
+        code,
+        expected: printed,
+        actual: fromCsv,
+        message: `The statement prints a ${label} of ${printed} but the CSV gives ${fromCsv} (off by ${round2(fromCsv - printed)}). Rows at the ${code === "opening_balance_mismatch" ? "start" : "end"} of the statement are probably missing or wrong.`,
+      });
+    }
+  };
+
+  compare(
+    "opening_balance_mismatch",
+    "opening balance",
+    summary.openingBalance,
+    result.csvOpeningBalance,
+  );
+  compare(
+    "closing_balance_mismatch",
+    "closing balance",
+    summary.closingBalance,
+    result.csvClosingBalance,
+  );
+
+  // Without a balance column the summary still pins down the net movement
+  if (
+    result.csvClosingBalance === null &&
+    summary.openingBalance !== null &&
+    summary.closingBalance !== null
+  ) {
+    const movement = round2(ledger.reduce((sum, row) => sum + row.delta, 0));
+    compare(
+      "net_movement_mismatch",
+      "net movement (closing − opening)",
+      round2(summary.closingBalance - summary.openingBalance),
+      movement,
+    );
+  }
+
+  if (result.order === null) {
+    result.warnings.push("No balance column; running balance not checked.");
+  }
+  if (
+    pageText !== null &&
+    summary.openingBalance === null &&
+    summary.closingBalance === null
+  ) {
+    result.warnings.push(
+      "No opening/closing balance found on the first or last page.",
+    );
+  }
+
+  result.passed = result.errors.length === 0;
+  return result;
+}
+
+/**
+ * Text of the PDF's first and last pages, where statements print their
+ * summary. Null when the pages cannot be read — the running-balance check
+ * still runs without them.
+ */
+async function readSummaryText(pdfPath: string): Promise<string | null> {
+  const extracted = await readPdfPages(pdfPath, (pageCount) => [
+    0,
+    pageCount - 1,
+  ]);
+  return extracted ? extracted.pages.map((page) => page.text).join("\n") : null;
+}
+
+/**
+ * Check a CSV file on disk against its source PDF. Used by verifyCsvOutput
+ * (to report problems to the agent), uploadToR2 (to refuse a CSV that
+ * fails) and processPdf's fast path (to fall back to the agent).
+ */
+export async function verifyStatementBalances(
+  csvPath: string,
+  pdfPath: string | null,
+): Promise<BalanceCheckResult> {
+  const csvContent = await readFile(csvPath, "utf-8");
+  const pageText = pdfPath ? await readSummaryText(pdfPath) : null;
+  const result = checkStatementBalances(csvContent, pageText);
+
+  logger.info("Balance check finished", {
+    csvPath,
+    passed: result.passed,
+    checked: result.checked,
+    order: result.order,
+    rowCount: result.rowCount,
+    breakCount: result.breakCount,
+    summary: result.summary,
+  });
+  return result;
+}
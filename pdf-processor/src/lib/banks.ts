@@ -0,0 +1,57 @@
+/**
+ * Bank names, for matching parser scripts from before layouts to statements
+ * (lib/script-registry.ts). Names match as whole words, and ambiguous words
+ * ("union", "indian", "bob") only as part of the full bank name, so a header
+ * that merely contains one is not taken for that bank.
+ */
+
+/** The names of each bank, keyed by the id stored with a layout. */
+const BANK_NAMES: Record<string, string[]> = {
+  hdfc: ["hdfc"],
+  icici: ["icici"],
+  sbi: ["sbi", "state bank of india"],
+  pnb: ["pnb", "punjab national bank"],
+  axis: ["axis bank"],
+  kotak: ["kotak"],
+  idbi: ["idbi"],
+  "bank of baroda": ["bank of baroda"],
+  canara: ["canara"],
+  "union bank": ["union bank"],
+  "indian bank": ["indian bank"],
+  indusind: ["indusind"],
+  "yes bank": ["yes bank"],
+  "federal bank": ["federal bank"],
+  rbl: ["rbl bank"],
+  bandhan: ["bandhan"],
+  idfc: ["idfc"],
+  citi: ["citibank"],
+  hsbc: ["hsbc"],
+  "standard chartered": ["standard chartered"],
+  "deutsche bank": ["deutsche bank"],
+  barclays: ["barclays"],
+};
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/** Whether `name`'s words appear in `tokens`, in order and next to each other. */
+function containsName(tokens: string[], name: string): boolean {
+  const wanted = words(name);
+  for (let i = 0; i + wanted.length <= tokens.length; i++) {
+    if (wanted.every((word, j) => tokens[i + j] === word)) return true;
+  }
+  return false;
+}
+
+/** The bank named in `text` (a file name or a PDF's header), if any. */
+export function detectBank(text: string): string | null {
+  const tokens = words(text);
+  for (const [bank, names] of Object.entries(BANK_NAMES)) {
+    if (names.some((name) => containsName(tokens, name))) return bank;
+  }
+  return null;
+}
@@ -0,0 +1,227 @@
+import { randomUUID } from "crypto";
+import { sql } from "./db.js";
+
+/**
+ * Outbox of completion callbacks, kept in Postgres (lib/db.ts). A finished
+ * job's callback is stored here first and delivered by the deliverer
+ * (deliverer.ts), so a failed POST is retried instead of lost — a lost
+ * callback leaves the web app's file in `processing` for good.
+ *
+ * Each delivery attempt is recorded on the callback. Failed deliveries are
+ * retried with exponential backoff; after maxAttempts the callback is dead
+ * and waits for a manual replay (`POST /callbacks/:id/replay`). The webhook
+ * ignores a repeated delivery for a job it has already handled, so
+ * replaying is safe.
+ */
+
+/** How long a claimed delivery holds before another deliverer may try. */
+const LEASE_MS = 60_000;
+
+const RETRY_BASE_MS = 10_000;
+const RETRY_MAX_MS = 60 * 60_000;
+
+const MAX_ATTEMPTS = Math.max(
+  1,
+  parseInt(process.env.CALLBACK_MAX_ATTEMPTS ?? "8", 10) || 8,
+);
+
+export type CallbackStatus = "pending" | "delivered" | "dead";
+
+export interface DeliveryAttempt {
+  at: string;
+  durationMs: number;
+  /** Null when no response came back. */
+  statusCode: number | null;
+  error: string | null;
+}
+
+export interface Callback {
+  id: string;
+  jobId: string;
+  url: string;
+  body: Record<string, unknown>;
+  status: CallbackStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  lastError: string | null;
+  deliveries: DeliveryAttempt[];
+  createdAt: Date;
+  updatedAt: Date;
+  deliveredAt: Date | null;
+}
+
+interface CallbackRow {
+  id: string;
+  job_id: string;
+  url: string;
+  body: Record<string, unknown>;
+  status: CallbackStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: Date;
+  locked_until: Date | null;
+  last_error: string | null;
+  deliveries: DeliveryAttempt[];
+  created_at: Date;
+  updated_at: Date;
+  delivered_at: Date | null;
+}
+
+function toCallback(row: CallbackRow): Callback {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    url: row.url,
+    body: row.body,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastError: row.last_error,
+    deliveries: row.deliveries,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    deliveredAt: row.delivered_at,
+  };
+}
+
+/** Create the outbox table if it does not exist yet. Run once at startup. */
+export async function ensureCallbackTable(): Promise<void> {
+  await sql`
+    CREATE TABLE IF NOT EXISTS pdf_callback (
+      id text PRIMARY KEY,
+      job_id text NOT NULL,
+      url text NOT NULL,
+      body jsonb NOT NULL,
+      status text NOT NULL DEFAULT 'pending',
+      attempts integer NOT NULL DEFAULT 0,
+      max_attempts integer NOT NULL,
+      next_attempt_at timestamptz NOT NULL DEFAULT now(),
+      locked_until timestamptz,
+      last_error text,
+      deliveries jsonb NOT NULL DEFAULT '[]'::jsonb,
+      created_at timestamptz NOT NULL DEFAULT now(),
+      updated_at timestamptz NOT NULL DEFAULT now(),
+      delivered_at timestamptz
+    )
+  `;
+  await sql`
+    CREATE INDEX IF NOT EXISTS pdf_callback_status_next_attempt_at
+      ON pdf_callback (status, next_attempt_at)
+  `;
+}
+
+/** Store a callback for delivery. */
+export async function enqueueCallback(input: {
+  jobId: string;
+  url: string;
+  body: Record<string, unknown>;
+}): Promise<Callback> {
+  const [row] = await sql<CallbackRow[]>`
+    INSERT INTO pdf_callback (id, job_id, url, body, max_attempts)
+    VALUES (${randomUUID()}, ${input.jobId}, ${input.url},
+            ${JSON.stringify(input.body)}::jsonb, ${MAX_ATTEMPTS})
+    RETURNING *
+  `;
+  return toCallback(row!);
+}
+
+/**
+ * Claim the oldest pending callback that is due, for one delivery attempt.
+ * The claim holds for LEASE_MS, so a deliverer that dies mid-attempt does
+ * not hold the callback up for long.
+ */
+export async function claimCallback(): Promise<Callback | null> {
+  const [row] = await sql<CallbackRow[]>`
+    UPDATE pdf_callback
+    SET attempts = attempts + 1,
+        locked_until = now() + ${LEASE_MS}::int * interval '1 millisecond',
+        updated_at = now()
+    WHERE id = (
+      SELECT id FROM pdf_callback
+      WHERE status = 'pending'
+        AND next_attempt_at <= now()
+        AND (locked_until IS NULL OR locked_until < now())
+      ORDER BY next_attempt_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+  return row ? toCallback(row) : null;
+}
+
+/**
+ * Wait before sending a callback again after its `attempts`-th failed
+ * delivery: 10 s, doubling, at most 1 h.
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+/**
+ * Record a delivery attempt. A failed one is retried after a backoff (10 s,
+ * doubling, at most 1 h) while attempts remain; otherwise the callback is
+ * dead. Returns the updated callback.
+ */
+export async function recordDelivery(
+  callback: Callback,
+  attempt: DeliveryAttempt,
+): Promise<Callback | null> {
+  const delivered = attempt.error === null;
+  const retry = !delivered && callback.attempts < callback.maxAttempts;
+  const status: CallbackStatus = delivered
+    ? "delivered"
+    : retry
+      ? "pending"
+      : "dead";
+  const delayMs = retryDelayMs(callback.attempts);
+
+  const [row] = await sql<CallbackRow[]>`
+    UPDATE pdf_callback
+    SET status = ${status},
+        last_error = ${attempt.error},
+        deliveries = deliveries || ${JSON.stringify([attempt])}::jsonb,
+        next_attempt_at = now() + ${retry ? delayMs : 0}::int * interval '1 millisecond',
+        locked_until = NULL,
+        updated_at = now(),
+        delivered_at = CASE WHEN ${delivered} THEN now() ELSE NULL END
+    WHERE id = ${callback.id} AND status = 'pending'
+    RETURNING *
+  `;
+  return row ? toCallback(row) : null;
+}
+
+/** The most recent callbacks, optionally only those with a status. */
+export async function listCallbacks(
+  status: CallbackStatus | null,
+  limit: number,
+): Promise<Callback[]> {
+  const rows = await sql<CallbackRow[]>`
+    SELECT * FROM pdf_callback
+    WHERE ${status}::text IS NULL OR status = ${status}
+    ORDER BY created_at DESC
+    LIMIT ${limit}
+  `;
+  return rows.map(toCallback);
+}
+
+/**
+ * Queue an undelivered callback for delivery again, with a fresh set of
+ * attempts. Returns null when there is no such callback, or it was
+ * delivered already.
+ */
+export async function replayCallback(id: string): Promise<Callback | null> {
+  const [row] = await sql<CallbackRow[]>`
+    UPDATE pdf_callback
+    SET status = 'pending',
+        attempts = 0,
+        next_attempt_at = now(),
+        locked_until = NULL,
+        updated_at = now()
+    WHERE id = ${id} AND status <> 'delivered'
+    RETURNING *
+  `;
+  return row ? toCallback(row) : null;
+}
@@ -0,0 +1,29 @@
+import { createHmac } from "crypto";
+
+/**
+ * HMAC signature on the completion callback, so the web app's webhook can
+ * tell our callbacks from anyone else's POST. The signed message is
+ * `<timestamp>.<body>`, keyed with PDF_CALLBACK_SECRET (shared with the web
+ * app); the timestamp lets the webhook refuse old callbacks replayed at it.
+ *
+ * The web app verifies it in lib/callback-signature.ts — keep the two in
+ * step.
+ */
+
+export const SIGNATURE_HEADER = "X-Callback-Signature";
+export const TIMESTAMP_HEADER = "X-Callback-Timestamp";
+
+export function signCallback(
+  body: string,
+  secret: string,
+  now: number = Date.now(),
+): Record<string, string> {
+  const timestamp = String(Math.floor(now / 1000));
+  const signature = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return {
+    [TIMESTAMP_HEADER]: timestamp,
+    [SIGNATURE_HEADER]: `sha256=${signature}`,
+  };
+}
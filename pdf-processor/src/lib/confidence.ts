@@ -0,0 +1,167 @@
+import type { BalanceCheckResult } from "./balance.js";
+import type { ReconciliationReport } from "./reconcile.js";
+
+/**
+ * Confidence score for one converted PDF, combining the deterministic
+ * checks with the agent's own verdict (or, on the fast path, the trusted
+ * script's record). Each factor earns up to its weight; the score is the
+ * sum, out of 100.
+ *
+ * The web app (lib/confidence.ts) mirrors the shape — keep the two in step.
+ * It holds files that need review out of the analytics DB until a user
+ * approves them.
+ */
+
+/** Below this score a conversion needs a human review. */
+export const REVIEW_THRESHOLD = 80;
+
+export interface ConfidenceFactor {
+  name: string;
+  points: number;
+  maxPoints: number;
+  detail: string;
+}
+
+export interface ConversionConfidence {
+  score: number;
+  level: "high" | "medium" | "low";
+  /**
+   * True when the score is below REVIEW_THRESHOLD, any check failed or the
+   * balances could not be checked.
+   */
+  needsReview: boolean;
+  factors: ConfidenceFactor[];
+}
+
+export interface ConfidenceInputs {
+  /** The last verifyCsvOutput result for the uploaded CSV. */
+  verification: {
+    verified: boolean;
+    balanceCheck: BalanceCheckResult | null;
+  } | null;
+  /** The last submitVerdict call for the uploaded CSV. */
+  verdict: { matches: boolean; issues: string[] } | null;
+  reconciliation: ReconciliationReport | null;
+  /**
+   * Record of the trusted script that produced the CSV without the agent;
+   * it stands in for the verdict, which the fast path has none of.
+   */
+  trustedScript?: { successCount: number; failureCount: number } | null;
+}
+
+function balanceFactor(
+  balanceCheck: BalanceCheckResult | null,
+): ConfidenceFactor {
+  const factor = { name: "Balance checks", maxPoints: 30 };
+  if (!balanceCheck) {
+    return { ...factor, points: 0, detail: "Balance checks did not run." };
+  }
+  if (!balanceCheck.passed) {
+    return {
+      ...factor,
+      points: 0,
+      detail: `${balanceCheck.errors.length} balance error(s).`,
+    };
+  }
+  return balanceCheck.checked
+    ? { ...factor, points: 30, detail: "Balances reconcile." }
+    : {
+        ...factor,
+        points: 10,
+        detail: "Nothing to check: no balance column or printed summary.",
+      };
+}
+
+function reconciliationFactor(
+  report: ReconciliationReport | null,
+): ConfidenceFactor {
+  const factor = { name: "Reconciliation", maxPoints: 30 };
+  if (!report) {
+    return { ...factor, points: 0, detail: "No reconciliation report." };
+  }
+  const points = { green: 30, amber: 15, red: 0 }[report.status];
+  const flagged = report.checks
+    .filter((c) => c.status === "fail" || c.status === "warn")
+    .map((c) => c.name);
+  return {
+    ...factor,
+    points,
+    detail:
+      flagged.length > 0
+        ? `${report.status}: ${flagged.join(", ")}.`
+        : `${report.status}.`,
+  };
+}
+
+function verdictFactor(
+  verdict: ConfidenceInputs["verdict"],
+  trustedScript: ConfidenceInputs["trustedScript"],
+): ConfidenceFactor {
+  if (!verdict && trustedScript) {
+    return {
+      name: "Script record",
+      maxPoints: 30,
+      points: 30,
+      detail: `Trusted script for this layout: ${trustedScript.successCount} successes, ${trustedScript.failureCount} failures.`,
+    };
+  }
+
+  const factor = { name: "Verifier verdict", maxPoints: 30 };
+  if (!verdict) {
+    return { ...factor, points: 0, detail: "No verdict was submitted." };
+  }
+  return verdict.matches
+    ? { ...factor, points: 30, detail: "Sample pages match the CSV." }
+    : {
+        ...factor,
+        points: 0,
+        detail:
+          verdict.issues.length > 0
+            ? verdict.issues.join(" ")
+            : "Sample pages do not match the CSV.",
+      };
+}
+
+/**
+ * Score a conversion. Any failed check sends it to review whatever the
+ * total, since one wrong number is enough to spoil a client report. So does
+ * a CSV whose balances could not be checked: every other factor at full
+ * marks reaches REVIEW_THRESHOLD without anything tying the rows to the
+ * statement's numbers.
+ */
+export function scoreConversion(
+  inputs: ConfidenceInputs,
+): ConversionConfidence {
+  const { verification, verdict, reconciliation, trustedScript } = inputs;
+  const factors: ConfidenceFactor[] = [
+    balanceFactor(verification?.balanceCheck ?? null),
+    reconciliationFactor(reconciliation),
+    verdictFactor(verdict, trustedScript),
+    {
+      name: "Verification run",
+      maxPoints: 10,
+      points: verification?.verified ? 10 : 0,
+      detail: verification
+        ? verification.verified
+          ? trustedScript
+            ? "The fast path's checks ran on the uploaded CSV."
+            : "verifyCsvOutput ran on the uploaded CSV."
+          : "verifyCsvOutput reported a failure."
+        : "verifyCsvOutput was not run on the uploaded CSV.",
+    },
+  ];
+
+  const score = factors.reduce((total, f) => total + f.points, 0);
+  const failed =
+    verification?.balanceCheck?.passed === false ||
+    reconciliation?.status === "red" ||
+    verdict?.matches === false;
+  const unverified = verification?.balanceCheck?.checked !== true;
+
+  return {
+    score,
+    level: score >= REVIEW_THRESHOLD ? "high" : score >= 50 ? "medium" : "low",
+    needsReview: failed || unverified || score < REVIEW_THRESHOLD,
+    factors,
+  };
+}
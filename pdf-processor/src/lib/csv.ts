@@ -0,0 +1,97 @@
+/**
+ * Minimal RFC 4180 CSV reading/writing for the CSVs the parser scripts
+ * produce (pandas `to_csv` output): quoted fields, doubled quotes and
+ * embedded newlines. Not a general-purpose parser.
+ */
+
+export interface ParsedCsv {
+  headers: string[];
+  records: Record<string, string>[];
+}
+
+/**
+ * Split CSV text into rows of fields.
+ */
+function parseRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((cell) => cell.trim().length > 0));
+}
+
+/**
+ * Parse CSV text with a header row into records keyed by header.
+ */
+export function parseCsv(text: string): ParsedCsv {
+  const [headerRow, ...dataRows] = parseRows(text.replace(/^\ufeff/, ""));
+  const headers = headerRow ?? [];
+
+  const records = dataRows.map((cells) => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = cells[index] ?? "";
+    });
+    return record;
+  });
+
+  return { headers, records };
+}
+
+function escapeField(value: string | number | null): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize a header row and value rows to CSV text.
+ */
+export function toCsv(
+  headers: readonly string[],
+  rows: (string | number | null)[][],
+): string {
+  return [headers, ...rows]
+    .map((row) => row.map(escapeField).join(","))
+    .join("\n");
+}
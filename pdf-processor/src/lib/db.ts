@@ -0,0 +1,53 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL ?? "";
+
+type SslMode = "require" | "allow" | "prefer" | "verify-full" | false;
+
+const SSL_MODES: Record<string, SslMode> = {
+  disable: false,
+  allow: "allow",
+  prefer: "prefer",
+  require: "require",
+  "verify-full": "verify-full",
+};
+
+/**
+ * TLS for the connection. An `sslmode` in DATABASE_URL wins (postgres.js
+ * reads it itself), then DATABASE_SSL (disable, allow, prefer, require or
+ * verify-full); without either TLS is required, as hosted databases expect.
+ */
+function sslOptions(): { ssl?: SslMode } {
+  try {
+    const params = new URL(DATABASE_URL).searchParams;
+    if (params.has("sslmode") || params.has("ssl")) return {};
+  } catch {
+    // Not a URL; postgres.js reports that when it connects
+  }
+
+  const mode = process.env.DATABASE_SSL;
+  if (!mode) return { ssl: "require" };
+  const ssl = Object.hasOwn(SSL_MODES, mode) ? SSL_MODES[mode] : undefined;
+  if (ssl === undefined) {
+    throw new Error(
+      `DATABASE_SSL must be one of ${Object.keys(SSL_MODES).join(", ")}, got "${mode}"`,
+    );
+  }
+  return { ssl };
+}
+
+/**
+ * Postgres client (DATABASE_URL — the web app's database works) for the
+ * job queue (lib/job-queue.ts) and the callback outbox
+ * (lib/callback-outbox.ts).
+ */
+export const sql = postgres(DATABASE_URL, {
+  ...sslOptions(),
+  max: 5,
+  onnotice: () => {},
+});
+
+/** Close the database connections. */
+export async function closeDb(): Promise<void> {
+  await sql.end({ timeout: 5 });
+}
@@ -0,0 +1,154 @@
+import { readFile, writeFile } from "fs/promises";
+import path from "path";
+import { runHelperScript } from "./python.js";
+import { logger } from "./logger.js";
+import { detectBank } from "./banks.js";
+
+/**
+ * Layout fingerprint of a statement PDF (scripts/fingerprint.py). Parser
+ * scripts are registered under the fingerprint of the PDF they were written
+ * for (lib/script-registry.ts) and reused for PDFs whose fingerprint is
+ * similar enough — the same bank can print several layouts, and different
+ * banks can share words, so the bank name alone is not enough.
+ */
+export interface LayoutFingerprint {
+  pageWidth: number;
+  pageHeight: number;
+  /** PDF producer, e.g. the bank's statement generator. */
+  producer: string;
+  /** Distinct words at the top of the first page. */
+  headerTokens: string[];
+  /**
+   * Bank named in the producer or the header (lib/banks.ts). Unset on
+   * fingerprints stored before it was recorded.
+   */
+  bank?: string | null;
+  /** Header row of the first transaction table, lowercased. */
+  columnHeaders: string[];
+  /** Left edge of each column, as a fraction of the page width. */
+  columnPositions: number[];
+}
+
+/** analyzePdf saves the fingerprint here, for the tools that run later. */
+const FINGERPRINT_FILE = "fingerprint.json";
+
+/** Positions closer than this (fraction of page width) are the same column. */
+const POSITION_TOLERANCE = 0.02;
+
+/** Page sizes within this many points are the same paper. */
+const SIZE_TOLERANCE = 2;
+
+function jaccard(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (setA.size === 0 && setB.size === 0) return 0;
+  const shared = [...setA].filter((item) => setB.has(item)).length;
+  return shared / (setA.size + setB.size - shared);
+}
+
+function columnSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  if (a.length === b.length && a.every((header, i) => header === b[i])) {
+    return 1;
+  }
+  // Same labels in another order or with extras: a different layout, but
+  // still closer than unrelated columns
+  return jaccard(a, b) * 0.8;
+}
+
+function geometrySimilarity(a: LayoutFingerprint, b: LayoutFingerprint) {
+  const samePage =
+    Math.abs(a.pageWidth - b.pageWidth) <= SIZE_TOLERANCE &&
+    Math.abs(a.pageHeight - b.pageHeight) <= SIZE_TOLERANCE;
+  const longer = Math.max(a.columnPositions.length, b.columnPositions.length);
+  const matched = a.columnPositions.filter((x) =>
+    b.columnPositions.some((y) => Math.abs(x - y) <= POSITION_TOLERANCE),
+  ).length;
+  return (samePage ? 0.5 : 0) + (longer > 0 ? (matched / longer) * 0.5 : 0);
+}
+
+/**
+ * Similarity of two layouts, from 0 to 1. Column headers weigh most; the
+ * header words carry the customer's name and address, so they weigh less.
+ */
+export function fingerprintSimilarity(
+  a: LayoutFingerprint,
+  b: LayoutFingerprint,
+): number {
+  const producer =
+    a.producer && b.producer
+      ? a.producer === b.producer
+        ? 1
+        : 0
+      : a.producer === b.producer
+        ? 0.5
+        : 0;
+
+  const score =
+    0.45 * columnSimilarity(a.columnHeaders, b.columnHeaders) +
+    0.25 * jaccard(a.headerTokens, b.headerTokens) +
+    0.2 * geometrySimilarity(a, b) +
+    0.1 * producer;
+  return Math.round(score * 1000) / 1000;
+}
+
+/** Fingerprint a local PDF, or null when it cannot be read. */
+export async function computeFingerprint(
+  pdfPath: string,
+): Promise<LayoutFingerprint | null> {
+  const result = await runHelperScript("fingerprint.py", [pdfPath], 30_000);
+  if (!result.success) {
+    logger.warn("Layout fingerprint failed", { pdfPath, error: result.error });
+    return null;
+  }
+
+  try {
+    // The header text is only read for the bank name; it holds the account
+    // holder's details, so it is not kept with the fingerprint
+    const { headerText, ...fingerprint } = JSON.parse(
+      result.output,
+    ) as LayoutFingerprint & { headerText?: string };
+    return {
+      ...fingerprint,
+      bank: detectBank(`${fingerprint.producer} ${headerText ?? ""}`),
+    };
+  } catch (err) {
+    logger.warn("Could not parse layout fingerprint", {
+      pdfPath,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
+
+/**
+ * Fingerprint a local PDF and save it in the job directory. Returns null
+ * when the PDF cannot be read; scripts are then neither matched nor
+ * registered.
+ */
+export async function fingerprintPdf(
+  pdfPath: string,
+  jobDir: string,
+): Promise<LayoutFingerprint | null> {
+  const fingerprint = await computeFingerprint(pdfPath);
+  if (fingerprint) {
+    await writeFile(
+      path.join(jobDir, FINGERPRINT_FILE),
+      JSON.stringify(fingerprint),
+    );
+  }
+  return fingerprint;
+}
+
+/** The fingerprint analyzePdf saved for this job, if any. */
+export async function readJobFingerprint(
+  jobDir: string,
+): Promise<LayoutFingerprint | null> {
+  try {
+    return JSON.parse(
+      await readFile(path.join(jobDir, FINGERPRINT_FILE), "utf-8"),
+    ) as LayoutFingerprint;
+  } catch {
+    return null;
+  }
+}
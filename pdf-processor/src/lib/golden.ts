@@ -0,0 +1,328 @@
+import { readdir, readFile, stat } from "fs/promises";
+import path from "path";
+import { cleanupJobDir, createJobDir, executePython } from "./python.js";
+import { parseCsv } from "./csv.js";
+import { parseAmount } from "./normalize.js";
+import { logger } from "./logger.js";
+import {
+  computeFingerprint,
+  fingerprintSimilarity,
+  type LayoutFingerprint,
+} from "./fingerprint.js";
+import { MATCH_THRESHOLD } from "./script-registry.js";
+
+/**
+ * Golden set for parser scripts: sample statement PDFs with the CSV each
+ * one should produce, kept in one directory as `<name>.pdf` + `<name>.csv`.
+ *
+ * Scripts run against the golden PDFs of their layout exactly as in a job
+ * (executePython, no model calls) and their output is compared with the
+ * expected CSV. `npm run regression` checks every registered script this
+ * way; processPdf checks a newly generated script before registering it.
+ *
+ * A golden PDF belongs to a layout when its fingerprint is similar enough
+ * and it names the same bank (when both name one): two banks' statements
+ * can share column headers and paper size.
+ */
+
+/** Amounts closer than this are equal. */
+const AMOUNT_TOLERANCE = 0.005;
+
+/** Differences reported per case; the rest are only counted. */
+const MAX_DIFFS = 10;
+
+export interface GoldenCase {
+  name: string;
+  pdfPath: string;
+  csvPath: string;
+  /** Null when the PDF could not be fingerprinted. */
+  fingerprint: LayoutFingerprint | null;
+}
+
+export interface CsvDiff {
+  /** 1-based data row, or null for a header difference. */
+  row: number | null;
+  column: string | null;
+  expected: string;
+  actual: string;
+}
+
+export interface GoldenResult {
+  name: string;
+  passed: boolean;
+  /** Set when the script failed or produced no CSV. */
+  error: string | null;
+  expectedRows: number;
+  actualRows: number;
+  diffCount: number;
+  diffs: CsvDiff[];
+}
+
+export interface GoldenCheck {
+  passed: boolean;
+  results: GoldenResult[];
+  /**
+   * Why no case ran (no golden set configured, or none of its PDFs share
+   * the layout); null when some did. A check that ran nothing passes, so
+   * callers can tell an unchecked script from a checked one.
+   */
+  skipped: string | null;
+}
+
+/**
+ * Fingerprints of the golden PDFs by path, reused while the file is
+ * unchanged: fingerprinting runs pdfplumber over each PDF, and the golden
+ * set is loaded for every new script.
+ */
+const fingerprintCache = new Map<
+  string,
+  { mtimeMs: number; fingerprint: LayoutFingerprint | null }
+>();
+
+async function goldenFingerprint(
+  pdfPath: string,
+): Promise<LayoutFingerprint | null> {
+  const { mtimeMs } = await stat(pdfPath);
+  const cached = fingerprintCache.get(pdfPath);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.fingerprint;
+
+  const fingerprint = await computeFingerprint(pdfPath);
+  fingerprintCache.set(pdfPath, { mtimeMs, fingerprint });
+  return fingerprint;
+}
+
+function cellKey(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function headerKey(header: string): string {
+  return cellKey(header).toLowerCase();
+}
+
+/** Amounts compare by value and Dr/Cr marker; anything else as text. */
+function cellsMatch(expected: string, actual: string): boolean {
+  const a = cellKey(expected);
+  const b = cellKey(actual);
+  if (a === b) return true;
+
+  const amountA = /\d/.test(a) ? parseAmount(a) : null;
+  const amountB = /\d/.test(b) ? parseAmount(b) : null;
+  return (
+    amountA !== null &&
+    amountB !== null &&
+    amountA.marker === amountB.marker &&
+    Math.abs(amountA.value - amountB.value) <= AMOUNT_TOLERANCE
+  );
+}
+
+/**
+ * Compare a script's CSV with the expected one: headers by name (case and
+ * spacing ignored), then rows in order, cell by cell.
+ */
+export function compareCsv(
+  expectedText: string,
+  actualText: string,
+): Omit<GoldenResult, "name" | "error"> {
+  const expected = parseCsv(expectedText);
+  const actual = parseCsv(actualText);
+  const diffs: CsvDiff[] = [];
+
+  const actualHeaders = new Map(
+    actual.headers.map((header) => [headerKey(header), header]),
+  );
+  const columns: [string, string][] = [];
+  for (const header of expected.headers) {
+    const match = actualHeaders.get(headerKey(header));
+    if (match === undefined) {
+      diffs.push({ row: null, column: header, expected: header, actual: "" });
+    } else {
+      columns.push([header, match]);
+    }
+  }
+  const expectedKeys = new Set(expected.headers.map(headerKey));
+  for (const header of actual.headers) {
+    if (!expectedKeys.has(headerKey(header))) {
+      diffs.push({ row: null, column: header, expected: "", actual: header });
+    }
+  }
+
+  const rows = Math.max(expected.records.length, actual.records.length);
+  for (let i = 0; i < rows; i++) {
+    const want = expected.records[i];
+    const got = actual.records[i];
+    if (!want || !got) {
+      diffs.push({
+        row: i + 1,
+        column: null,
+        expected: want ? Object.values(want).join(",") : "(no row)",
+        actual: got ? Object.values(got).join(",") : "(no row)",
+      });
+      continue;
+    }
+    for (const [wantHeader, gotHeader] of columns) {
+      const wantCell = want[wantHeader] ?? "";
+      const gotCell = got[gotHeader] ?? "";
+      if (!cellsMatch(wantCell, gotCell)) {
+        diffs.push({
+          row: i + 1,
+          column: wantHeader,
+          expected: wantCell,
+          actual: gotCell,
+        });
+      }
+    }
+  }
+
+  return {
+    passed: diffs.length === 0,
+    expectedRows: expected.records.length,
+    actualRows: actual.records.length,
+    diffCount: diffs.length,
+    diffs: diffs.slice(0, MAX_DIFFS),
+  };
+}
+
+/**
+ * The golden cases in a directory: every PDF with a CSV of the same name.
+ * PDFs without one are skipped with a warning. Fingerprints are cached
+ * until the PDF changes.
+ */
+export async function loadGoldenCases(dir: string): Promise<GoldenCase[]> {
+  const entries = await readdir(dir);
+  const names = new Set(entries);
+  const cases: GoldenCase[] = [];
+
+  for (const entry of entries.sort()) {
+    if (path.extname(entry).toLowerCase() !== ".pdf") continue;
+    const name = entry.slice(0, -".pdf".length);
+    if (!names.has(`${name}.csv`)) {
+      logger.warn("Golden PDF has no expected CSV", { pdf: entry });
+      continue;
+    }
+    const pdfPath = path.join(dir, entry);
+    cases.push({
+      name,
+      pdfPath,
+      csvPath: path.join(dir, `${name}.csv`),
+      fingerprint: await goldenFingerprint(pdfPath),
+    });
+  }
+
+  return cases;
+}
+
+/**
+ * The cases whose layout matches `fingerprint`: similar enough, and not
+ * from another bank. A fingerprint without a bank (stored before banks
+ * were recorded, or none detected) is matched on the layout alone.
+ */
+export function casesForLayout(
+  cases: GoldenCase[],
+  fingerprint: LayoutFingerprint,
+): GoldenCase[] {
+  return cases.filter((c) => {
+    if (c.fingerprint === null) return false;
+    const bank = c.fingerprint.bank;
+    if (bank && fingerprint.bank && bank !== fingerprint.bank) return false;
+    return fingerprintSimilarity(c.fingerprint, fingerprint) >= MATCH_THRESHOLD;
+  });
+}
+
+/** Locate the CSV a script wrote, the same way executeScript does. */
+async function findOutputCsv(
+  jobDir: string,
+  stdout: string,
+): Promise<string | null> {
+  const entries = await readdir(jobDir);
+  const printed = stdout.trim().split("\n").pop()?.trim();
+  if (printed && entries.includes(printed)) return path.join(jobDir, printed);
+  const csvFile = entries.find((f) => f.endsWith(".csv"));
+  return csvFile ? path.join(jobDir, csvFile) : null;
+}
+
+/** Run a script against one golden PDF and diff its CSV. */
+export async function runGoldenCase(
+  script: string,
+  goldenCase: GoldenCase,
+): Promise<GoldenResult> {
+  const jobDir = await createJobDir();
+  const failed = (error: string): GoldenResult => ({
+    name: goldenCase.name,
+    passed: false,
+    error,
+    expectedRows: 0,
+    actualRows: 0,
+    diffCount: 0,
+    diffs: [],
+  });
+
+  try {
+    const run = await executePython(
+      script,
+      goldenCase.pdfPath,
+      jobDir,
+      120_000,
+    );
+    if (!run.success) {
+      return failed(run.error ?? "Script failed");
+    }
+
+    const csvPath = await findOutputCsv(jobDir, run.output);
+    if (!csvPath) {
+      return failed("Script produced no CSV");
+    }
+
+    const [expected, actual] = await Promise.all([
+      readFile(goldenCase.csvPath, "utf-8"),
+      readFile(csvPath, "utf-8"),
+    ]);
+    return {
+      name: goldenCase.name,
+      error: null,
+      ...compareCsv(expected, actual),
+    };
+  } finally {
+    await cleanupJobDir(jobDir);
+  }
+}
+
+/** Run a script against each case; it passes when every case does. */
+export async function runGoldenSet(
+  script: string,
+  cases: GoldenCase[],
+): Promise<GoldenCheck> {
+  const results: GoldenResult[] = [];
+  for (const goldenCase of cases) {
+    results.push(await runGoldenCase(script, goldenCase));
+  }
+  return {
+    passed: results.every((r) => r.passed),
+    results,
+    skipped: results.length === 0 ? "No golden cases." : null,
+  };
+}
+
+/**
+ * Check a newly generated script against the golden PDFs of its layout
+ * (the GOLDEN_DIR directory). Passes, with `skipped` set, when no golden
+ * set is configured or none of its PDFs share the layout.
+ */
+export async function checkGoldenSet(
+  script: string,
+  fingerprint: LayoutFingerprint,
+): Promise<GoldenCheck> {
+  const dir = process.env.GOLDEN_DIR;
+  if (!dir) {
+    return { passed: true, results: [], skipped: "GOLDEN_DIR is not set." };
+  }
+
+  const cases = casesForLayout(await loadGoldenCases(dir), fingerprint);
+  if (cases.length === 0) {
+    return {
+      passed: true,
+      results: [],
+      skipped: `No golden PDF in ${dir} matches the layout${fingerprint.bank ? ` (${fingerprint.bank})` : ""}.`,
+    };
+  }
+  return runGoldenSet(script, cases);
+}
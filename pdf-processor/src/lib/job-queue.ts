@@ -0,0 +1,336 @@
+import { randomUUID } from "crypto";
+import { sql } from "./db.js";
+import type { ProcessResult } from "../agent.js";
+import type { JobProgress } from "./progress.js";
+
+/**
+ * Durable queue of PDF processing jobs, kept in Postgres (lib/db.ts).
+ * `/process` enqueues a job and returns its id straight away; the workers
+ * (worker.ts) claim jobs and run them.
+ *
+ * A claimed job holds a lease that its worker keeps extending while it
+ * runs. When the process dies the lease runs out and the job is claimed
+ * again, by this instance after a restart or by another one, so no job is
+ * lost. Failed runs are retried with exponential backoff until
+ * maxAttempts.
+ */
+
+/** How long a claim holds without a heartbeat. */
+export const LEASE_MS = 5 * 60_000;
+
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 10 * 60_000;
+
+const MAX_ATTEMPTS = Math.max(
+  1,
+  parseInt(process.env.JOB_MAX_ATTEMPTS ?? "3", 10) || 3,
+);
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface Job {
+  id: string;
+  pdfKey: string;
+  fileId: number | null;
+  callbackUrl: string | null;
+  /** Generate a new parser script rather than reuse a registered one. */
+  freshScript: boolean;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: Date;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+  lastError: string | null;
+  result: ProcessResult | null;
+  /** Progress of the latest run (lib/progress.ts). */
+  progress: JobProgress | null;
+  createdAt: Date;
+  updatedAt: Date;
+  finishedAt: Date | null;
+}
+
+interface JobRow {
+  id: string;
+  pdf_key: string;
+  file_id: number | null;
+  callback_url: string | null;
+  fresh_script: boolean;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: Date;
+  locked_by: string | null;
+  locked_until: Date | null;
+  last_error: string | null;
+  result: ProcessResult | null;
+  progress: JobProgress | null;
+  created_at: Date;
+  updated_at: Date;
+  finished_at: Date | null;
+}
+
+function toJob(row: JobRow): Job {
+  return {
+    id: row.id,
+    pdfKey: row.pdf_key,
+    fileId: row.file_id,
+    callbackUrl: row.callback_url,
+    freshScript: row.fresh_script,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAfter: row.run_after,
+    lockedBy: row.locked_by,
+    lockedUntil: row.locked_until,
+    lastError: row.last_error,
+    result: row.result,
+    progress: row.progress,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+/** Create the job table if it does not exist yet. Run once at startup. */
+export async function ensureJobTable(): Promise<void> {
+  await sql`
+    CREATE TABLE IF NOT EXISTS pdf_job (
+      id text PRIMARY KEY,
+      pdf_key text NOT NULL,
+      file_id integer,
+      callback_url text,
+      status text NOT NULL DEFAULT 'queued',
+      attempts integer NOT NULL DEFAULT 0,
+      max_attempts integer NOT NULL,
+      run_after timestamptz NOT NULL DEFAULT now(),
+      locked_by text,
+      locked_until timestamptz,
+      last_error text,
+      result jsonb,
+      created_at timestamptz NOT NULL DEFAULT now(),
+      updated_at timestamptz NOT NULL DEFAULT now(),
+      finished_at timestamptz
+    )
+  `;
+  // Added after the table first shipped
+  await sql`ALTER TABLE pdf_job ADD COLUMN IF NOT EXISTS progress jsonb`;
+  await sql`
+    ALTER TABLE pdf_job
+      ADD COLUMN IF NOT EXISTS fresh_script boolean NOT NULL DEFAULT false
+  `;
+  // One active job per PDF: a repeated trigger joins the job in flight
+  await sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS pdf_job_active_pdf_key
+      ON pdf_job (pdf_key) WHERE status IN ('queued', 'running')
+  `;
+  await sql`
+    CREATE INDEX IF NOT EXISTS pdf_job_status_run_after
+      ON pdf_job (status, run_after)
+  `;
+}
+
+/**
+ * Queue a PDF for processing. When the PDF already has a queued or running
+ * job, that job is returned instead (`created: false`).
+ */
+export async function enqueueJob(input: {
+  pdfKey: string;
+  fileId: number | null;
+  callbackUrl: string | null;
+  freshScript: boolean;
+}): Promise<{ job: Job; created: boolean }> {
+  const [inserted] = await sql<JobRow[]>`
+    INSERT INTO pdf_job
+      (id, pdf_key, file_id, callback_url, fresh_script, max_attempts)
+    VALUES (${randomUUID()}, ${input.pdfKey}, ${input.fileId},
+            ${input.callbackUrl}, ${input.freshScript}, ${MAX_ATTEMPTS})
+    ON CONFLICT (pdf_key) WHERE status IN ('queued', 'running') DO NOTHING
+    RETURNING *
+  `;
+  if (inserted) return { job: toJob(inserted), created: true };
+
+  // An R2 event notification carries no callback; the dashboard's trigger
+  // for the same PDF fills it in. A queued job also takes up a request for
+  // a fresh script.
+  const [active] = await sql<JobRow[]>`
+    UPDATE pdf_job
+    SET file_id = coalesce(file_id, ${input.fileId}),
+        callback_url = coalesce(callback_url, ${input.callbackUrl}),
+        fresh_script = fresh_script
+          OR (status = 'queued' AND ${input.freshScript}),
+        updated_at = now()
+    WHERE pdf_key = ${input.pdfKey} AND status IN ('queued', 'running')
+    RETURNING *
+  `;
+  if (!active) {
+    // The active job finished between the two statements
+    return enqueueJob(input);
+  }
+  return { job: toJob(active), created: false };
+}
+
+/**
+ * Claim the oldest job that is due: a queued job whose backoff has passed,
+ * or a running job whose lease ran out (its worker died). Each claim
+ * counts as an attempt.
+ */
+export async function claimJob(workerId: string): Promise<Job | null> {
+  const [row] = await sql<JobRow[]>`
+    UPDATE pdf_job
+    SET status = 'running',
+        attempts = attempts + 1,
+        locked_by = ${workerId},
+        locked_until = now() + ${LEASE_MS}::int * interval '1 millisecond',
+        updated_at = now()
+    WHERE id = (
+      SELECT id FROM pdf_job
+      WHERE (status = 'queued' AND run_after <= now())
+         OR (status = 'running' AND locked_until < now())
+      ORDER BY run_after
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+  return row ? toJob(row) : null;
+}
+
+/**
+ * Extend a running job's lease. Returns false when the job is no longer
+ * this worker's (the lease ran out and another worker claimed it).
+ */
+export async function extendLease(
+  jobId: string,
+  workerId: string,
+): Promise<boolean> {
+  const rows = await sql`
+    UPDATE pdf_job
+    SET locked_until = now() + ${LEASE_MS}::int * interval '1 millisecond',
+        updated_at = now()
+    WHERE id = ${jobId} AND status = 'running' AND locked_by = ${workerId}
+  `;
+  return rows.count > 0;
+}
+
+/**
+ * Record a successful run. Returns the updated job, or null when the job
+ * is no longer this worker's and nothing was recorded.
+ */
+export async function completeJob(
+  jobId: string,
+  workerId: string,
+  result: ProcessResult,
+): Promise<Job | null> {
+  const [row] = await sql<JobRow[]>`
+    UPDATE pdf_job
+    SET status = 'completed',
+        result = ${JSON.stringify(result)}::jsonb,
+        last_error = NULL,
+        locked_by = NULL,
+        locked_until = NULL,
+        updated_at = now(),
+        finished_at = now()
+    WHERE id = ${jobId} AND status = 'running' AND locked_by = ${workerId}
+    RETURNING *
+  `;
+  return row ? toJob(row) : null;
+}
+
+/**
+ * Wait before running a job again after its `attempts`-th failed run:
+ * 30 s, doubling, at most 10 min.
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+/**
+ * Record a failed run: the job is queued again after a backoff (30 s,
+ * doubling, at most 10 min) while attempts remain, otherwise it fails for
+ * good. Returns the updated job, or null when the job is no longer this
+ * worker's.
+ */
+export async function failJob(
+  job: Job,
+  workerId: string,
+  error: string,
+  result: ProcessResult | null,
+): Promise<Job | null> {
+  const retry = job.attempts < job.maxAttempts;
+  const delayMs = retryDelayMs(job.attempts);
+  const status: JobStatus = retry ? "queued" : "failed";
+
+  const [row] = await sql<JobRow[]>`
+    UPDATE pdf_job
+    SET status = ${status},
+        last_error = ${error},
+        result = ${result ? JSON.stringify(result) : null}::jsonb,
+        run_after = now() + ${retry ? delayMs : 0}::int * interval '1 millisecond',
+        locked_by = NULL,
+        locked_until = NULL,
+        updated_at = now(),
+        finished_at = CASE WHEN ${retry} THEN NULL ELSE now() END
+    WHERE id = ${job.id} AND status = 'running' AND locked_by = ${workerId}
+    RETURNING *
+  `;
+  return row ? toJob(row) : null;
+}
+
+/**
+ * Save the progress of a running job. Ignored once the job is no longer
+ * this worker's.
+ */
+export async function saveJobProgress(
+  jobId: string,
+  workerId: string,
+  progress: JobProgress,
+): Promise<void> {
+  await sql`
+    UPDATE pdf_job
+    SET progress = ${JSON.stringify(progress)}::jsonb,
+        updated_at = now()
+    WHERE id = ${jobId} AND status = 'running' AND locked_by = ${workerId}
+  `;
+}
+
+export async function getJob(jobId: string): Promise<Job | null> {
+  const [row] = await sql<JobRow[]>`
+    SELECT * FROM pdf_job WHERE id = ${jobId}
+  `;
+  return row ? toJob(row) : null;
+}
+
+/** The most recently created jobs, optionally only those with a status. */
+export async function listJobs(
+  status: JobStatus | null,
+  limit: number,
+): Promise<Job[]> {
+  const rows = await sql<JobRow[]>`
+    SELECT * FROM pdf_job
+    WHERE ${status}::text IS NULL OR status = ${status}
+    ORDER BY created_at DESC
+    LIMIT ${limit}
+  `;
+  return rows.map(toJob);
+}
+
+/**
+ * Hand a running job back to the queue without counting the attempt, for
+ * a worker that is shutting down.
+ */
+export async function releaseJob(
+  jobId: string,
+  workerId: string,
+): Promise<void> {
+  await sql`
+    UPDATE pdf_job
+    SET status = 'queued',
+        attempts = greatest(attempts - 1, 0),
+        run_after = now(),
+        locked_by = NULL,
+        locked_until = NULL,
+        updated_at = now()
+    WHERE id = ${jobId} AND status = 'running' AND locked_by = ${workerId}
+  `;
+}
@@ -0,0 +1,476 @@
+// ---------------------------------------------------------------------------
+// Canonical bank-statement schema. Parser scripts name their columns however
+// the statement does (`withdrawal_amt`, `debit`, `dr`, a signed `amount`,
+// ...); normalization maps them onto one schema and reports how each
+// canonical column was filled so the mapping can be reviewed.
+//
+// Port of the web app's lib/statement-schema.ts, which runs the same mapping
+// on CSV ingest; keep the two in step.
+// ---------------------------------------------------------------------------
+export const CANONICAL_COLUMNS = [
+  "txn_date",
+  "value_date",
+  "description",
+  "reference",
+  "debit",
+  "credit",
+  "amount",
+  "balance",
+  "currency",
+  "source_file",
+] as const;
+
+export type CanonicalColumn = (typeof CANONICAL_COLUMNS)[number];
+
+export type CanonicalValue = string | number | null;
+
+export interface ColumnMapping {
+  canonical: CanonicalColumn;
+  /** Source header(s) the values came from; empty when derived or unset. */
+  sources: string[];
+  /** How the column was filled, for the review screen. */
+  method: "mapped" | "derived" | "constant" | "missing";
+  note?: string;
+}
+
+export interface MappingReport {
+  /** False when the file does not look like a bank statement. */
+  recognized: boolean;
+  sourceFile: string;
+  mappings: ColumnMapping[];
+  /** Source headers that were not used. */
+  unmapped: string[];
+  /** Day/month order detected for dates, e.g. "DD/MM/YYYY". */
+  dateFormat: string | null;
+  rowCount: number;
+  /** Rows dropped because their transaction date could not be parsed. */
+  skippedRows: number;
+  warnings: string[];
+}
+
+export interface NormalizedStatement {
+  columns: CanonicalColumn[];
+  rows: CanonicalValue[][];
+  /** Index into the input records of each row (skipped rows leave gaps). */
+  sourceRows: number[];
+  report: MappingReport;
+}
+
+const HEADER_PATTERNS: Record<
+  Exclude<CanonicalColumn, "amount" | "source_file">,
+  RegExp
+> = {
+  txn_date:
+    /^(txn|tran|trans|transaction|posting|post|book(ing)?)?_?(date|dt)$/,
+  value_date: /^val(ue)?_?(date|dt)$/,
+  description:
+    /narration|description|particulars|details|remarks|narrative|memo/,
+  reference: /ref|chq|cheque|check|utr|instrument/,
+  debit: /debit|withdrawal|^dr$|^dr_|_dr$|paid_out|money_out/,
+  credit: /credit|deposit|^cr$|^cr_|_cr$|paid_in|money_in/,
+  balance: /balance|^bal$|_bal$/,
+  currency: /^(currency|ccy|curr)$/,
+};
+const AMOUNT_PATTERN = /amount|^amt$|_amt$|^value$/;
+/** A column holding DR/CR next to an unsigned amount. */
+const DIRECTION_PATTERN = /^(type|dr_?cr|cr_?dr|txn_type|debit_?credit)$/;
+
+const MONTHS: Record<string, number> = {
+  jan: 1,
+  feb: 2,
+  mar: 3,
+  apr: 4,
+  may: 5,
+  jun: 6,
+  jul: 7,
+  aug: 8,
+  sep: 9,
+  oct: 10,
+  nov: 11,
+  dec: 12,
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  "₹": "INR",
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+};
+
+function headerKey(header: string): string {
+  return header
+    .replace(/[\ufeff\u200b]/g, "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+// ---- Value parsing ----
+
+/**
+ * Parse an amount like "1,234.50", "₹ 1,234.50 Cr", "(250.00)" or "-12".
+ * Returns the number and any Dr/Cr marker found next to it.
+ */
+export function parseAmount(
+  raw: string | undefined,
+): { value: number; marker: "debit" | "credit" | null } | null {
+  if (raw === undefined) return null;
+  let text = raw.trim();
+  if (!text || text === "-") return null;
+
+  let marker: "debit" | "credit" | null = null;
+  const suffix = text.match(/\s*\(?(dr|cr)\.?\)?$/i);
+  if (suffix) {
+    marker = suffix[1]?.toLowerCase() === "dr" ? "debit" : "credit";
+    text = text.slice(0, suffix.index).trim();
+  }
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  text = text.replace(/[,\s₹$€£]|INR|USD|EUR|GBP|Rs\.?/gi, "");
+  if (!/^[-+]?\d*\.?\d+$/.test(text)) return null;
+
+  const value = Number(text);
+  return { value: negative ? -value : value, marker };
+}
+
+type DateOrder = "dmy" | "mdy" | "ymd";
+
+function splitDate(raw: string): [string, string, string] | null {
+  const parts = raw
+    .trim()
+    .replace(/[,]/g, " ")
+    .split(/[\s/.\-]+/)
+    .filter(Boolean);
+  const [first, second, third] = parts;
+  return first && second && third ? [first, second, third] : null;
+}
+
+/**
+ * Work out the day/month order from sample values: a first part above 12
+ * means day-first, a second part above 12 means month-first. Ambiguous
+ * samples default to day-first, which is what Indian banks use.
+ */
+function detectDateOrder(samples: string[]): DateOrder {
+  let dayFirst = false;
+  let monthFirst = false;
+  for (const sample of samples) {
+    const parts = splitDate(sample);
+    if (!parts) continue;
+    if (/^\d{4}$/.test(parts[0])) return "ymd";
+    const [a, b] = [Number(parts[0]), Number(parts[1])];
+    if (a > 12) dayFirst = true;
+    if (b > 12) monthFirst = true;
+  }
+  return monthFirst && !dayFirst ? "mdy" : "dmy";
+}
+
+const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  dmy: "DD/MM/YYYY",
+  mdy: "MM/DD/YYYY",
+  ymd: "YYYY-MM-DD",
+};
+
+function parseMonth(part: string): number {
+  const named = MONTHS[part.slice(0, 3).toLowerCase()];
+  return named ?? Number(part);
+}
+
+/** Parse a statement date to ISO (YYYY-MM-DD), or null. */
+export function parseStatementDate(
+  raw: string | undefined,
+  order: DateOrder,
+): string | null {
+  if (!raw) return null;
+  const parts = splitDate(raw);
+  if (!parts) return null;
+
+  let [day, month, year] = [0, 0, 0];
+  if (order === "ymd") {
+    year = Number(parts[0]);
+    month = parseMonth(parts[1]);
+    day = Number(parts[2]);
+  } else if (order === "mdy" && !isNaN(Number(parts[0]))) {
+    month = Number(parts[0]);
+    day = Number(parts[1]);
+    year = Number(parts[2].slice(0, 4));
+  } else {
+    // Day-first, or a named month in either position ("Jan 05 2024")
+    if (isNaN(Number(parts[0]))) {
+      month = parseMonth(parts[0]);
+      day = Number(parts[1]);
+    } else {
+      day = Number(parts[0]);
+      month = parseMonth(parts[1]);
+    }
+    year = Number(parts[2].slice(0, 4));
+  }
+
+  if (year < 100) year += 2000;
+  if (
+    !Number.isInteger(day) ||
+    !Number.isInteger(month) ||
+    !Number.isInteger(year) ||
+    month < 1 ||
+    month > 12 ||
+    day < 1 ||
+    day > 31
+  ) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// ---- Mapping ----
+
+function findHeader(
+  headers: string[],
+  pattern: RegExp,
+  used: Set<string>,
+  exclude?: RegExp,
+): string | null {
+  return (
+    headers.find((header) => {
+      const key = headerKey(header);
+      return (
+        !used.has(header) &&
+        pattern.test(key) &&
+        !(exclude && exclude.test(key))
+      );
+    }) ?? null
+  );
+}
+
+/**
+ * Map a parsed CSV onto the canonical statement schema. When the file is
+ * not recognised as a statement (no date, description or amount column) the
+ * report says so and no rows are returned.
+ */
+export function normalizeStatement(
+  headers: string[],
+  records: Record<string, string>[],
+  sourceFile: string,
+): NormalizedStatement {
+  const used = new Set<string>();
+  const pick = (pattern: RegExp, exclude?: RegExp) => {
+    const header = findHeader(headers, pattern, used, exclude);
+    if (header) used.add(header);
+    return header;
+  };
+
+  // Order matters: value date before txn date, balance before amounts
+  const valueDate = pick(HEADER_PATTERNS.value_date);
+  const txnDate = pick(HEADER_PATTERNS.txn_date);
+  const balance = pick(HEADER_PATTERNS.balance);
+  const debit = pick(HEADER_PATTERNS.debit, DIRECTION_PATTERN);
+  const credit = pick(HEADER_PATTERNS.credit, DIRECTION_PATTERN);
+  const amount = debit || credit ? null : pick(AMOUNT_PATTERN);
+  const direction = amount ? pick(DIRECTION_PATTERN) : null;
+  const description = pick(HEADER_PATTERNS.description);
+  const reference = pick(HEADER_PATTERNS.reference);
+  const currency = pick(HEADER_PATTERNS.currency);
+
+  const warnings: string[] = [];
+  const recognized = Boolean(
+    txnDate && description && (debit || credit || amount),
+  );
+
+  const baseReport: MappingReport = {
+    recognized,
+    sourceFile,
+    mappings: [],
+    unmapped: headers.filter((h) => !used.has(h)),
+    dateFormat: null,
+    rowCount: 0,
+    skippedRows: 0,
+    warnings,
+  };
+
+  if (!recognized) {
+    if (!txnDate) warnings.push("No transaction date column found.");
+    if (!description) warnings.push("No description/narration column found.");
+    if (!debit && !credit && !amount) {
+      warnings.push("No debit, credit or amount column found.");
+    }
+    return {
+      columns: [...CANONICAL_COLUMNS],
+      rows: [],
+      sourceRows: [],
+      report: baseReport,
+    };
+  }
+
+  const dateSamples = records
+    .slice(0, 200)
+    .map((r) => r[txnDate!])
+    .filter((v): v is string => Boolean(v));
+  const dateOrder = detectDateOrder(dateSamples);
+
+  let detectedCurrency: string | null = null;
+  const rows: CanonicalValue[][] = [];
+  const sourceRows: number[] = [];
+  let skippedRows = 0;
+
+  for (const [index, record] of records.entries()) {
+    const date = parseStatementDate(record[txnDate!], dateOrder);
+    if (!date) {
+      // Opening-balance lines, page totals and repeated headers
+      skippedRows++;
+      continue;
+    }
+
+    let debitValue: number | null = null;
+    let creditValue: number | null = null;
+    if (debit || credit) {
+      const d = debit ? parseAmount(record[debit]) : null;
+      const c = credit ? parseAmount(record[credit]) : null;
+      debitValue = d ? Math.abs(d.value) : null;
+      creditValue = c ? Math.abs(c.value) : null;
+    } else if (amount) {
+      const parsed = parseAmount(record[amount]);
+      if (parsed) {
+        const marker =
+          parsed.marker ??
+          (direction
+            ? /^d/i.test(record[direction] ?? "")
+              ? "debit"
+              : /^c/i.test(record[direction] ?? "")
+                ? "credit"
+                : null
+            : null);
+        const isDebit = marker ? marker === "debit" : parsed.value < 0;
+        if (isDebit) debitValue = Math.abs(parsed.value);
+        else creditValue = Math.abs(parsed.value);
+      }
+    }
+
+    const balanceValue = balance ? parseAmount(record[balance]) : null;
+
+    if (!detectedCurrency) {
+      const cells = [debit, credit, amount, balance]
+        .filter((h): h is string => Boolean(h))
+        .map((h) => record[h] ?? "");
+      for (const cell of cells) {
+        const symbol = Object.keys(CURRENCY_SYMBOLS).find((s) =>
+          cell.includes(s),
+        );
+        if (symbol) {
+          detectedCurrency = CURRENCY_SYMBOLS[symbol] ?? null;
+          break;
+        }
+      }
+    }
+
+    sourceRows.push(index);
+    rows.push([
+      date,
+      valueDate ? parseStatementDate(record[valueDate], dateOrder) : null,
+      record[description!]?.replace(/\s+/g, " ").trim() || null,
+      reference ? record[reference]?.trim() || null : null,
+      debitValue,
+      creditValue,
+      debitValue === null && creditValue === null
+        ? null
+        : Math.round(((creditValue ?? 0) - (debitValue ?? 0)) * 100) / 100,
+      balanceValue
+        ? balanceValue.marker === "debit"
+          ? -Math.abs(balanceValue.value)
+          : balanceValue.value
+        : null,
+      currency ? record[currency]?.trim().toUpperCase() || null : null,
+      sourceFile,
+    ]);
+  }
+
+  // A detected symbol fills rows that had no currency column
+  if (!currency && detectedCurrency) {
+    for (const row of rows) row[8] = detectedCurrency;
+  }
+
+  if (skippedRows > 0) {
+    warnings.push(
+      `${skippedRows} row(s) without a parseable transaction date were skipped.`,
+    );
+  }
+  if (!balance) warnings.push("No balance column found.");
+
+  const mapped = (
+    canonical: CanonicalColumn,
+    source: string | null,
+    note?: string,
+  ): ColumnMapping =>
+    source
+      ? { canonical, sources: [source], method: "mapped", note }
+      : { canonical, sources: [], method: "missing" };
+
+  const mappings: ColumnMapping[] = [
+    mapped(
+      "txn_date",
+      txnDate,
+      `parsed as ${DATE_ORDER_LABELS[dateOrder]}, stored as YYYY-MM-DD`,
+    ),
+    mapped("value_date", valueDate),
+    mapped("description", description),
+    mapped("reference", reference),
+    amount
+      ? {
+          canonical: "debit",
+          sources: [amount, ...(direction ? [direction] : [])],
+          method: "derived",
+          note: direction
+            ? `amounts marked debit in "${direction}"`
+            : "negative amounts",
+        }
+      : mapped("debit", debit),
+    amount
+      ? {
+          canonical: "credit",
+          sources: [amount, ...(direction ? [direction] : [])],
+          method: "derived",
+          note: direction
+            ? `amounts marked credit in "${direction}"`
+            : "positive amounts",
+        }
+      : mapped("credit", credit),
+    {
+      canonical: "amount",
+      sources: [amount, debit, credit].filter((h): h is string => Boolean(h)),
+      method: "derived",
+      note: "credit − debit (negative = money out)",
+    },
+    mapped("balance", balance),
+    currency
+      ? mapped("currency", currency)
+      : detectedCurrency
+        ? {
+            canonical: "currency",
+            sources: [],
+            method: "derived",
+            note: `detected from currency symbols (${detectedCurrency})`,
+          }
+        : mapped("currency", null),
+    {
+      canonical: "source_file",
+      sources: [],
+      method: "constant",
+      note: sourceFile,
+    },
+  ];
+
+  return {
+    columns: [...CANONICAL_COLUMNS],
+    rows,
+    sourceRows,
+    report: {
+      ...baseReport,
+      mappings,
+      dateFormat: DATE_ORDER_LABELS[dateOrder],
+      rowCount: rows.length,
+      skippedRows,
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { access } from "fs/promises";
+import { runHelperScript } from "./python.js";
+import type { ExtractedPage, ExtractPagesResult } from "../types.js";
+
+/**
+ * Extract pages of a local PDF with the bundled helper scripts.
+ * `select` picks 0-based page numbers from the page count (e.g. first and
+ * last page, or all of them). Returns null when the PDF is missing or
+ * cannot be read, so callers can fall back to checks that need no pages.
+ */
+export async function readPdfPages(
+  pdfPath: string,
+  select: (pageCount: number) => number[],
+  timeoutMs = 20_000,
+): Promise<{ pageCount: number; pages: ExtractedPage[] } | null> {
+  try {
+    await access(pdfPath);
+  } catch {
+    return null;
+  }
+
+  const meta = await runHelperScript("get_metadata.py", [pdfPath]);
+  if (!meta.success) return null;
+
+  try {
+    const { pageCount } = JSON.parse(meta.output) as { pageCount: number };
+    const pageNumbers = [...new Set(select(pageCount))].filter(
+      (n) => n >= 0 && n < pageCount,
+    );
+    if (pageNumbers.length === 0) return { pageCount, pages: [] };
+
+    const extracted = await runHelperScript(
+      "extract_pages.py",
+      [pdfPath, pageNumbers.join(",")],
+      timeoutMs,
+    );
+    if (!extracted.success) return null;
+
+    const parsed = JSON.parse(extracted.output) as ExtractPagesResult;
+    return { pageCount, pages: parsed.pages };
+  } catch {
+    return null;
+  }
+}
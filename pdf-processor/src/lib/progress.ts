@@ -0,0 +1,183 @@
+import { logger } from "./logger.js";
+
+/**
+ * Live progress of one run of a job: the stage it is in, the agent's steps
+ * and every tool call so far. The worker saves it on the job row (see
+ * lib/job-queue.ts) as it changes, for `GET /jobs/:id`; the hooks around
+ * the tools (tools/index.ts) and processPdf feed it.
+ *
+ * The web app (lib/pdf-processor.ts) mirrors the shape — keep the two in
+ * step.
+ */
+
+export type JobStage =
+  | "starting"
+  | "analyzing"
+  | "matching_script"
+  | "executing"
+  | "verifying"
+  | "uploading"
+  | "finishing";
+
+export interface ToolCallRecord {
+  tool: string;
+  startedAt: string;
+  /** Null while the call runs. */
+  durationMs: number | null;
+  status: "running" | "ok" | "error";
+  error: string | null;
+}
+
+export interface JobProgress {
+  /** The job's attempt this run is. */
+  attempt: number;
+  stage: JobStage;
+  /** The stage for people, e.g. "Executing attempt 2". */
+  label: string;
+  /** Parser script runs so far. */
+  executions: number;
+  /** Agent steps (model calls) so far. */
+  steps: number;
+  toolCalls: ToolCallRecord[];
+  /** True when a trusted script is converting the PDF without the agent. */
+  fastPath: boolean;
+  startedAt: string;
+  stageStartedAt: string;
+  updatedAt: string;
+}
+
+export interface ProgressTracker {
+  /** Move to a stage outside a tool call (the fast path, the wrap-up). */
+  stage(stage: JobStage, options?: { fastPath?: boolean }): void;
+  /** Record the start of a tool call; returns its index for toolFinished. */
+  toolStarted(tool: string): number;
+  toolFinished(index: number, error: string | null): void;
+  stepFinished(): void;
+  snapshot(): JobProgress;
+}
+
+/** Each tool call moves the job to the stage of that tool. */
+const TOOL_STAGES: Record<string, JobStage> = {
+  analyzePdf: "analyzing",
+  findAndDownloadScript: "matching_script",
+  executeScript: "executing",
+  verifyCsvOutput: "verifying",
+  submitVerdict: "verifying",
+  uploadToR2: "uploading",
+};
+
+function stageLabel(stage: JobStage, executions: number): string {
+  switch (stage) {
+    case "starting":
+      return "Starting";
+    case "analyzing":
+      return "Analyzing PDF";
+    case "matching_script":
+      return "Matching script";
+    case "executing":
+      return `Executing attempt ${Math.max(1, executions)}`;
+    case "verifying":
+      return "Verifying";
+    case "uploading":
+      return "Uploading";
+    case "finishing":
+      return "Finishing";
+  }
+}
+
+/**
+ * Track a run's progress. Every change is passed to `save`, one at a time
+ * and in order; a failed save is logged and the run goes on.
+ */
+export function createProgressTracker(
+  attempt: number,
+  save: (progress: JobProgress) => Promise<void>,
+): ProgressTracker {
+  const now = () => new Date().toISOString();
+  const startedAt = now();
+  const progress: JobProgress = {
+    attempt,
+    stage: "starting",
+    label: stageLabel("starting", 0),
+    executions: 0,
+    steps: 0,
+    toolCalls: [],
+    fastPath: false,
+    startedAt,
+    stageStartedAt: startedAt,
+    updatedAt: startedAt,
+  };
+
+  let saving: Promise<void> = Promise.resolve();
+  const changed = () => {
+    progress.updatedAt = now();
+    const copy = structuredClone(progress);
+    saving = saving
+      .then(() => save(copy))
+      .catch((err) => {
+        logger.warn("Failed to save job progress", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+  };
+
+  const enter = (stage: JobStage) => {
+    if (stage !== progress.stage) {
+      progress.stage = stage;
+      progress.stageStartedAt = now();
+    }
+    progress.label = stageLabel(stage, progress.executions);
+  };
+
+  return {
+    stage(stage, options) {
+      if (options?.fastPath !== undefined) progress.fastPath = options.fastPath;
+      enter(stage);
+      changed();
+    },
+
+    toolStarted(tool) {
+      if (tool === "executeScript") progress.executions += 1;
+      const stage = TOOL_STAGES[tool];
+      if (stage) enter(stage);
+      progress.toolCalls.push({
+        tool,
+        startedAt: now(),
+        durationMs: null,
+        status: "running",
+        error: null,
+      });
+      changed();
+      return progress.toolCalls.length - 1;
+    },
+
+    toolFinished(index, error) {
+      const call = progress.toolCalls[index];
+      if (!call) return;
+      call.durationMs = Date.now() - Date.parse(call.startedAt);
+      call.status = error === null ? "ok" : "error";
+      call.error = error;
+      changed();
+    },
+
+    stepFinished() {
+      progress.steps += 1;
+      changed();
+    },
+
+    snapshot() {
+      return structuredClone(progress);
+    },
+  };
+}
+
+/**
+ * The tracker of the run a tool call belongs to: processPdf passes it to
+ * the agent as `experimental_context`.
+ */
+export function progressFromContext(context: unknown): ProgressTracker | null {
+  const tracker = context as Partial<ProgressTracker> | null | undefined;
+  return typeof tracker?.toolStarted === "function"
+    ? (tracker as ProgressTracker)
+    : null;
+}
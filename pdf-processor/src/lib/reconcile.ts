@@ -0,0 +1,317 @@
+import { readFile } from "fs/promises";
+import { parseCsv } from "./csv.js";
+import { normalizeStatement } from "./normalize.js";
+import { checkStatementBalances } from "./balance.js";
+import { readPdfPages } from "./pages.js";
+import { logger } from "./logger.js";
+import type { ExtractedPage } from "../types.js";
+
+/**
+ * Reconciliation report for one converted PDF: evidence that the CSV is
+ * complete, built without the LLM.
+ *
+ *   - transaction-like lines per PDF page vs rows in the CSV
+ *   - pages with no transactions (between pages that have some)
+ *   - CSV debit/credit totals vs the totals printed on the statement
+ *   - the balance checks from lib/balance.ts
+ *
+ * The report goes to R2 next to the CSV and into the webhook payload; the
+ * web app (lib/reconciliation.ts) mirrors the shape — keep the two in step.
+ */
+
+const TOLERANCE = 0.01;
+
+/** A line that starts with a date and carries an amount. */
+const DATE_START =
+  /^\s*(?:\d{1,2}[/\-. ](?:\d{1,2}|[A-Za-z]{3,9})[/\-. ,]+\d{2,4}|\d{4}-\d{2}-\d{2}|[A-Za-z]{3,9}\s+\d{1,2},?\s+\d{4})\b/;
+const AMOUNT = /\d[\d,]*\.\d{2}\b/;
+
+export type ReconciliationStatus = "green" | "amber" | "red";
+
+export interface ReconciliationCheck {
+  name: string;
+  status: "pass" | "warn" | "fail" | "skipped";
+  detail: string;
+}
+
+export interface ReconciliationReport {
+  /** green: everything reconciles; amber: incomplete evidence; red: a mismatch. */
+  status: ReconciliationStatus;
+  generatedAt: string;
+  pageCount: number;
+  /** 1-based page numbers with the transaction-like lines found on each. */
+  pages: { page: number; transactionLines: number }[];
+  /** Pages without transactions that sit between pages with some. */
+  pagesWithoutRows: number[];
+  pdfTransactionLines: number;
+  csvRowCount: number;
+  totals: {
+    csvDebits: number;
+    csvCredits: number;
+    statementDebits: number | null;
+    statementCredits: number | null;
+  };
+  balances: {
+    statementOpening: number | null;
+    statementClosing: number | null;
+    csvOpening: number | null;
+    csvClosing: number | null;
+    breakCount: number;
+  };
+  checks: ReconciliationCheck[];
+}
+
+/** Text of one PDF page, kept for the web app's review screen. */
+export interface PageText {
+  /** 1-based page number. */
+  page: number;
+  text: string;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function countTransactionLines(text: string): number {
+  return text
+    .split("\n")
+    .filter((line) => DATE_START.test(line) && AMOUNT.test(line)).length;
+}
+
+function compareTotal(
+  name: string,
+  fromCsv: number,
+  printed: number | null,
+): ReconciliationCheck {
+  if (printed === null) {
+    return {
+      name,
+      status: "skipped",
+      detail: "Statement does not print this total.",
+    };
+  }
+  const diff = round2(fromCsv - Math.abs(printed));
+  return Math.abs(diff) <= TOLERANCE
+    ? { name, status: "pass", detail: `CSV and statement both ${fromCsv}.` }
+    : {
+        name,
+        status: "fail",
+        detail: `CSV ${fromCsv}, statement ${Math.abs(printed)} (off by ${diff}).`,
+      };
+}
+
+/**
+ * Build the report for a converted statement from the CSV content and the
+ * text of every PDF page. Without pages (null) the page checks are skipped
+ * (amber).
+ */
+export function reconcileStatement(
+  csvContent: string,
+  extracted: { pageCount: number; pages: ExtractedPage[] } | null,
+): ReconciliationReport {
+  const pageTexts = extracted?.pages.map((page) => page.text) ?? [];
+
+  const { headers, records } = parseCsv(csvContent);
+  const normalized = normalizeStatement(headers, records, "statement.csv");
+  // Canonical rows: debit at 4, credit at 5
+  const sum = (index: number) =>
+    round2(
+      normalized.rows.reduce((total, row) => {
+        const value = row[index];
+        return total + (typeof value === "number" ? value : 0);
+      }, 0),
+    );
+  const csvDebits = sum(4);
+  const csvCredits = sum(5);
+
+  const summaryText =
+    pageTexts.length > 0
+      ? [pageTexts[0], pageTexts[pageTexts.length - 1]].join("\n")
+      : null;
+  const balance = checkStatementBalances(csvContent, summaryText);
+
+  const pages = (extracted?.pages ?? []).map((page) => ({
+    page: page.pageNum + 1,
+    transactionLines: countTransactionLines(page.text),
+  }));
+  const withRows = pages.filter((p) => p.transactionLines > 0);
+  const firstWithRows = withRows[0]?.page ?? 0;
+  const lastWithRows = withRows[withRows.length - 1]?.page ?? 0;
+  const pagesWithoutRows = pages
+    .filter(
+      (p) =>
+        p.transactionLines === 0 &&
+        p.page > firstWithRows &&
+        p.page < lastWithRows,
+    )
+    .map((p) => p.page);
+  const pdfTransactionLines = pages.reduce(
+    (total, p) => total + p.transactionLines,
+    0,
+  );
+  const csvRowCount = normalized.rows.length;
+
+  const checks: ReconciliationCheck[] = [];
+
+  if (!extracted) {
+    checks.push({
+      name: "Rows per page",
+      status: "skipped",
+      detail: "PDF pages could not be read.",
+    });
+  } else if (pdfTransactionLines === csvRowCount) {
+    checks.push({
+      name: "Rows per page",
+      status: "pass",
+      detail: `${csvRowCount} CSV rows match ${pdfTransactionLines} transaction lines across ${pages.length} page(s).`,
+    });
+  } else {
+    checks.push({
+      name: "Rows per page",
+      status: "warn",
+      detail: `${csvRowCount} CSV rows vs ${pdfTransactionLines} transaction-like lines in the PDF. Line detection is approximate; check the pages listed.`,
+    });
+  }
+
+  checks.push(
+    pagesWithoutRows.length > 0
+      ? {
+          name: "Pages without rows",
+          status: "warn",
+          detail: `No transactions found on page(s) ${pagesWithoutRows.join(", ")}.`,
+        }
+      : {
+          name: "Pages without rows",
+          status: extracted ? "pass" : "skipped",
+          detail: extracted
+            ? "Every page between the first and last transaction has rows."
+            : "PDF pages could not be read.",
+        },
+  );
+
+  checks.push(
+    compareTotal("Total debits", csvDebits, balance.summary.totalDebits),
+    compareTotal("Total credits", csvCredits, balance.summary.totalCredits),
+  );
+
+  const balanceErrors = balance.errors.filter(
+    (e) => e.code === "balance_break",
+  );
+  checks.push(
+    balance.order === null
+      ? {
+          name: "Running balance",
+          status: "skipped",
+          detail: "No balance column.",
+        }
+      : balanceErrors.length > 0
+        ? {
+            name: "Running balance",
+            status: "fail",
+            detail: `${balance.breakCount} break(s), first at CSV row ${balanceErrors[0]?.row}.`,
+          }
+        : {
+            name: "Running balance",
+            status: "pass",
+            detail: `Every balance follows from the previous row (${balance.order}).`,
+          },
+  );
+
+  const summaryErrors = balance.errors.filter(
+    (e) => e.code !== "balance_break",
+  );
+  const printedBalances =
+    balance.summary.openingBalance !== null ||
+    balance.summary.closingBalance !== null;
+  checks.push(
+    summaryErrors.length > 0
+      ? {
+          name: "Opening/closing balance",
+          status: "fail",
+          detail: summaryErrors.map((e) => e.message).join(" "),
+        }
+      : {
+          name: "Opening/closing balance",
+          status: printedBalances ? "pass" : "skipped",
+          detail: printedBalances
+            ? "Printed balances match the CSV."
+            : "Statement does not print opening/closing balances.",
+        },
+  );
+
+  // Red on any mismatch; green only when the pages were read, at least one
+  // hard check (totals or balances) passed and nothing needs a second look
+  const hardChecks = checks.filter((c) =>
+    [
+      "Total debits",
+      "Total credits",
+      "Running balance",
+      "Opening/closing balance",
+    ].includes(c.name),
+  );
+  const status: ReconciliationStatus = checks.some((c) => c.status === "fail")
+    ? "red"
+    : !extracted ||
+        checks.some((c) => c.status === "warn") ||
+        !hardChecks.some((c) => c.status === "pass")
+      ? "amber"
+      : "green";
+
+  const report: ReconciliationReport = {
+    status,
+    generatedAt: new Date().toISOString(),
+    pageCount: extracted?.pageCount ?? 0,
+    pages,
+    pagesWithoutRows,
+    pdfTransactionLines,
+    csvRowCount,
+    totals: {
+      csvDebits,
+      csvCredits,
+      statementDebits: balance.summary.totalDebits,
+      statementCredits: balance.summary.totalCredits,
+    },
+    balances: {
+      statementOpening: balance.summary.openingBalance,
+      statementClosing: balance.summary.closingBalance,
+      csvOpening: balance.csvOpeningBalance,
+      csvClosing: balance.csvClosingBalance,
+      breakCount: balance.breakCount,
+    },
+    checks,
+  };
+  return report;
+}
+
+/**
+ * Build the report for a converted statement from the CSV and its source
+ * PDF, and return the page text it was built from. Pages that cannot be
+ * read leave the page checks skipped (amber).
+ */
+export async function buildReconciliation(
+  csvPath: string,
+  pdfPath: string,
+): Promise<{ report: ReconciliationReport; pageTexts: PageText[] }> {
+  const csvContent = await readFile(csvPath, "utf-8");
+  const extracted = await readPdfPages(
+    pdfPath,
+    (pageCount) => Array.from({ length: pageCount }, (_, i) => i),
+    120_000,
+  );
+  const report = reconcileStatement(csvContent, extracted);
+
+  logger.info("Reconciliation report built", {
+    csvPath,
+    status: report.status,
+    csvRowCount: report.csvRowCount,
+    pdfTransactionLines: report.pdfTransactionLines,
+    pagesWithoutRows: report.pagesWithoutRows,
+  });
+  return {
+    report,
+    pageTexts: (extracted?.pages ?? []).map((page) => ({
+      page: page.pageNum + 1,
+      text: page.text,
+    })),
+  };
+}
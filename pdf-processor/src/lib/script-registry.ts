@@ -0,0 +1,407 @@
+import { randomUUID } from "crypto";
+import { sql } from "./db.js";
+import { downloadR2AsText, listR2Objects, uploadToR2 } from "./r2.js";
+import { logger } from "./logger.js";
+import { detectBank } from "./banks.js";
+import {
+  fingerprintSimilarity,
+  type LayoutFingerprint,
+} from "./fingerprint.js";
+
+/**
+ * Registry of parser scripts, kept in Postgres (lib/db.ts) with the scripts
+ * themselves in R2. Each layout (a fingerprint, see lib/fingerprint.ts) has
+ * a list of script versions with their success and failure counts:
+ *
+ *   script_layout                   one row per layout
+ *   script_version                  one row per version, with its counts
+ *   scripts/<layoutId>/v<n>.py      the scripts
+ *
+ * A new PDF reuses the best-performing version of the most similar layout,
+ * if the layouts are similar enough. Run counts are single-row updates, and
+ * registrations hold a lock while they match a layout and number the
+ * version, so concurrent jobs neither lose a count nor a version.
+ *
+ * On first start the registry is seeded with what R2 already holds: the
+ * layouts of the old `scripts/registry.json` index, and the scripts from
+ * before layouts (`scripts/<bank>.py`). Those carry no fingerprint; they
+ * are matched by the bank named in their file name and take the
+ * fingerprint of the first PDF they convert confidently (adoptLayout).
+ */
+
+/** Layouts at least this similar are treated as the same layout. */
+export const MATCH_THRESHOLD = 0.75;
+
+/**
+ * A version with at least this many successes, and a success rate of at
+ * least TRUSTED_SUCCESS_RATE, is trusted to run without the agent.
+ */
+const TRUSTED_MIN_SUCCESSES = 3;
+const TRUSTED_SUCCESS_RATE = 0.8;
+
+/** Serializes registrations and seeding (pg_advisory_xact_lock). */
+const REGISTRY_LOCK = 7_311_042;
+
+const LEGACY_INDEX_KEY = "scripts/registry.json";
+
+export interface ScriptVersion {
+  version: number;
+  key: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  successCount: number;
+  failureCount: number;
+}
+
+export interface LayoutEntry {
+  layoutId: string;
+  /** Null for a script from before layouts that has not been adopted yet. */
+  fingerprint: LayoutFingerprint | null;
+  /** The bank a script from before layouts was named after. */
+  bank: string | null;
+  /** The PDF the layout was first seen in, for humans reading the list. */
+  firstPdfKey: string | null;
+  versions: ScriptVersion[];
+}
+
+export interface ScriptMatch {
+  layoutId: string;
+  /** Fingerprint similarity; 0 for a match by bank name. */
+  similarity: number;
+  matchedBy: "fingerprint" | "bank";
+  script: ScriptVersion;
+}
+
+interface LayoutRow {
+  layout_id: string;
+  fingerprint: LayoutFingerprint | null;
+  bank: string | null;
+  first_pdf_key: string | null;
+}
+
+interface VersionRow {
+  layout_id: string;
+  version: number;
+  key: string;
+  created_at: Date;
+  last_used_at: Date | null;
+  success_count: number;
+  failure_count: number;
+}
+
+function toScriptVersion(row: VersionRow): ScriptVersion {
+  return {
+    version: row.version,
+    key: row.key,
+    createdAt: row.created_at.toISOString(),
+    lastUsedAt: row.last_used_at?.toISOString() ?? null,
+    successCount: row.success_count,
+    failureCount: row.failure_count,
+  };
+}
+
+/** The shape of the old R2 index, read once when seeding. */
+interface LegacyIndex {
+  layouts?: {
+    layoutId: string;
+    fingerprint: LayoutFingerprint;
+    firstPdfKey: string;
+    versions: ScriptVersion[];
+  }[];
+}
+
+async function readLegacyIndex(): Promise<LegacyIndex> {
+  try {
+    return JSON.parse(await downloadR2AsText(LEGACY_INDEX_KEY)) as LegacyIndex;
+  } catch (err) {
+    if (err instanceof Error && err.name === "NoSuchKey") return {};
+    throw err;
+  }
+}
+
+/**
+ * Create the registry tables if they do not exist yet, and seed them from
+ * R2 when they are empty. Run once at startup.
+ */
+export async function ensureScriptRegistry(): Promise<void> {
+  await sql`
+    CREATE TABLE IF NOT EXISTS script_layout (
+      layout_id text PRIMARY KEY,
+      fingerprint jsonb,
+      bank text,
+      first_pdf_key text,
+      created_at timestamptz NOT NULL DEFAULT now()
+    )
+  `;
+  await sql`
+    CREATE TABLE IF NOT EXISTS script_version (
+      layout_id text NOT NULL REFERENCES script_layout (layout_id),
+      version integer NOT NULL,
+      key text NOT NULL,
+      created_at timestamptz NOT NULL DEFAULT now(),
+      last_used_at timestamptz,
+      success_count integer NOT NULL DEFAULT 0,
+      failure_count integer NOT NULL DEFAULT 0,
+      PRIMARY KEY (layout_id, version)
+    )
+  `;
+
+  // Read R2 before taking the lock; only the first instance to start seeds
+  const [seeded] = await sql`SELECT 1 FROM script_layout LIMIT 1`;
+  if (seeded) return;
+
+  const index = await readLegacyIndex();
+  const legacyKeys = (await listR2Objects("scripts/")).filter(
+    (key) => key.endsWith(".py") && !key.slice("scripts/".length).includes("/"),
+  );
+
+  await sql.begin(async (tx) => {
+    await tx`SELECT pg_advisory_xact_lock(${REGISTRY_LOCK})`;
+    const [seededMeanwhile] = await tx`SELECT 1 FROM script_layout LIMIT 1`;
+    if (seededMeanwhile) return;
+
+    for (const layout of index.layouts ?? []) {
+      await tx`
+        INSERT INTO script_layout (layout_id, fingerprint, first_pdf_key)
+        VALUES (${layout.layoutId}, ${JSON.stringify(layout.fingerprint)}::jsonb,
+                ${layout.firstPdfKey})
+      `;
+      for (const v of layout.versions) {
+        await tx`
+          INSERT INTO script_version (layout_id, version, key, created_at,
+                                      last_used_at, success_count, failure_count)
+          VALUES (${layout.layoutId}, ${v.version}, ${v.key}, ${v.createdAt},
+                  ${v.lastUsedAt}, ${v.successCount}, ${v.failureCount})
+        `;
+      }
+    }
+
+    for (const key of legacyKeys) {
+      const name = key.slice("scripts/".length, -".py".length).toLowerCase();
+      const bank = detectBank(name);
+      if (!bank) {
+        logger.warn("Seeded script names no known bank; it is never reused", {
+          key,
+        });
+      }
+      const layoutId = `legacy-${name}`;
+      await tx`
+        INSERT INTO script_layout (layout_id, bank)
+        VALUES (${layoutId}, ${bank})
+      `;
+      await tx`
+        INSERT INTO script_version (layout_id, version, key)
+        VALUES (${layoutId}, 1, ${key})
+      `;
+    }
+
+    logger.info("Script registry seeded from R2", {
+      layouts: index.layouts?.length ?? 0,
+      legacyScripts: legacyKeys.length,
+    });
+  });
+}
+
+/**
+ * Laplace-smoothed success rate: an untried script ranks at 0.5, and one
+ * success does not outrank a long record.
+ */
+function successRate(script: ScriptVersion): number {
+  return (
+    (script.successCount + 1) / (script.successCount + script.failureCount + 2)
+  );
+}
+
+/**
+ * Whether a version's record is good enough to run it without the agent
+ * (processPdf's fast path).
+ */
+export function isTrusted(script: ScriptVersion): boolean {
+  return (
+    script.successCount >= TRUSTED_MIN_SUCCESSES &&
+    successRate(script) >= TRUSTED_SUCCESS_RATE
+  );
+}
+
+/** The version a new PDF of this layout would reuse. */
+export function bestVersion(entry: LayoutEntry): ScriptVersion | null {
+  return (
+    [...entry.versions].sort(
+      (a, b) => successRate(b) - successRate(a) || b.version - a.version,
+    )[0] ?? null
+  );
+}
+
+/** The most similar layout, if it is similar enough to count as the same. */
+export function matchLayout(
+  layouts: LayoutEntry[],
+  fingerprint: LayoutFingerprint,
+): { entry: LayoutEntry; similarity: number } | null {
+  let closest: { entry: LayoutEntry; similarity: number } | null = null;
+  for (const entry of layouts) {
+    if (!entry.fingerprint) continue;
+    const similarity = fingerprintSimilarity(fingerprint, entry.fingerprint);
+    if (!closest || similarity > closest.similarity) {
+      closest = { entry, similarity };
+    }
+  }
+  return closest && closest.similarity >= MATCH_THRESHOLD ? closest : null;
+}
+
+/**
+ * A script from before layouts named after the bank in the PDF's header,
+ * the way those scripts were found before the registry.
+ */
+function matchBank(
+  layouts: LayoutEntry[],
+  fingerprint: LayoutFingerprint,
+): LayoutEntry | null {
+  const bank = fingerprint.bank;
+  if (!bank) return null;
+  return (
+    layouts.find((entry) => !entry.fingerprint && entry.bank === bank) ?? null
+  );
+}
+
+/** Every registered layout with its script versions. */
+export async function listLayouts(): Promise<LayoutEntry[]> {
+  const layouts = await sql<LayoutRow[]>`
+    SELECT layout_id, fingerprint, bank, first_pdf_key
+    FROM script_layout
+    ORDER BY created_at, layout_id
+  `;
+  const versions = await sql<VersionRow[]>`
+    SELECT * FROM script_version ORDER BY layout_id, version
+  `;
+  return layouts.map((row) => ({
+    layoutId: row.layout_id,
+    fingerprint: row.fingerprint,
+    bank: row.bank,
+    firstPdfKey: row.first_pdf_key,
+    versions: versions
+      .filter((v) => v.layout_id === row.layout_id)
+      .map(toScriptVersion),
+  }));
+}
+
+/**
+ * The best-performing script for the layout matching `fingerprint`, or null
+ * when no registered layout is similar enough and no script from before
+ * layouts names the PDF's bank.
+ */
+export async function findBestScript(
+  fingerprint: LayoutFingerprint,
+): Promise<ScriptMatch | null> {
+  const layouts = await listLayouts();
+  const match = matchLayout(layouts, fingerprint);
+  const entry = match?.entry ?? matchBank(layouts, fingerprint);
+  if (!entry) return null;
+
+  const script = bestVersion(entry);
+  return script
+    ? {
+        layoutId: entry.layoutId,
+        similarity: match?.similarity ?? 0,
+        matchedBy: match ? "fingerprint" : "bank",
+        script,
+      }
+    : null;
+}
+
+/** Count a run of a registered script as a success or a failure. */
+export async function recordScriptRun(
+  layoutId: string,
+  version: number,
+  succeeded: boolean,
+): Promise<void> {
+  const [row] = await sql<VersionRow[]>`
+    UPDATE script_version
+    SET success_count = success_count + ${succeeded ? 1 : 0},
+        failure_count = failure_count + ${succeeded ? 0 : 1},
+        last_used_at = now()
+    WHERE layout_id = ${layoutId} AND version = ${version}
+    RETURNING *
+  `;
+  if (!row) {
+    logger.warn("Script run for unknown registry entry", { layoutId, version });
+    return;
+  }
+
+  logger.info("Script run recorded", {
+    layoutId,
+    version,
+    succeeded,
+    successCount: row.success_count,
+    failureCount: row.failure_count,
+  });
+}
+
+/**
+ * Give a script from before layouts the fingerprint of a PDF it converted
+ * confidently, so it is matched like any other layout from then on. Does
+ * nothing for a layout that has a fingerprint.
+ */
+export async function adoptLayout(
+  layoutId: string,
+  fingerprint: LayoutFingerprint,
+  pdfKey: string,
+): Promise<void> {
+  const adopted = await sql`
+    UPDATE script_layout
+    SET fingerprint = ${JSON.stringify(fingerprint)}::jsonb,
+        first_pdf_key = ${pdfKey}
+    WHERE layout_id = ${layoutId} AND fingerprint IS NULL
+  `;
+  if (adopted.count > 0) {
+    logger.info("Script from before layouts adopted a fingerprint", {
+      layoutId,
+      pdfKey,
+    });
+  }
+}
+
+/**
+ * Store a script that produced a good CSV as a new version of its layout
+ * (a new layout when none matches), with one success to its name.
+ */
+export async function registerScript(
+  fingerprint: LayoutFingerprint,
+  script: string,
+  pdfKey: string,
+): Promise<{ layoutId: string; version: number; key: string }> {
+  // Two jobs registering at once would otherwise both create the layout,
+  // or both take the same version number
+  const registered = await sql.begin(async (tx) => {
+    await tx`SELECT pg_advisory_xact_lock(${REGISTRY_LOCK})`;
+
+    let layoutId = matchLayout(await listLayouts(), fingerprint)?.entry
+      .layoutId;
+    if (!layoutId) {
+      layoutId = `layout-${randomUUID().slice(0, 8)}`;
+      await tx`
+        INSERT INTO script_layout (layout_id, fingerprint, first_pdf_key)
+        VALUES (${layoutId}, ${JSON.stringify(fingerprint)}::jsonb, ${pdfKey})
+      `;
+    }
+
+    const [row] = await tx<{ next: number }[]>`
+      SELECT coalesce(max(version), 0) + 1 AS next
+      FROM script_version WHERE layout_id = ${layoutId}
+    `;
+    const next = row!.next;
+    const { key } = await uploadToR2(
+      `scripts/${layoutId}/v${next}.py`,
+      script,
+      "text/x-python",
+    );
+    await tx`
+      INSERT INTO script_version (layout_id, version, key, last_used_at,
+                                  success_count)
+      VALUES (${layoutId}, ${next}, ${key}, now(), 1)
+    `;
+    return { layoutId, version: next, key };
+  });
+
+  logger.info("Script registered", registered);
+  return registered;
+}
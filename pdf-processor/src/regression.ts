@@ -0,0 +1,142 @@
+import { downloadR2AsText } from "./lib/r2.js";
+import { logger } from "./lib/logger.js";
+import {
+  casesForLayout,
+  loadGoldenCases,
+  runGoldenSet,
+  type GoldenResult,
+} from "./lib/golden.js";
+import { closeDb } from "./lib/db.js";
+import {
+  bestVersion,
+  ensureScriptRegistry,
+  listLayouts,
+} from "./lib/script-registry.js";
+
+/**
+ * Regression suite for the registered parser scripts:
+ *
+ *   npm run regression -- <goldenDir>
+ *
+ * Runs every version of every registered layout against the golden PDFs
+ * of that layout (see lib/golden.ts) and prints the differences from the
+ * expected CSVs. Exits with 1 when the version new PDFs would reuse fails
+ * a golden PDF; failing older versions are reported but do not fail the
+ * run.
+ */
+
+function print(line = ""): void {
+  process.stdout.write(line + "\n");
+}
+
+function printResult(result: GoldenResult): void {
+  if (result.passed) {
+    print(`      ok    ${result.name}`);
+    return;
+  }
+  if (result.error) {
+    print(
+      `      FAIL  ${result.name}: ${result.error.trim().split("\n").pop()}`,
+    );
+    return;
+  }
+  print(
+    `      FAIL  ${result.name}: ${result.diffCount} difference(s), ` +
+      `${result.actualRows}/${result.expectedRows} rows`,
+  );
+  for (const diff of result.diffs) {
+    const where =
+      diff.row === null
+        ? `header ${diff.column}`
+        : `row ${diff.row}${diff.column ? ` ${diff.column}` : ""}`;
+    print(
+      `            ${where}: expected "${diff.expected}", got "${diff.actual}"`,
+    );
+  }
+}
+
+async function main(): Promise<number> {
+  const goldenDir = process.argv[2] ?? process.env.GOLDEN_DIR;
+  if (!goldenDir) {
+    print("Usage: npm run regression -- <goldenDir>");
+    return 2;
+  }
+
+  const cases = await loadGoldenCases(goldenDir);
+  await ensureScriptRegistry();
+  const layouts = await listLayouts();
+  print(
+    `${cases.length} golden PDF(s), ${layouts.length} registered layout(s)`,
+  );
+
+  let bestFailed = 0;
+  const covered = new Set<string>();
+
+  for (const entry of layouts) {
+    print();
+    if (!entry.fingerprint) {
+      print(
+        `${entry.layoutId} (script from before layouts, ${entry.bank ?? "no bank"})`,
+      );
+      print("  not fingerprinted yet, no golden PDFs to match");
+      continue;
+    }
+
+    const layoutCases = casesForLayout(cases, entry.fingerprint);
+    layoutCases.forEach((c) => covered.add(c.name));
+
+    print(`${entry.layoutId} (first seen in ${entry.firstPdfKey})`);
+    if (layoutCases.length === 0) {
+      print("  no golden PDFs for this layout");
+      continue;
+    }
+
+    const best = bestVersion(entry);
+    for (const version of entry.versions) {
+      const isBest = version.version === best?.version;
+      const script = await downloadR2AsText(version.key);
+      const check = await runGoldenSet(script, layoutCases);
+      const passed = check.results.filter((r) => r.passed).length;
+
+      print(
+        `  v${version.version}${isBest ? " (in use)" : ""}: ` +
+          `${passed}/${check.results.length} passed`,
+      );
+      check.results.forEach(printResult);
+      if (isBest && !check.passed) bestFailed += 1;
+    }
+  }
+
+  const unmatched = cases.filter((c) => !covered.has(c.name));
+  if (unmatched.length > 0) {
+    print();
+    print("Golden PDFs with no registered layout:");
+    for (const c of unmatched) {
+      print(
+        `  ${c.name}${c.fingerprint ? "" : " (could not be fingerprinted)"}`,
+      );
+    }
+  }
+
+  print();
+  if (bestFailed > 0) {
+    print(
+      `${bestFailed} layout(s) would reuse a script that fails its golden PDFs`,
+    );
+    return 1;
+  }
+  print("All scripts in use pass their golden PDFs");
+  return 0;
+}
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((err) => {
+    logger.error("Regression run failed", {
+      error: err instanceof Error ? err.message : String(err),
+    });
+    process.exitCode = 1;
+  })
+  .finally(() => closeDb());
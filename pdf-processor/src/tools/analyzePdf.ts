@@ -3,6 +3,7 @@ import { tool } from "ai";
 import { downloadFromR2 } from "../lib/r2.js";
 import { runHelperScript } from "../lib/python.js";
 import { logger } from "../lib/logger.js";
+import { fingerprintPdf, type LayoutFingerprint } from "../lib/fingerprint.js";
 import type {
   PdfMetadata,
   ExtractPagesResult,
@@ -17,6 +18,8 @@ import path from "path";
  *   1. Downloads the PDF from R2
  *   2. Extracts metadata (page count, file size, first-page text)
  *   3. Automatically samples front 3 + back 3 pages (or all if ≤6 pages)
+ *   4. Fingerprints the layout (lib/fingerprint.ts) and saves it in the job
+ *      directory, where findAndDownloadScript and processPdf pick it up
  *
  * This eliminates one LLM roundtrip compared to calling them separately.
  */
@@ -39,6 +42,7 @@ export const analyzePdfTool = tool({
     firstPageText: string;
     localPath: string;
     sampledPages: ExtractedPage[];
+    fingerprint: LayoutFingerprint | null;
   }> => {
     const localPdfPath = path.join(jobDir, "input.pdf");
 
@@ -120,10 +124,14 @@ export const analyzePdfTool = tool({
       }
     }
 
+    // --- Step 4: Fingerprint the layout for script matching ---
+    const fingerprint = await fingerprintPdf(localPdfPath, jobDir);
+
     logger.info("analyzePdf: complete", {
       pageCount: metadata.pageCount,
       fileSize: metadata.fileSize,
       sampledPages: extractedPages.pages.length,
+      columnHeaders: fingerprint?.columnHeaders,
     });
 
     return {
@@ -132,6 +140,7 @@ export const analyzePdfTool = tool({
       firstPageText: metadata.firstPageText,
       localPath: localPdfPath,
       sampledPages: extractedPages.pages,
+      fingerprint,
     };
   },
 });
@@ -3,6 +3,8 @@ import { tool } from "ai";
 import { executePython } from "../lib/python.js";
 import { readFile, readdir } from "fs/promises";
 import { logger } from "../lib/logger.js";
+import { parseCsv } from "../lib/csv.js";
+import { normalizeStatement, type MappingReport } from "../lib/normalize.js";
 
 /**
  * executeScript tool — Takes a Python script string and runs it against
@@ -17,6 +19,11 @@ import { logger } from "../lib/logger.js";
  * The tool returns the path to the generated CSV, a row count, a
  * short preview of the first few lines, and the path to the saved
  * parser script (for later upload to R2).
+ *
+ * On success the result also summarizes how the CSV maps onto the
+ * canonical statement schema (see lib/normalize.ts), so the model can fix
+ * column names or date parsing. The normalized CSV itself is produced from
+ * the CSV that is finally uploaded (uploadNormalized in agent.ts).
  */
 export const executeScriptTool = tool({
   description: `Execute a Python script that parses the PDF and produces a CSV file.
@@ -35,7 +42,12 @@ analyze the problem and generate a corrected script.
 
 On success, the result includes a \`scriptPath\` field — the absolute path
 to the saved Python script (parser.py) which can be uploaded to R2 alongside
-the CSV.`,
+the CSV.
+
+The result also includes a \`normalization\` summary: how the CSV's columns
+map onto the canonical statement schema (txn_date, description, debit,
+credit, balance, ...). If it is not recognized as a statement, or warns
+about skipped rows, fix the script's column names or date parsing.`,
 
   inputSchema: z.object({
     script: z
@@ -51,84 +63,95 @@ the CSV.`,
       .describe("The absolute path to the job's temporary directory."),
   }),
 
-  execute: async ({ script, pdfPath, jobDir }) => {
-    logger.info("Executing Python script", {
-      pdfPath,
-      jobDir,
-      scriptLength: script.length,
+  execute: async ({ script, pdfPath, jobDir }) =>
+    runParserScript(script, pdfPath, jobDir),
+});
+
+/**
+ * Run a parser script and pick up its CSV, as the tool does. processPdf's
+ * fast path calls this directly for a trusted registered script.
+ */
+export async function runParserScript(
+  script: string,
+  pdfPath: string,
+  jobDir: string,
+) {
+  logger.info("Executing Python script", {
+    pdfPath,
+    jobDir,
+    scriptLength: script.length,
+  });
+
+  const result = await executePython(script, pdfPath, jobDir, 120_000);
+
+  if (!result.success) {
+    logger.warn("Script execution failed", {
+      error: result.error,
+      stdout: result.output.slice(0, 500),
     });
 
-    const result = await executePython(script, pdfPath, jobDir, 120_000);
-
-    if (!result.success) {
-      logger.warn("Script execution failed", {
-        error: result.error,
-        stdout: result.output.slice(0, 500),
-      });
-
-      return {
-        success: false,
-        error:
-          (result.error ?? "Unknown error") +
-          "\n\nHINT: Check if you are accessing columns that don't exist. Use `print(df.columns)` to debug.",
-        stderr: result.error,
-        stdout: result.output.slice(0, 1000),
-        scriptPath: result.scriptPath ?? null,
-      };
-    }
+    return {
+      success: false,
+      error:
+        (result.error ?? "Unknown error") +
+        "\n\nHINT: Check if you are accessing columns that don't exist. Use `print(df.columns)` to debug.",
+      stderr: result.error,
+      stdout: result.output.slice(0, 1000),
+      scriptPath: result.scriptPath ?? null,
+    };
+  }
 
-    // The script should have printed the output CSV filename to stdout
-    const outputFilename = result.output.trim().split("\n").pop()?.trim();
-
-    if (!outputFilename) {
-      // Try to find a CSV file in the job directory
-      const csvFile = await findCsvInDir(jobDir);
-      if (csvFile) {
-        return await buildSuccessResult(
-          jobDir,
-          csvFile,
-          result.scriptPath ?? null,
-        );
-      }
-
-      return {
-        success: false,
-        error:
-          "Script exited successfully but did not print an output filename and no CSV file was found in the output directory.",
-        stdout: result.output.slice(0, 1000),
-        scriptPath: result.scriptPath ?? null,
-      };
+  // The script should have printed the output CSV filename to stdout
+  const outputFilename = result.output.trim().split("\n").pop()?.trim();
+
+  if (!outputFilename) {
+    // Try to find a CSV file in the job directory
+    const csvFile = await findCsvInDir(jobDir);
+    if (csvFile) {
+      return await buildSuccessResult(
+        jobDir,
+        csvFile,
+        result.scriptPath ?? null,
+      );
     }
 
-    // Check if the reported file actually exists
-    const csvPath = `${jobDir}/${outputFilename}`;
-    try {
-      await readFile(csvPath, "utf-8");
+    return {
+      success: false,
+      error:
+        "Script exited successfully but did not print an output filename and no CSV file was found in the output directory.",
+      stdout: result.output.slice(0, 1000),
+      scriptPath: result.scriptPath ?? null,
+    };
+  }
+
+  // Check if the reported file actually exists
+  const csvPath = `${jobDir}/${outputFilename}`;
+  try {
+    await readFile(csvPath, "utf-8");
+    return await buildSuccessResult(
+      jobDir,
+      outputFilename,
+      result.scriptPath ?? null,
+    );
+  } catch {
+    // The filename printed might not match — try to find any CSV
+    const csvFile = await findCsvInDir(jobDir);
+    if (csvFile) {
       return await buildSuccessResult(
         jobDir,
-        outputFilename,
+        csvFile,
         result.scriptPath ?? null,
       );
-    } catch {
-      // The filename printed might not match — try to find any CSV
-      const csvFile = await findCsvInDir(jobDir);
-      if (csvFile) {
-        return await buildSuccessResult(
-          jobDir,
-          csvFile,
-          result.scriptPath ?? null,
-        );
-      }
-
-      return {
-        success: false,
-        error: `Script printed "${outputFilename}" but no such file was found in ${jobDir}. Make sure the script writes the CSV to OUTPUT_DIR and prints just the filename.`,
-        stdout: result.output.slice(0, 1000),
-        scriptPath: result.scriptPath ?? null,
-      };
     }
-  },
-});
+
+    return {
+      success: false,
+      error: `Script printed "${outputFilename}" but no such file was found in ${jobDir}. Make sure the script writes the CSV to OUTPUT_DIR and prints just the filename.`,
+      stdout: result.output.slice(0, 1000),
+      scriptPath: result.scriptPath ?? null,
+    };
+  }
+}
 
 /**
  * Look for the first .csv file in a directory.
@@ -143,6 +166,26 @@ async function findCsvInDir(dir: string): Promise<string | null> {
   }
 }
 
+/**
+ * Map the CSV onto the canonical statement schema, for the summary in the
+ * result. A failure is logged and only leaves the summary out.
+ */
+function checkNormalization(
+  csvFilename: string,
+  content: string,
+): MappingReport | null {
+  try {
+    const { headers, records } = parseCsv(content);
+    return normalizeStatement(headers, records, csvFilename).report;
+  } catch (err) {
+    logger.warn("CSV normalization failed", {
+      csvFilename,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
+
 /**
  * Build the success response with a preview of the CSV content.
  */
@@ -157,6 +200,13 @@ async function buildSuccessResult(
   rowCount: number;
   preview: string;
   scriptPath: string | null;
+  normalization: {
+    recognized: boolean;
+    rowCount: number;
+    skippedRows: number;
+    unmapped: string[];
+    warnings: string[];
+  } | null;
 }> {
   const fullPath = `${jobDir}/${csvFilename}`;
   const content = await readFile(fullPath, "utf-8");
@@ -168,10 +218,13 @@ async function buildSuccessResult(
   const previewLines = lines.slice(0, 6);
   const preview = previewLines.join("\n");
 
+  const report = checkNormalization(csvFilename, content);
+
   logger.info("Script execution succeeded", {
     csvFilename,
     rowCount,
     scriptPath,
+    normalized: report?.recognized ?? false,
   });
 
   return {
@@ -181,5 +234,12 @@ async function buildSuccessResult(
     rowCount,
     preview,
     scriptPath,
+    normalization: report && {
+      recognized: report.recognized,
+      rowCount: report.rowCount,
+      skippedRows: report.skippedRows,
+      unmapped: report.unmapped,
+      warnings: report.warnings,
+    },
   };
 }
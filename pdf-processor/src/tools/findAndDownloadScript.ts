@@ -1,173 +1,103 @@
 import { tool } from "ai";
 import { z } from "zod";
-import { listR2Objects, downloadR2AsText } from "../lib/r2.js";
+import { downloadR2AsText } from "../lib/r2.js";
 import { logger } from "../lib/logger.js";
-
-/**
- * Common bank name keywords to match against script filenames.
- * The keys are lowercase tokens that might appear in the first page text,
- * and the values are potential filename substrings.
- */
-const BANK_KEYWORDS = [
-  "hdfc",
-  "icici",
-  "sbi",
-  "pnb",
-  "axis",
-  "kotak",
-  "idbi",
-  "bob", // Bank of Baroda
-  "canara",
-  "union",
-  "indian",
-  "indusind",
-  "yes bank",
-  "federal",
-  "rbl",
-  "bandhan",
-  "idfc",
-  "citi",
-  "hsbc",
-  "standard chartered",
-  "deutsche",
-  "barclays",
-];
+import { readJobFingerprint } from "../lib/fingerprint.js";
+import { findBestScript } from "../lib/script-registry.js";
 
 /**
  * findAndDownloadScript tool — Combined tool that replaces
  * findExistingScript + downloadScript in a single LLM roundtrip.
  *
  * It:
- *   1. Lists all scripts in R2 under `scripts/`
- *   2. Matches script names against bank identifiers found in firstPageText
- *   3. If a match is found, downloads and returns the cleaned script content
- *   4. If no match, returns { found: false } so the agent proceeds to generation
+ *   1. Reads the layout fingerprint analyzePdf saved in the job directory
+ *   2. Looks up the most similar registered layout (lib/script-registry.ts),
+ *      or a script from before layouts named after the PDF's bank
+ *   3. If one matches, downloads its best-performing script
+ *   4. If not, returns { found: false } so the agent proceeds to generation
+ *
+ * processPdf records afterwards whether the reused script worked, which
+ * feeds the ranking of the layout's versions.
  */
 export const findAndDownloadScriptTool = tool({
   description:
-    "Search R2 for an existing parser script that matches the current bank statement. " +
-    "Pass the first page text from analyzePdf so the tool can identify the bank name " +
-    "and match it against previously-generated script filenames. " +
-    "If a matching script is found, its cleaned source code is returned (ready to pass to executeScript). " +
+    "Search the script registry for a parser script written for this exact statement layout. " +
+    "Layouts are matched by fingerprint (column headers, header words, page geometry), which " +
+    "analyzePdf has already computed for the job. " +
+    "If a match is found, the best-performing script for that layout is returned (ready to pass to executeScript). " +
     "If no match is found, returns { found: false } — proceed to generate a new script.",
   inputSchema: z.object({
-    firstPageText: z
+    jobDir: z
       .string()
-      .describe(
-        "The text content of the first page of the PDF (from analyzePdf). " +
-          "Used to identify the bank name for matching against existing scripts.",
-      ),
+      .describe("The job directory passed to analyzePdf (same value)."),
   }),
-  execute: async ({ firstPageText }) => {
+  execute: async ({ jobDir }) => {
     logger.info("findAndDownloadScript: searching for matching script");
 
     try {
-      // 1. List all scripts in R2
-      const keys = await listR2Objects("scripts/");
-      const scriptKeys = keys.filter((k) => k.endsWith(".py"));
-
-      if (scriptKeys.length === 0) {
-        logger.info("findAndDownloadScript: no existing scripts found");
+      // 1. The fingerprint analyzePdf computed
+      const fingerprint = await readJobFingerprint(jobDir);
+      if (!fingerprint) {
+        logger.info("findAndDownloadScript: no fingerprint for this job");
         return {
           found: false,
           message:
-            "No existing parser scripts found in R2. Generate a new one.",
-          availableScripts: [],
+            "The PDF layout could not be fingerprinted. Generate a new script.",
         };
       }
 
-      logger.info("findAndDownloadScript: found scripts", {
-        count: scriptKeys.length,
-        scripts: scriptKeys,
-      });
-
-      // 2. Detect bank name from first page text
-      const firstPageLower = firstPageText.toLowerCase();
-      let detectedBank: string | null = null;
-
-      for (const keyword of BANK_KEYWORDS) {
-        if (firstPageLower.includes(keyword)) {
-          detectedBank = keyword;
-          break;
-        }
-      }
-
-      if (!detectedBank) {
-        logger.info(
-          "findAndDownloadScript: could not detect bank from first page text",
-        );
-        return {
-          found: false,
-          message:
-            "Could not identify the bank from the first page text. Generate a new script.",
-          availableScripts: scriptKeys,
-        };
-      }
-
-      logger.info("findAndDownloadScript: detected bank", {
-        bank: detectedBank,
-      });
-
-      // 3. Find a matching script
-      const matchingScript = scriptKeys.find((key) =>
-        key.toLowerCase().includes(detectedBank!),
-      );
-
-      if (!matchingScript) {
-        logger.info("findAndDownloadScript: no script matches detected bank", {
-          bank: detectedBank,
-          scripts: scriptKeys,
+      // 2. The closest registered layout and its best version
+      const match = await findBestScript(fingerprint);
+      if (!match) {
+        logger.info("findAndDownloadScript: no registered layout matches", {
+          columnHeaders: fingerprint.columnHeaders,
         });
         return {
           found: false,
-          message: `Detected bank "${detectedBank}" but no existing script matches. Generate a new one.`,
-          detectedBank,
-          availableScripts: scriptKeys,
+          message:
+            "No registered script matches this layout. Generate a new one.",
         };
       }
 
-      // 4. Download the matching script
+      // 3. Download it
       logger.info("findAndDownloadScript: downloading matching script", {
-        scriptKey: matchingScript,
-        bank: detectedBank,
+        layoutId: match.layoutId,
+        matchedBy: match.matchedBy,
+        similarity: match.similarity,
+        scriptKey: match.script.key,
       });
 
-      const content = await downloadR2AsText(matchingScript);
+      const content = await downloadR2AsText(match.script.key);
 
       if (!content || content.trim().length === 0) {
         return {
           found: false,
-          message: `Script at ${matchingScript} is empty. Generate a new one.`,
-          detectedBank,
-          availableScripts: scriptKeys,
+          message: `Script at ${match.script.key} is empty. Generate a new one.`,
         };
       }
 
-      // Strip the auto-injected preamble (PDF_PATH, OUTPUT_DIR, os.chdir)
-      const lines = content.split("\n");
-      const cleanedLines = lines.filter((line) => {
-        const trimmed = line.trim();
-        return (
-          !trimmed.startsWith("PDF_PATH =") &&
-          !trimmed.startsWith("OUTPUT_DIR =") &&
-          !trimmed.startsWith("os.chdir(OUTPUT_DIR)") &&
-          !(trimmed === "import os" && lines.indexOf(line) < 5)
-        );
-      });
-      const cleanedContent = cleanedLines.join("\n").trim();
+      const scriptContent = content.trim();
 
       logger.info("findAndDownloadScript: success", {
-        scriptKey: matchingScript,
-        bank: detectedBank,
-        cleanedLength: cleanedContent.length,
+        scriptKey: match.script.key,
+        length: scriptContent.length,
       });
 
       return {
         found: true,
-        scriptKey: matchingScript,
-        detectedBank,
-        scriptContent: cleanedContent,
-        message: `Found and downloaded script "${matchingScript}" for bank "${detectedBank}". Try running it with executeScript.`,
+        scriptKey: match.script.key,
+        layoutId: match.layoutId,
+        version: match.script.version,
+        matchedBy: match.matchedBy,
+        similarity: match.similarity,
+        successCount: match.script.successCount,
+        failureCount: match.script.failureCount,
+        scriptContent,
+        message: `Found script "${match.script.key}" (layout ${match.layoutId}, ${
+          match.matchedBy === "bank"
+            ? "matched by bank name"
+            : `similarity ${match.similarity}`
+        }, ${match.script.successCount} successes / ${match.script.failureCount} failures). Run it with executeScript exactly as returned.`,
       };
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
@@ -175,7 +105,6 @@ export const findAndDownloadScriptTool = tool({
       return {
         found: false,
         message: `Error searching for scripts: ${message}. Generate a new one.`,
-        availableScripts: [],
       };
     }
   },
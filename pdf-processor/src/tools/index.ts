@@ -1,13 +1,69 @@
+import type { Tool } from "ai";
 import { analyzePdfTool } from "./analyzePdf.js";
 import { executeScriptTool } from "./executeScript.js";
 import { uploadToR2Tool } from "./uploadToR2.js";
 import { verifyCsvOutputTool } from "./verifyCsvOutput.js";
 import { findAndDownloadScriptTool } from "./findAndDownloadScript.js";
+import { submitVerdictTool } from "./submitVerdict.js";
+import { progressFromContext } from "../lib/progress.js";
+
+/**
+ * The error a tool reported in its output: the tools return
+ * `success: false` (or `verified: false`) rather than throw.
+ */
+function outputError(output: unknown): string | null {
+  if (typeof output !== "object" || output === null) return null;
+  const { success, verified, error } = output as {
+    success?: unknown;
+    verified?: unknown;
+    error?: unknown;
+  };
+  if (success !== false && verified !== false) return null;
+  return typeof error === "string" && error
+    ? error
+    : success === false
+      ? "Failed"
+      : "Not verified";
+}
+
+/**
+ * Report each call of a tool to the job's progress tracker, passed by
+ * processPdf as the agent's `experimental_context`.
+ */
+function withProgress<T extends Tool>(name: string, wrapped: T): T {
+  const execute = wrapped.execute;
+  if (!execute) return wrapped;
+
+  return {
+    ...wrapped,
+    execute: async (input: unknown, options) => {
+      const progress = progressFromContext(options.experimental_context);
+      if (!progress) return execute(input, options);
+
+      const call = progress.toolStarted(name);
+      try {
+        const output = await execute(input, options);
+        progress.toolFinished(call, outputError(output));
+        return output;
+      } catch (err) {
+        progress.toolFinished(
+          call,
+          err instanceof Error ? err.message : String(err),
+        );
+        throw err;
+      }
+    },
+  };
+}
 
 export const tools = {
-  analyzePdf: analyzePdfTool,
-  executeScript: executeScriptTool,
-  uploadToR2: uploadToR2Tool,
-  verifyCsvOutput: verifyCsvOutputTool,
-  findAndDownloadScript: findAndDownloadScriptTool,
+  analyzePdf: withProgress("analyzePdf", analyzePdfTool),
+  executeScript: withProgress("executeScript", executeScriptTool),
+  uploadToR2: withProgress("uploadToR2", uploadToR2Tool),
+  verifyCsvOutput: withProgress("verifyCsvOutput", verifyCsvOutputTool),
+  findAndDownloadScript: withProgress(
+    "findAndDownloadScript",
+    findAndDownloadScriptTool,
+  ),
+  submitVerdict: withProgress("submitVerdict", submitVerdictTool),
 };
@@ -0,0 +1,45 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { logger } from "../lib/logger.js";
+
+/**
+ * submitVerdict tool — Records the agent's own judgement after comparing
+ * the verifyCsvOutput pages with the CSV rows.
+ *
+ * verifyCsvOutput only collects the evidence; this is where the agent says
+ * whether the rows actually match. The verdict for the uploaded CSV feeds
+ * the conversion's confidence score (lib/confidence.ts).
+ */
+export const submitVerdictTool = tool({
+  description:
+    "Record your verdict after comparing the pages returned by verifyCsvOutput " +
+    "with the CSV rows. Call it once per verifyCsvOutput call, before uploading. " +
+    "Be strict: set matches to false if any date, amount or description you " +
+    "compared is wrong, or if rows are missing or duplicated.",
+  inputSchema: z.object({
+    csvPath: z.string().describe("Absolute path to the CSV that was verified."),
+    matches: z
+      .boolean()
+      .describe(
+        "True only if every transaction on the compared pages appears in the CSV with the same date, amount and description.",
+      ),
+    pagesCompared: z
+      .array(z.number().int().min(0))
+      .describe("0-based page indices you compared against the CSV."),
+    issues: z
+      .array(z.string())
+      .default([])
+      .describe(
+        "Each mismatch or doubt found, e.g. 'page 4: 12 Mar refund missing'.",
+      ),
+  }),
+  execute: async ({ csvPath, matches, pagesCompared, issues }) => {
+    logger.info("Verification verdict submitted", {
+      csvPath,
+      matches,
+      pagesCompared,
+      issues,
+    });
+    return { recorded: true, matches };
+  },
+});
@@ -4,6 +4,7 @@ import { readFile } from "fs/promises";
 import path from "path";
 import { uploadToR2 as r2Upload } from "../lib/r2.js";
 import { logger } from "../lib/logger.js";
+import { verifyStatementBalances } from "../lib/balance.js";
 
 /**
  * uploadToR2 tool — Takes the CSV file produced by executeScript and
@@ -12,20 +13,32 @@ import { logger } from "../lib/logger.js";
  * The output key is derived from the original PDF key:
  *   pdfs/statement.pdf  →  csv/statement.csv
  *   some/nested/file.pdf  →  csv/file.csv
+ *
+ * CSVs must pass the running-balance check (lib/balance.ts) first, against
+ * the job's input.pdf next to them; a CSV with breaks is not uploaded and
+ * the errors go back to the agent. A mismatch with the opening/closing
+ * balances found on the statement does not block the upload: that match is
+ * a heuristic, so it fails the reconciliation instead and the file is held
+ * for review.
+ *
+ * Parser scripts are not uploaded here: processPdf stores them in the
+ * script registry (lib/script-registry.ts), which owns `scripts/`.
  */
 export const uploadToR2Tool = tool({
   description:
     "Upload a file to Cloudflare R2 storage. " +
-    "Can upload CSV files, Python scripts, or any other file. " +
+    "Use it for the CSV file; parser scripts are registered automatically " +
+    "and must not be uploaded. " +
     "Provide the local path to the file and the original PDF key. " +
     "For CSV files, the output key is auto-derived (csv/filename.csv). " +
-    "For other files (like Python scripts), set customOutputKey explicitly " +
-    "(e.g. 'scripts/filename.py').",
+    "CSV files are balance-checked first and refused if the running balance " +
+    "breaks. A mismatch with the statement's opening/closing balances does " +
+    "not block the upload, but holds the file for human review.",
   inputSchema: z.object({
     csvPath: z
       .string()
       .describe(
-        "Absolute local path to the file to upload (CSV, Python script, etc.).",
+        "Absolute local path to the file to upload (the CSV from executeScript).",
       ),
     originalPdfKey: z
       .string()
@@ -57,8 +70,45 @@ export const uploadToR2Tool = tool({
         };
       }
 
+      if (csvPath.endsWith(".csv")) {
+        const check = await verifyStatementBalances(
+          csvPath,
+          path.join(path.dirname(csvPath), "input.pdf"),
+        );
+        if (check.breakCount > 0) {
+          logger.warn("Refusing to upload CSV with running-balance breaks", {
+            csvPath,
+            breakCount: check.breakCount,
+          });
+          return {
+            success: false,
+            error:
+              "CSV failed the running-balance check and was not uploaded. " +
+              "Fix the parsing script, re-run executeScript and " +
+              "verifyCsvOutput, then upload again.",
+            balanceErrors: check.errors.filter(
+              (e) => e.code === "balance_break",
+            ),
+          };
+        }
+        if (!check.passed) {
+          logger.warn("Uploading CSV that misses the printed balances", {
+            csvPath,
+            errors: check.errors.map((e) => e.code),
+          });
+        }
+      }
+
       // Derive the output key
       const outputKey = customOutputKey ?? deriveOutputKey(originalPdfKey);
+      if (outputKey.startsWith("scripts/")) {
+        return {
+          success: false,
+          error:
+            "scripts/ belongs to the script registry; parser scripts are " +
+            "registered automatically after the CSV upload. Upload only the CSV.",
+        };
+      }
 
       // Determine content type from the file extension
       const contentType = csvPath.endsWith(".py")
@@ -105,7 +155,7 @@ export const uploadToR2Tool = tool({
  *   "uploads/2024/march.pdf"     → "csv/march.csv"
  *   "report.pdf"                 → "csv/report.csv"
  */
-function deriveOutputKey(pdfKey: string): string {
+export function deriveOutputKey(pdfKey: string): string {
   const basename = path.basename(pdfKey, path.extname(pdfKey));
   return `csv/${basename}.csv`;
 }
@@ -3,6 +3,10 @@ import { tool } from "ai";
 import { readFile } from "fs/promises";
 import { runHelperScript } from "../lib/python.js";
 import { logger } from "../lib/logger.js";
+import {
+  verifyStatementBalances,
+  type BalanceCheckResult,
+} from "../lib/balance.js";
 import type { ExtractPagesResult } from "../types.js";
 
 /**
@@ -13,6 +17,10 @@ import type { ExtractPagesResult } from "../types.js";
  * The agent should call this after executeScript succeeds, passing in
  * page numbers from the middle of the document that were NOT used
  * during the initial analysis phase.
+ *
+ * It also runs the deterministic balance checks (lib/balance.ts) and
+ * returns any failures as structured errors; uploadToR2 runs the same
+ * checks and refuses a CSV that fails them.
  */
 export const verifyCsvOutputTool = tool({
   description: `Verify the generated CSV by cross-checking it against pages from the middle of the PDF.
@@ -24,6 +32,16 @@ This tool:
 It returns both the extracted page data and the CSV content so you can
 compare them and determine whether the script correctly parsed the data.
 
+It also checks the numbers deterministically and returns \`balanceCheck\`:
+every row's balance must equal the previous balance - debit + credit, and the
+opening/closing balances printed on the first/last page must match the CSV.
+\`balanceCheck.errors\` lists each failure with its CSV row number. A
+running-balance break means the CSV is wrong (usually a dropped, duplicated
+or mis-signed row) — fix the script and re-run; uploadToR2 refuses a CSV
+with breaks. The opening/closing balances are read from the page text and
+can be misread: if they do not match, check the first and last rows, and
+if those are right, upload anyway — the file is then held for review.
+
 Call this AFTER executeScript succeeds, using page numbers from the
 middle of the document that were NOT part of the initial front/back
 sample. If the CSV content matches the data visible in the middle pages,
@@ -59,6 +77,7 @@ If verification fails, generate a corrected script and re-run.`,
     csvContent: string;
     csvRowCount: number;
     csvHeaders: string;
+    balanceCheck: BalanceCheckResult | null;
     verified: boolean;
     message: string;
   }> => {
@@ -85,6 +104,7 @@ If verification fails, generate a corrected script and re-run.`,
         csvContent: "",
         csvRowCount: 0,
         csvHeaders: "",
+        balanceCheck: null,
         verified: false,
         message: `Failed to extract middle pages: ${extractResult.error ?? "Unknown error"}`,
       };
@@ -105,6 +125,7 @@ If verification fails, generate a corrected script and re-run.`,
         csvContent: "",
         csvRowCount: 0,
         csvHeaders: "",
+        balanceCheck: null,
         verified: false,
         message: `Failed to parse page extraction output: ${String(parseError)}`,
       };
@@ -131,6 +152,7 @@ If verification fails, generate a corrected script and re-run.`,
         csvContent: "",
         csvRowCount: 0,
         csvHeaders: "",
+        balanceCheck: null,
         verified: false,
         message: `Failed to read CSV file at ${csvPath}: ${String(readError)}`,
       };
@@ -158,18 +180,65 @@ If verification fails, generate a corrected script and re-run.`,
       ].join("\n");
     }
 
+    // 3. Check the numbers
+    let balanceCheck: BalanceCheckResult | null = null;
+    try {
+      balanceCheck = await verifyStatementBalances(csvPath, pdfPath);
+    } catch (checkError) {
+      logger.warn("Balance check could not run", {
+        csvPath,
+        error: String(checkError),
+      });
+    }
+
     logger.info("Verification data collected", {
       pagesExtracted: extractedPages.pages.length,
       csvRowCount,
       csvHeaders,
+      balancePassed: balanceCheck?.passed ?? null,
     });
 
+    if (balanceCheck && balanceCheck.breakCount > 0) {
+      return {
+        pages: extractedPages.pages,
+        csvContent: csvForVerification,
+        csvRowCount,
+        csvHeaders,
+        balanceCheck,
+        verified: false,
+        message:
+          `Balance check FAILED with ${balanceCheck.breakCount} ` +
+          "running-balance break(s). See balanceCheck.errors for the rows " +
+          "involved. Fix the parsing script so no rows are dropped, " +
+          "duplicated or given the wrong debit/credit side, then re-run " +
+          "executeScript and verify again. Do NOT upload this CSV.",
+      };
+    }
+
+    if (balanceCheck && !balanceCheck.passed) {
+      return {
+        pages: extractedPages.pages,
+        csvContent: csvForVerification,
+        csvRowCount,
+        csvHeaders,
+        balanceCheck,
+        verified: false,
+        message:
+          "The running balance holds, but the opening/closing balance " +
+          "printed on the statement does not match the CSV (see " +
+          "balanceCheck.errors). Check the first and last rows against the " +
+          "pages. If the script is wrong, fix it and re-run; if the rows " +
+          "are right, upload the CSV — it will be held for human review.",
+      };
+    }
+
     return {
       pages: extractedPages.pages,
       csvContent: csvForVerification,
       csvRowCount,
       csvHeaders,
-      verified: true, // This just means data was collected; the agent decides if it passes
+      balanceCheck,
+      verified: true, // Data was collected and the numbers add up; the agent decides if it passes
       message:
         "Verification data collected successfully. Compare the extracted page " +
         "content with the CSV rows to determine if the parsing script is correct. " +
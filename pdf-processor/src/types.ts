@@ -12,6 +12,8 @@ export interface R2WebhookPayload {
   metadata?: {
     fileId: number | null;
     callbackUrl: string | null;
+    /** Generate a new parser script rather than reuse a registered one */
+    freshScript?: boolean;
   };
 }
 
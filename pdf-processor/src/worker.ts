@@ -0,0 +1,236 @@
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import { processPdf, type ProcessResult } from "./agent.js";
+import { logger } from "./lib/logger.js";
+import {
+  LEASE_MS,
+  claimJob,
+  completeJob,
+  extendLease,
+  failJob,
+  releaseJob,
+  saveJobProgress,
+  type Job,
+} from "./lib/job-queue.js";
+import { createProgressTracker } from "./lib/progress.js";
+import { enqueueCallback } from "./lib/callback-outbox.js";
+import { wakeDeliverer } from "./deliverer.js";
+
+/**
+ * Worker pool for the job queue (lib/job-queue.ts): WORKER_CONCURRENCY
+ * loops, each claiming one job at a time and running processPdf on it.
+ * The callback is queued once a job is done for good — completed, or
+ * failed on its last attempt; failed runs with attempts left are retried
+ * without one. The deliverer (deliverer.ts) sends it.
+ */
+
+const CONCURRENCY = Math.max(
+  1,
+  parseInt(process.env.WORKER_CONCURRENCY ?? "2", 10) || 2,
+);
+
+/** How often an idle worker looks for due jobs (retries become due). */
+const POLL_INTERVAL_MS = 2_000;
+
+/** A running job's lease is extended this often. */
+const HEARTBEAT_MS = LEASE_MS / 5;
+
+const instanceId = `${hostname()}-${randomUUID().slice(0, 8)}`;
+
+let stopping = false;
+
+/** Running jobs by id, with the worker running each. */
+const running = new Map<string, string>();
+
+/** Wake-ups for the idle workers. */
+const sleepers = new Set<() => void>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      sleepers.delete(done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    sleepers.add(done);
+  });
+}
+
+/** Let idle workers look for work now, e.g. after a job was enqueued. */
+export function wakeWorkers(): void {
+  for (const wake of [...sleepers]) wake();
+}
+
+/**
+ * Store the job's callback in the outbox; the deliverer sends it and
+ * retries until the web app has it.
+ */
+async function queueCallback(job: Job, result: ProcessResult): Promise<void> {
+  if (!job.callbackUrl) return;
+
+  await enqueueCallback({
+    jobId: job.id,
+    url: job.callbackUrl,
+    body: {
+      jobId: job.id,
+      fileId: job.fileId,
+      status: result.success ? "completed" : "failed",
+      resultCsvKey: result.csvKey || null,
+      normalizedCsvKey: result.normalizedCsvKey || null,
+      mappingReportKey: result.mappingReportKey || null,
+      reconciliationKey: result.reconciliationKey || null,
+      reconciliation: result.reconciliation ?? null,
+      pageTextKey: result.pageTextKey || null,
+      confidence: result.confidence ?? null,
+      error: result.error || null,
+    },
+  });
+  wakeDeliverer();
+}
+
+/**
+ * A job claimed again after its last attempt died with the process (out of
+ * memory, a crash, a forced restart) is not run once more.
+ */
+function interruptedResult(job: Job): ProcessResult {
+  return {
+    success: false,
+    jobId: job.id,
+    error: `The last of ${job.maxAttempts} attempts was interrupted before it finished.`,
+    durationMs: 0,
+    steps: 0,
+    verified: false,
+  };
+}
+
+async function runJob(job: Job, workerId: string): Promise<void> {
+  running.set(job.id, workerId);
+  const heartbeat = setInterval(() => {
+    extendLease(job.id, workerId)
+      .then((held) => {
+        if (!held) {
+          logger.warn("Lost the lease on a running job", { jobId: job.id });
+        }
+      })
+      .catch((err) => {
+        logger.warn("Failed to extend a job's lease", {
+          jobId: job.id,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+  }, HEARTBEAT_MS);
+
+  logger.info("Job claimed", {
+    jobId: job.id,
+    pdfKey: job.pdfKey,
+    attempt: job.attempts,
+    maxAttempts: job.maxAttempts,
+    workerId,
+  });
+
+  // Saved on the job for GET /jobs/:id
+  const progress = createProgressTracker(job.attempts, (snapshot) =>
+    saveJobProgress(job.id, workerId, snapshot),
+  );
+
+  try {
+    const result =
+      job.attempts > job.maxAttempts
+        ? interruptedResult(job)
+        : await processPdf(job.pdfKey, {
+            jobId: job.id,
+            progress,
+            freshScript: job.freshScript,
+          });
+
+    // A job released on shutdown, or whose lease ran out and was claimed
+    // again, belongs to its next run: nothing is recorded or sent. The
+    // updated job carries a callback added while it ran.
+    if (result.success) {
+      const completed = await completeJob(job.id, workerId, result);
+      if (completed) await queueCallback(completed, result);
+      return;
+    }
+
+    const error = result.error ?? "Processing failed";
+    const updated = await failJob(job, workerId, error, result);
+    if (updated?.status === "failed") {
+      logger.error("Job failed after its last attempt", {
+        jobId: job.id,
+        pdfKey: job.pdfKey,
+        attempts: job.attempts,
+        error,
+      });
+      await queueCallback(updated, result);
+    } else if (updated?.status === "queued") {
+      logger.warn("Job attempt failed, will retry", {
+        jobId: job.id,
+        pdfKey: job.pdfKey,
+        attempt: job.attempts,
+        error,
+      });
+    }
+  } catch (err) {
+    // The queue could not be updated; the lease runs out and the job is
+    // claimed again
+    logger.error("Failed to record a job's outcome", {
+      jobId: job.id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  } finally {
+    clearInterval(heartbeat);
+    running.delete(job.id);
+  }
+}
+
+async function workerLoop(workerId: string): Promise<void> {
+  while (!stopping) {
+    let job: Job | null = null;
+    try {
+      job = await claimJob(workerId);
+    } catch (err) {
+      logger.error("Failed to claim a job", {
+        workerId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    if (job) {
+      await runJob(job, workerId);
+    } else {
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+}
+
+/** Start the worker loops. */
+export function startWorkers(): void {
+  logger.info("Starting job workers", {
+    concurrency: CONCURRENCY,
+    instanceId,
+  });
+  for (let i = 0; i < CONCURRENCY; i++) {
+    void workerLoop(`${instanceId}-${i}`);
+  }
+}
+
+/**
+ * Stop claiming jobs and hand the running ones back to the queue, so
+ * another instance (or this one after the restart) picks them up without
+ * waiting for their leases to run out.
+ */
+export async function stopWorkers(): Promise<void> {
+  stopping = true;
+  wakeWorkers();
+  await Promise.all(
+    [...running].map(([jobId, workerId]) =>
+      releaseJob(jobId, workerId).catch((err) => {
+        logger.warn("Failed to release a running job", {
+          jobId,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }),
+    ),
+  );
+}
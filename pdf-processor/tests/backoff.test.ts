@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { retryDelayMs as jobRetryDelayMs } from "../src/lib/job-queue.js";
+import { retryDelayMs as callbackRetryDelayMs } from "../src/lib/callback-outbox.js";
+
+describe("job retry backoff", () => {
+  it("doubles from 30 seconds up to 10 minutes", () => {
+    expect([1, 2, 3, 4].map(jobRetryDelayMs)).toEqual([
+      30_000, 60_000, 120_000, 240_000,
+    ]);
+    expect(jobRetryDelayMs(6)).toBe(600_000);
+    expect(jobRetryDelayMs(50)).toBe(600_000);
+  });
+});
+
+describe("callback retry backoff", () => {
+  it("doubles from 10 seconds up to an hour", () => {
+    expect([1, 2, 3].map(callbackRetryDelayMs)).toEqual([
+      10_000, 20_000, 40_000,
+    ]);
+    expect(callbackRetryDelayMs(10)).toBe(3_600_000);
+    expect(callbackRetryDelayMs(100)).toBe(3_600_000);
+  });
+});
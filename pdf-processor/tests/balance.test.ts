@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkStatementBalances,
+  findStatementSummary,
+} from "../src/lib/balance.js";
+
+const HEADER = "Date,Description,Debit,Credit,Balance";
+const ROWS = [
+  "2024-01-01,Salary,,1000.00,1500.00",
+  "2024-01-02,Rent,400.00,,1100.00",
+  "2024-01-03,Groceries,100.00,,1000.00",
+];
+const SUMMARY = "Opening Balance: 500.00\nClosing Balance: 1,000.00";
+
+function csv(rows: string[], header = HEADER): string {
+  return `${header}\n${rows.join("\n")}\n`;
+}
+
+describe("findStatementSummary", () => {
+  it("reads the printed balances and totals", () => {
+    const summary = findStatementSummary(
+      "Opening Balance: 1,234.56\nTotal Debits 200.00\nTotal Credits 300.00\nClosing Balance 1,334.56",
+    );
+
+    expect(summary).toEqual({
+      openingBalance: 1234.56,
+      closingBalance: 1334.56,
+      totalDebits: 200,
+      totalCredits: 300,
+    });
+  });
+});
+
+describe("checkStatementBalances", () => {
+  it("passes a statement whose balances chain and match the summary", () => {
+    const check = checkStatementBalances(csv(ROWS), SUMMARY);
+
+    expect(check.passed).toBe(true);
+    expect(check.checked).toBe(true);
+    expect(check.order).toBe("oldest-first");
+    expect(check.breakCount).toBe(0);
+    expect(check.csvOpeningBalance).toBe(500);
+    expect(check.csvClosingBalance).toBe(1000);
+  });
+
+  it("detects newest-first statements", () => {
+    const check = checkStatementBalances(csv([...ROWS].reverse()), SUMMARY);
+
+    expect(check.passed).toBe(true);
+    expect(check.order).toBe("newest-first");
+  });
+
+  it("reports a break where a row was dropped", () => {
+    const check = checkStatementBalances(csv([ROWS[0], ROWS[2]]), null);
+
+    expect(check.passed).toBe(false);
+    expect(check.breakCount).toBe(1);
+    expect(check.errors[0]).toMatchObject({ code: "balance_break", row: 2 });
+  });
+
+  it("fails a summary mismatch without a break", () => {
+    const check = checkStatementBalances(
+      csv(ROWS),
+      "Opening Balance: 500.00\nClosing Balance: 1,200.00",
+    );
+
+    expect(check.passed).toBe(false);
+    expect(check.breakCount).toBe(0);
+    expect(check.errors.map((e) => e.code)).toEqual([
+      "closing_balance_mismatch",
+    ]);
+  });
+
+  it("checks the net movement when there is no balance column", () => {
+    const rows = ROWS.map((row) => row.slice(0, row.lastIndexOf(",")));
+    const header = "Date,Description,Debit,Credit";
+
+    expect(checkStatementBalances(csv(rows, header), SUMMARY).passed).toBe(
+      true,
+    );
+    const off = checkStatementBalances(csv(rows.slice(0, 2), header), SUMMARY);
+    expect(off.passed).toBe(false);
+    expect(off.errors.map((e) => e.code)).toEqual(["net_movement_mismatch"]);
+  });
+
+  it("has nothing to check without a balance column or summary", () => {
+    const rows = ROWS.map((row) => row.slice(0, row.lastIndexOf(",")));
+    const check = checkStatementBalances(
+      csv(rows, "Date,Description,Debit,Credit"),
+      null,
+    );
+
+    expect(check.checked).toBe(false);
+    expect(check.order).toBeNull();
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { detectBank } from "../src/lib/banks.js";
+
+describe("detectBank", () => {
+  it("finds a bank named in the header", () => {
+    expect(detectBank("HDFC BANK LTD Statement of account")).toBe("hdfc");
+    expect(detectBank("State Bank of India - Account Statement")).toBe("sbi");
+  });
+
+  it("needs the full name for common words", () => {
+    expect(detectBank("Union Bank of India")).toBe("union bank");
+    expect(detectBank("Statement for Trade Union member account")).toBeNull();
+  });
+});
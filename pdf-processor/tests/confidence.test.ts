@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { checkStatementBalances } from "../src/lib/balance.js";
+import { REVIEW_THRESHOLD, scoreConversion } from "../src/lib/confidence.js";
+import { reconcileStatement } from "../src/lib/reconcile.js";
+
+const CSV = `Date,Description,Debit,Credit,Balance
+2024-01-01,Salary,,1000.00,1500.00
+2024-01-02,Rent,400.00,,1100.00
+`;
+const PAGE = `Opening Balance: 500.00
+01/01/2024 Salary 1,000.00 1,500.00
+02/01/2024 Rent 400.00 1,100.00
+Closing Balance: 1,100.00`;
+const EXTRACTED = {
+  pageCount: 1,
+  pages: [{ pageNum: 0, text: PAGE, tables: [] }],
+};
+
+describe("scoreConversion", () => {
+  it("scores a fully checked conversion 100", () => {
+    const confidence = scoreConversion({
+      verification: {
+        verified: true,
+        balanceCheck: checkStatementBalances(CSV, PAGE),
+      },
+      verdict: { matches: true, issues: [] },
+      reconciliation: reconcileStatement(CSV, EXTRACTED),
+    });
+
+    expect(confidence.score).toBe(100);
+    expect(confidence.level).toBe("high");
+    expect(confidence.needsReview).toBe(false);
+  });
+
+  it("sends any failed check to review", () => {
+    const confidence = scoreConversion({
+      verification: {
+        verified: true,
+        balanceCheck: checkStatementBalances(
+          CSV,
+          PAGE.replace("Closing Balance: 1,100.00", "Closing Balance: 900.00"),
+        ),
+      },
+      verdict: { matches: true, issues: [] },
+      reconciliation: reconcileStatement(CSV, EXTRACTED),
+    });
+
+    expect(confidence.needsReview).toBe(true);
+  });
+
+  it("sends a conversion the agent did not vouch for to review", () => {
+    const confidence = scoreConversion({
+      verification: {
+        verified: true,
+        balanceCheck: checkStatementBalances(CSV, PAGE),
+      },
+      verdict: null,
+      reconciliation: reconcileStatement(CSV, EXTRACTED),
+    });
+
+    expect(confidence.score).toBeLessThan(REVIEW_THRESHOLD);
+    expect(confidence.needsReview).toBe(true);
+  });
+
+  it("lets a trusted script stand in for the verdict", () => {
+    const confidence = scoreConversion({
+      verification: {
+        verified: true,
+        balanceCheck: checkStatementBalances(CSV, PAGE),
+      },
+      verdict: null,
+      reconciliation: reconcileStatement(CSV, EXTRACTED),
+      trustedScript: { successCount: 5, failureCount: 0 },
+    });
+
+    expect(confidence.score).toBe(100);
+    expect(confidence.needsReview).toBe(false);
+  });
+
+  it("holds a CSV whose balances could not be checked", () => {
+    const noBalances = `Date,Description,Debit,Credit
+2024-01-01,Salary,,1000.00
+2024-01-02,Rent,400.00,
+`;
+    const confidence = scoreConversion({
+      verification: {
+        verified: true,
+        balanceCheck: checkStatementBalances(noBalances, null),
+      },
+      verdict: null,
+      reconciliation: reconcileStatement(noBalances, {
+        ...EXTRACTED,
+        pages: [
+          {
+            pageNum: 0,
+            text: `${PAGE}\nTotal Debits 400.00\nTotal Credits 1,000.00`,
+            tables: [],
+          },
+        ],
+      }),
+      trustedScript: { successCount: 5, failureCount: 0 },
+    });
+
+    expect(confidence.score).toBe(REVIEW_THRESHOLD);
+    expect(confidence.needsReview).toBe(true);
+  });
+});
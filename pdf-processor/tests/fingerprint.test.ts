@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import {
+  fingerprintSimilarity,
+  type LayoutFingerprint,
+} from "../src/lib/fingerprint.js";
+
+const LAYOUT: LayoutFingerprint = {
+  pageWidth: 595,
+  pageHeight: 842,
+  producer: "StatementGen 4.2",
+  headerTokens: ["account", "hdfc", "statement"],
+  bank: "hdfc",
+  columnHeaders: ["date", "narration", "withdrawal", "deposit", "balance"],
+  columnPositions: [0.05, 0.2, 0.55, 0.7, 0.85],
+};
+
+describe("fingerprintSimilarity", () => {
+  it("scores the same layout 1", () => {
+    expect(fingerprintSimilarity(LAYOUT, { ...LAYOUT })).toBe(1);
+  });
+
+  it("ignores a different customer's header words more than columns", () => {
+    const otherCustomer = {
+      ...LAYOUT,
+      headerTokens: ["account", "hdfc", "statement", "priya", "mumbai"],
+    };
+    const otherColumns = {
+      ...LAYOUT,
+      columnHeaders: ["txn date", "details", "debit", "credit", "balance"],
+    };
+
+    expect(fingerprintSimilarity(LAYOUT, otherCustomer)).toBe(0.9);
+    expect(fingerprintSimilarity(LAYOUT, otherColumns)).toBeLessThan(
+      fingerprintSimilarity(LAYOUT, otherCustomer),
+    );
+  });
+
+  it("scores reordered columns below the same columns", () => {
+    const reordered = {
+      ...LAYOUT,
+      columnHeaders: ["date", "narration", "deposit", "withdrawal", "balance"],
+    };
+
+    // 0.45 × 0.8 for the columns, everything else equal
+    expect(fingerprintSimilarity(LAYOUT, reordered)).toBe(0.91);
+  });
+
+  it("scores another paper size and producer lower", () => {
+    const other = {
+      ...LAYOUT,
+      pageWidth: 612,
+      pageHeight: 792,
+      producer: "Other",
+    };
+
+    expect(fingerprintSimilarity(LAYOUT, other)).toBe(0.8);
+  });
+});
@@ -0,0 +1,141 @@
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  casesForLayout,
+  checkGoldenSet,
+  compareCsv,
+  type GoldenCase,
+} from "../src/lib/golden.js";
+import type { LayoutFingerprint } from "../src/lib/fingerprint.js";
+
+const EXPECTED = `Date,Description,Amount
+2024-01-01,Salary,"1,000.00"
+2024-01-02,Rent,-400.00
+`;
+
+describe("compareCsv", () => {
+  it("matches amounts by value and headers by name", () => {
+    const result = compareCsv(
+      EXPECTED,
+      `date, description ,AMOUNT
+2024-01-01,Salary,1000
+2024-01-02,Rent,-400.004
+`,
+    );
+
+    expect(result.passed).toBe(true);
+    expect(result.diffCount).toBe(0);
+  });
+
+  it("reports changed cells", () => {
+    const result = compareCsv(
+      EXPECTED,
+      `Date,Description,Amount
+2024-01-01,Salary,1000.00
+2024-01-02,Rent,-410.00
+`,
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.diffs).toEqual([
+      { row: 2, column: "Amount", expected: "-400.00", actual: "-410.00" },
+    ]);
+  });
+
+  it("reports missing rows and columns", () => {
+    const result = compareCsv(
+      EXPECTED,
+      `Date,Description
+2024-01-01,Salary
+`,
+    );
+
+    expect(result.expectedRows).toBe(2);
+    expect(result.actualRows).toBe(1);
+    expect(result.diffs).toEqual([
+      { row: null, column: "Amount", expected: "Amount", actual: "" },
+      {
+        row: 2,
+        column: null,
+        expected: "2024-01-02,Rent,-400.00",
+        actual: "(no row)",
+      },
+    ]);
+  });
+});
+
+const LAYOUT: LayoutFingerprint = {
+  pageWidth: 595,
+  pageHeight: 842,
+  producer: "StatementGen 4.2",
+  headerTokens: ["account", "statement"],
+  bank: "hdfc",
+  columnHeaders: ["date", "narration", "withdrawal", "deposit", "balance"],
+  columnPositions: [0.05, 0.2, 0.55, 0.7, 0.85],
+};
+
+function goldenCase(
+  name: string,
+  fingerprint: LayoutFingerprint | null,
+): GoldenCase {
+  return {
+    name,
+    pdfPath: `${name}.pdf`,
+    csvPath: `${name}.csv`,
+    fingerprint,
+  };
+}
+
+describe("casesForLayout", () => {
+  it("selects cases of the same layout and bank", () => {
+    const cases = [
+      goldenCase("hdfc", LAYOUT),
+      goldenCase("axis", { ...LAYOUT, bank: "axis" }),
+      goldenCase("unknown bank", { ...LAYOUT, bank: null }),
+      goldenCase("other layout", {
+        ...LAYOUT,
+        columnHeaders: ["txn date", "details", "amount"],
+        columnPositions: [0.1, 0.3, 0.8],
+      }),
+      goldenCase("unreadable", null),
+    ];
+
+    expect(casesForLayout(cases, LAYOUT).map((c) => c.name)).toEqual([
+      "hdfc",
+      "unknown bank",
+    ]);
+  });
+});
+
+describe("checkGoldenSet", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("says why nothing ran without a golden set", async () => {
+    vi.stubEnv("GOLDEN_DIR", "");
+
+    const check = await checkGoldenSet("print('x')", LAYOUT);
+
+    expect(check).toEqual({
+      passed: true,
+      results: [],
+      skipped: "GOLDEN_DIR is not set.",
+    });
+  });
+
+  it("says why nothing ran when no golden PDF matches", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "golden-"));
+    vi.stubEnv("GOLDEN_DIR", dir);
+    try {
+      const check = await checkGoldenSet("print('x')", LAYOUT);
+
+      expect(check.passed).toBe(true);
+      expect(check.skipped).toContain("matches the layout (hdfc)");
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+});
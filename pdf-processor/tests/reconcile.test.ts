@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { reconcileStatement } from "../src/lib/reconcile.js";
+import type { ExtractedPage } from "../src/types.js";
+
+const CSV = `Date,Description,Debit,Credit,Balance
+2024-01-01,Salary,,1000.00,1500.00
+2024-01-02,Rent,400.00,,1100.00
+2024-01-03,Groceries,100.00,,1000.00
+`;
+
+function page(pageNum: number, text: string): ExtractedPage {
+  return { pageNum, text, tables: [] };
+}
+
+function extracted(...texts: string[]) {
+  return {
+    pageCount: texts.length,
+    pages: texts.map((text, i) => page(i, text)),
+  };
+}
+
+const FIRST_PAGE = `Opening Balance: 500.00
+01/01/2024 Salary 1,000.00 1,500.00
+02/01/2024 Rent 400.00 1,100.00`;
+const LAST_PAGE = `03/01/2024 Groceries 100.00 1,000.00
+Closing Balance: 1,000.00`;
+
+function check(report: ReturnType<typeof reconcileStatement>, name: string) {
+  return report.checks.find((c) => c.name === name)?.status;
+}
+
+describe("reconcileStatement", () => {
+  it("is green when rows, pages and balances reconcile", () => {
+    const report = reconcileStatement(CSV, extracted(FIRST_PAGE, LAST_PAGE));
+
+    expect(report.status).toBe("green");
+    expect(report.pdfTransactionLines).toBe(3);
+    expect(report.csvRowCount).toBe(3);
+    expect(report.pages).toEqual([
+      { page: 1, transactionLines: 2 },
+      { page: 2, transactionLines: 1 },
+    ]);
+    expect(report.totals).toMatchObject({ csvDebits: 500, csvCredits: 1000 });
+    expect(check(report, "Running balance")).toBe("pass");
+  });
+
+  it("is amber when a page between transactions has none", () => {
+    const report = reconcileStatement(
+      CSV,
+      extracted(FIRST_PAGE, "Continued overleaf", LAST_PAGE),
+    );
+
+    expect(report.status).toBe("amber");
+    expect(report.pagesWithoutRows).toEqual([2]);
+  });
+
+  it("is amber without the PDF's pages", () => {
+    const report = reconcileStatement(CSV, null);
+
+    expect(report.status).toBe("amber");
+    expect(check(report, "Rows per page")).toBe("skipped");
+  });
+
+  it("is red when the closing balance does not match", () => {
+    const report = reconcileStatement(
+      CSV,
+      extracted(
+        FIRST_PAGE,
+        LAST_PAGE.replace(
+          "Closing Balance: 1,000.00",
+          "Closing Balance: 1,200.00",
+        ),
+      ),
+    );
+
+    expect(report.status).toBe("red");
+    expect(report.balances.statementClosing).toBe(1200);
+  });
+
+  it("is red when a printed total does not match", () => {
+    const report = reconcileStatement(
+      CSV,
+      extracted(FIRST_PAGE, `${LAST_PAGE}\nTotal Debits 600.00`),
+    );
+
+    expect(report.status).toBe("red");
+    expect(check(report, "Total debits")).toBe("fail");
+  });
+});
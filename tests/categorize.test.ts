@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { executeQuery, loadCsvIntoDb, type DbScope } from "@/lib/csv-db";
+import {
+  categorizeTable,
+  compileRulePattern,
+  detectBank,
+  type CachedLlmCategory,
+  type LlmCategoryCache,
+} from "@/lib/categorize";
+import { categorizeTransactions } from "@/lib/llm";
+
+vi.mock("@/lib/llm", () => ({
+  categorizeTransactions: vi.fn(async (descriptions: string[]) =>
+    descriptions.map(() => ({
+      category: "Shopping",
+      merchant: "Acme Traders",
+    })),
+  ),
+}));
+
+const scope: DbScope = { userId: "test-user", customerId: "categorize" };
+
+describe("regex category rules", () => {
+  it("rejects lookarounds and backreferences", () => {
+    expect(() => compileRulePattern("(?=NEFT)ACME")).toThrow();
+    expect(() => compileRulePattern("(ab)\\1")).toThrow();
+    expect(compileRulePattern("neft.*acme").test("NEFT-ACME CORP")).toBe(true);
+  });
+
+  it("matches a backtracking-prone pattern in linear time", async () => {
+    const narration = `${"a".repeat(5000)}!`;
+    await loadCsvIntoDb(
+      scope,
+      `Date,Description,Debit\n2024-01-04,${narration},100\n2024-01-05,NEFT-ACME,200\n`,
+      "statement",
+    );
+
+    const startedAt = Date.now();
+    await categorizeTable(scope, "statement", {
+      rules: [
+        { matchType: "regex", pattern: "(a+)+$", category: "Shopping" },
+        { matchType: "regex", pattern: "^neft-acme$", category: "Salary" },
+      ],
+    });
+    expect(Date.now() - startedAt).toBeLessThan(2000);
+
+    const { rows } = await executeQuery(
+      scope,
+      "SELECT category FROM statement ORDER BY date",
+    );
+    // The first narration fails to match, which is where a backtracking
+    // engine takes exponential time
+    expect(rows).toEqual([["Other"], ["Salary"]]);
+  });
+});
+
+describe("detectBank", () => {
+  it("matches bank names as whole words of the table name", () => {
+    expect(detectBank("hdfc_statement_jan_2024")).toBe("hdfc");
+    expect(detectBank("t_2024_sbi")).toBe("sbi");
+    expect(detectBank("electricity_bills")).toBeNull();
+    expect(detectBank("taxis")).toBeNull();
+    expect(detectBank("marble_purchase")).toBeNull();
+    expect(detectBank("sbiz_invoices")).toBeNull();
+  });
+});
+
+describe("LLM categorization", () => {
+  afterEach(() => {
+    delete process.env.CATEGORIZE_WITH_LLM;
+    vi.mocked(categorizeTransactions).mockClear();
+  });
+
+  it("asks about a narration once and reuses the cached answer", async () => {
+    process.env.CATEGORIZE_WITH_LLM = "true";
+    const stored = new Map<string, CachedLlmCategory>();
+    const llmCache: LlmCategoryCache = {
+      get: async (keys) =>
+        new Map(
+          keys.flatMap((key) => {
+            const hit = stored.get(key);
+            return hit ? [[key, hit] as const] : [];
+          }),
+        ),
+      set: async (answers) => {
+        for (const [key, answer] of answers) stored.set(key, answer);
+      },
+    };
+
+    await loadCsvIntoDb(
+      scope,
+      "Date,Description,Debit\n2024-01-04,ZXQ 99812 ORDER,100\n",
+      "llm_statement",
+    );
+    await categorizeTable(scope, "llm_statement", { llmCache });
+    // The reference number differs, the narration is the same
+    await loadCsvIntoDb(
+      scope,
+      "Date,Description,Debit\n2024-02-04,ZXQ 10233 ORDER,120\n",
+      "llm_statement_feb",
+    );
+    await categorizeTable(scope, "llm_statement_feb", { llmCache });
+
+    expect(categorizeTransactions).toHaveBeenCalledTimes(1);
+    const { rows } = await executeQuery(
+      scope,
+      "SELECT category, merchant FROM llm_statement_feb",
+    );
+    expect(rows).toEqual([["Shopping", "Acme Traders"]]);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { needsReview, type ConversionConfidence } from "@/lib/confidence";
+
+function confidence(
+  balancePoints: number,
+  flagged = false,
+): ConversionConfidence {
+  return {
+    score: balancePoints + 70,
+    level: "high",
+    needsReview: flagged,
+    factors: [
+      {
+        name: "Balance checks",
+        points: balancePoints,
+        maxPoints: 30,
+        detail: "",
+      },
+      { name: "Reconciliation", points: 30, maxPoints: 30, detail: "" },
+      { name: "Script record", points: 30, maxPoints: 30, detail: "" },
+      { name: "Verification run", points: 10, maxPoints: 10, detail: "" },
+    ],
+  };
+}
+
+describe("needsReview", () => {
+  it("releases a conversion whose checks all passed", () => {
+    expect(needsReview(confidence(30))).toBe(false);
+  });
+
+  it("holds a conversion without a score or flagged by the processor", () => {
+    expect(needsReview(null)).toBe(true);
+    expect(needsReview(confidence(30, true))).toBe(true);
+  });
+
+  it("holds a conversion whose balances went unchecked", () => {
+    // An older processor scored this 80 and did not flag it
+    expect(needsReview(confidence(10))).toBe(true);
+    expect(needsReview({ ...confidence(30), factors: [] })).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  executeQuery,
+  getTableSchemas,
+  loadCsvIntoDb,
+  resetDb,
+  type DbScope,
+} from "@/lib/csv-db";
+import { ingestCsv, type PrenormalizedCsv } from "@/lib/ingest";
+import { normalizeStatement } from "@/lib/statement-schema";
+
+// Category rules live in Postgres; these tests are about the tables ingest
+// leaves behind
+vi.mock("@/lib/category-rules", () => ({
+  categorizeLoadedTable: async () => null,
+}));
+
+const scope: DbScope = { userId: "test-user", customerId: "ingest" };
+
+const STATEMENT = `Date,Description,Debit,Credit,Balance
+2024-01-02,Opening salary credit,,85000.00,97500.00
+2024-01-04,UPI/Swiggy/food order,640.50,,96859.50
+`;
+
+beforeEach(() => {
+  resetDb(scope);
+});
+
+describe("ingestCsv", () => {
+  it("keeps a user's own table whose name ends in _raw", async () => {
+    await loadCsvIntoDb(scope, "id,note\n1,keep me\n", "savings_raw");
+
+    const result = await ingestCsv(scope, STATEMENT, "savings", "savings.csv");
+
+    expect(result.rawTableName).not.toBe("savings_raw");
+    expect(getTableSchemas(scope).has(result.rawTableName!)).toBe(true);
+    const kept = await executeQuery(scope, `SELECT note FROM "savings_raw"`);
+    expect(kept.rows).toEqual([["keep me"]]);
+  });
+
+  it("loads the processor's normalization under the file's name", async () => {
+    const normalized = normalizeStatement(
+      ["Date", "Description", "Debit", "Credit", "Balance"],
+      [
+        {
+          Date: "2024-01-02",
+          Description: "Opening salary credit",
+          Debit: "",
+          Credit: "85000.00",
+          Balance: "97500.00",
+        },
+      ],
+      "job-123.csv",
+    );
+    const prenormalized: PrenormalizedCsv = {
+      csv: `${normalized.columns.join(",")}\n${normalized.rows
+        .map((row) => row.map((value) => value ?? "").join(","))
+        .join("\n")}\n`,
+      report: normalized.report,
+    };
+
+    // The CSV as uploaded has a second row the processor's output lacks, so
+    // the canonical table shows which one was loaded
+    const result = await ingestCsv(
+      scope,
+      STATEMENT,
+      "savings",
+      "savings.csv",
+      prenormalized,
+    );
+
+    expect(result.rowCount).toBe(1);
+    expect(result.report.sourceFile).toBe("savings.csv");
+    const rows = await executeQuery(
+      scope,
+      `SELECT description, source_file FROM "savings"`,
+    );
+    expect(rows.rows).toEqual([["Opening salary credit", "savings.csv"]]);
+  });
+});
@@ -0,0 +1,150 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { beforeAll, describe, expect, it } from "vitest";
+import { loadCsvIntoDb, resetDb, type DbScope } from "@/lib/csv-db";
+import { runQueryPipeline } from "@/lib/query-pipeline";
+import type { QueryStreamEvent } from "@/lib/query-events";
+
+// Replays recorded LLM responses (tests/fixtures/llm) against the sample
+// statements in tests/fixtures/csv. Fixtures are keyed by the full prompt,
+// so a prompt change needs them recorded again:
+//   LLM_FIXTURES_RECORD=gemini npm test
+
+const FIXTURES = path.join(__dirname, "fixtures");
+const STATEMENTS = ["savings_jan_2024", "savings_feb_2024"];
+
+const scope: DbScope = { userId: "test-user", customerId: "test-customer" };
+
+beforeAll(async () => {
+  process.env.LLM_PROVIDER = "fixture";
+  process.env.LLM_FIXTURES_DIR = path.join(FIXTURES, "llm");
+
+  resetDb(scope);
+  for (const table of STATEMENTS) {
+    const csv = await readFile(
+      path.join(FIXTURES, "csv", `${table}.csv`),
+      "utf-8",
+    );
+    await loadCsvIntoDb(scope, csv, table);
+  }
+});
+
+async function run(question: string): Promise<QueryStreamEvent[]> {
+  const events: QueryStreamEvent[] = [];
+  for await (const event of runQueryPipeline(scope, question)) {
+    events.push(event);
+  }
+  return events;
+}
+
+function ofType<T extends QueryStreamEvent["type"]>(
+  events: QueryStreamEvent[],
+  type: T,
+): Extract<QueryStreamEvent, { type: T }>[] {
+  return events.filter(
+    (event): event is Extract<QueryStreamEvent, { type: T }> =>
+      event.type === type,
+  );
+}
+
+describe("runQueryPipeline", () => {
+  it("repairs Postgres syntax and typos before running the SQL", async () => {
+    const events = await run(
+      "How much did I spend on Swiggy each month in January?",
+    );
+
+    // DATE_TRUNC and ILIKE are rewritten for SQLite, and the misspelt
+    // table and column are matched to the real ones
+    expect(ofType(events, "sql")).toEqual([
+      {
+        type: "sql",
+        sql: [
+          `SELECT strftime('%Y-%m', "date") AS "month", SUM("debit") AS "spent"`,
+          `FROM "savings_jan_2024"`,
+          `WHERE LOWER("description") LIKE LOWER('%swiggy%')`,
+          `GROUP BY strftime('%Y-%m', "date")`,
+        ].join("\n"),
+        explanation:
+          "Totals the Swiggy debits in the January statement by month.",
+        attempt: 0,
+      },
+    ]);
+    expect(ofType(events, "retry")).toEqual([]);
+    expect(ofType(events, "rows")).toEqual([
+      {
+        type: "rows",
+        columns: ["month", "spent"],
+        data: [{ month: "2024-01", spent: 1052.5 }],
+        rowCount: 1,
+      },
+    ]);
+    expect(ofType(events, "answer")[0]?.answer).toContain("₹1,052.50");
+    expect(ofType(events, "chart")[0]?.chartConfig).toMatchObject({
+      chartType: "bar",
+      xKey: "month",
+      yKeys: ["spent"],
+    });
+    expect(events.at(-1)).toEqual({ type: "done" });
+  });
+
+  it("retries with the error when the SQL fails", async () => {
+    const events = await run("What was my largest expense in February?");
+
+    expect(ofType(events, "retry")).toEqual([
+      {
+        type: "retry",
+        attempt: 1,
+        error: "SQL execution error: no such column: amount",
+        rejected: false,
+      },
+    ]);
+    expect(ofType(events, "sql").map((event) => event.sql)).toEqual([
+      "SELECT description, amount FROM savings_feb_2024 ORDER BY amount DESC LIMIT 1",
+      `SELECT "description", "debit" FROM "savings_feb_2024" WHERE "debit" IS NOT NULL ORDER BY "debit" DESC LIMIT 1`,
+    ]);
+    expect(ofType(events, "rows")[0]?.data).toEqual([
+      { description: "NEFT rent February", debit: 25000 },
+    ]);
+    expect(ofType(events, "chart")[0]?.chartConfig).toBeNull();
+    expect(events.at(-1)).toEqual({ type: "done" });
+  });
+
+  it("gives up after the last retry", async () => {
+    const events = await run("Show my January statement and clear it");
+
+    // The first attempt is refused by the read-only guard, the retries fail
+    // in SQLite
+    expect(ofType(events, "retry")).toEqual([
+      {
+        type: "retry",
+        attempt: 1,
+        error:
+          "Query rejected: Only a single statement is allowed. Write a single read-only SELECT or WITH statement.",
+        rejected: true,
+      },
+      {
+        type: "retry",
+        attempt: 2,
+        error: "SQL execution error: no such column: amount",
+        rejected: false,
+      },
+    ]);
+    expect(ofType(events, "rows")).toEqual([]);
+    expect(events.at(-1)).toMatchObject({
+      type: "error",
+      error:
+        "SQL execution failed after 3 attempts. Last error: SQL execution error: no such column: amount",
+      rejected: false,
+    });
+  });
+
+  it("reports a missing fixture as an error", async () => {
+    const events = await run("A question nobody recorded");
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: "error" });
+    expect(ofType(events, "error")[0]?.error).toMatch(
+      /^Failed to generate SQL query: No LLM fixture for this sql request/,
+    );
+  });
+});
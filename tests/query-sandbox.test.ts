@@ -0,0 +1,66 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  executeReadOnlyQuery,
+  loadCsvIntoDb,
+  type DbScope,
+} from "@/lib/csv-db";
+
+const scope: DbScope = { userId: "test-user", customerId: "sandbox" };
+
+beforeAll(async () => {
+  await loadCsvIntoDb(
+    scope,
+    "Date,Description,Debit\n2024-01-04,Swiggy,640.50\n2024-01-07,Rent,25000\n2024-01-19,Swiggy,412\n",
+    "statement",
+  );
+});
+
+describe("executeReadOnlyQuery", () => {
+  it("returns rows up to the row limit", async () => {
+    const result = await executeReadOnlyQuery(
+      scope,
+      "SELECT description, debit FROM statement ORDER BY debit DESC",
+      { maxRows: 2, timeoutMs: 5000 },
+    );
+
+    expect(result).toEqual({
+      columns: ["description", "debit"],
+      rows: [
+        ["Rent", 25000],
+        ["Swiggy", 640.5],
+      ],
+      truncated: true,
+    });
+  });
+
+  it("reports SQLite errors", async () => {
+    await expect(
+      executeReadOnlyQuery(scope, "SELECT amount FROM statement", {
+        maxRows: 10,
+        timeoutMs: 5000,
+      }),
+    ).rejects.toThrow("SQL execution error: no such column: amount");
+  });
+
+  it("stops a query that never yields a row", async () => {
+    // Never produces a row, so it could only be stopped from outside
+    const endless = `
+      WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n)
+      SELECT COUNT(*) FROM n`;
+
+    const startedAt = Date.now();
+    let ticks = 0;
+    const ticker = setInterval(() => ticks++, 50);
+    try {
+      await expect(
+        executeReadOnlyQuery(scope, endless, { maxRows: 10, timeoutMs: 1000 }),
+      ).rejects.toThrow("Query exceeded the 1s time limit.");
+    } finally {
+      clearInterval(ticker);
+    }
+
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+    // The event loop kept running while the query did
+    expect(ticks).toBeGreaterThan(5);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { findClosestMatch, levenshtein, validateAndFixSql } from "@/lib/llm";
+
+describe("levenshtein", () => {
+  it("counts single-character edits", () => {
+    expect(levenshtein("debit", "debit")).toBe(0);
+    expect(levenshtein("debt", "debit")).toBe(1);
+    expect(levenshtein("balnce", "balance")).toBe(1);
+    expect(levenshtein("kitten", "sitting")).toBe(3);
+    expect(levenshtein("", "date")).toBe(4);
+  });
+});
+
+describe("findClosestMatch", () => {
+  const columns = new Set([
+    "date",
+    "description",
+    "debit",
+    "credit",
+    "balance",
+  ]);
+
+  it("matches case-insensitively", () => {
+    expect(findClosestMatch("Description", columns)).toBe("description");
+  });
+
+  it("repairs close typos", () => {
+    expect(findClosestMatch("debt", columns)).toBe("debit");
+    expect(findClosestMatch("balnce", columns)).toBe("balance");
+    expect(findClosestMatch("credt", columns)).toBe("credit");
+  });
+
+  it("matches names that contain a real one", () => {
+    expect(findClosestMatch("debits", columns)).toBe("debit");
+    expect(findClosestMatch("balance_inr", new Set(["balance"]))).toBeNull();
+  });
+
+  it("gives up past the distance threshold", () => {
+    expect(findClosestMatch("merchant_category", columns)).toBeNull();
+    expect(findClosestMatch("debt", columns, 0)).toBeNull();
+  });
+});
+
+describe("validateAndFixSql", () => {
+  it("rewrites DATE_TRUNC to strftime", () => {
+    expect(validateAndFixSql(`SELECT DATE_TRUNC('month', "date") FROM t`)).toBe(
+      `SELECT strftime('%Y-%m', "date") FROM t`,
+    );
+    expect(validateAndFixSql("SELECT DATE_TRUNC('year', date) FROM t")).toBe(
+      "SELECT strftime('%Y', date) FROM t",
+    );
+    expect(validateAndFixSql("SELECT DATE_TRUNC('quarter', date) FROM t")).toBe(
+      "SELECT ((CAST(strftime('%m', date) AS INTEGER) + 2) / 3) FROM t",
+    );
+  });
+
+  it("rewrites EXTRACT to strftime", () => {
+    expect(validateAndFixSql(`SELECT EXTRACT(YEAR FROM "date") FROM t`)).toBe(
+      `SELECT CAST(strftime('%Y', "date") AS INTEGER) FROM t`,
+    );
+    expect(validateAndFixSql("SELECT EXTRACT(dow FROM date) FROM t")).toBe(
+      "SELECT CAST(strftime('%w', date) AS INTEGER) FROM t",
+    );
+  });
+
+  it("rewrites TO_CHAR and NOW()", () => {
+    expect(validateAndFixSql("SELECT TO_CHAR(date, 'YYYY-MM-DD') FROM t")).toBe(
+      "SELECT strftime('%Y-%m-%d', date) FROM t",
+    );
+    expect(validateAndFixSql("SELECT * FROM t WHERE date < NOW()")).toBe(
+      "SELECT * FROM t WHERE date < datetime('now')",
+    );
+  });
+
+  it("rewrites ILIKE, casts and booleans", () => {
+    expect(
+      validateAndFixSql(`SELECT * FROM t WHERE "description" ILIKE '%rent%'`),
+    ).toBe(`SELECT * FROM t WHERE LOWER("description") LIKE LOWER('%rent%')`);
+    expect(validateAndFixSql("SELECT debit::integer FROM t")).toBe(
+      "SELECT CAST(debit AS INTEGER) FROM t",
+    );
+    expect(validateAndFixSql("SELECT * FROM t WHERE flag = TRUE;")).toBe(
+      "SELECT * FROM t WHERE flag = 1",
+    );
+  });
+});
@@ -17,6 +17,7 @@ declare module "sql.js" {
     step(): boolean;
     getAsObject(params?: unknown[]): Record<string, unknown>;
     get(params?: unknown[]): unknown[];
+    getColumnNames(): string[];
     run(params?: unknown[]): void;
     free(): boolean;
     reset(): void;